@@ -18,6 +18,62 @@ const ConfigSchema = z.object({
   JWT_SECRET: z.string().min(32, "JWT_SECRET must be at least 32 characters"),
   JWT_EXPIRES_IN: z.string().default("24h"),
   JWT_REFRESH_EXPIRES_IN_DAYS: z.coerce.number().int().positive().default(30),
+
+  // Trash
+  TRASH_RETENTION_DAYS: z.coerce.number().int().positive().default(30),
+
+  // Web app (links in emails point here)
+  APP_URL: z.string().url().default("http://localhost:5173"),
+
+  // Mail
+  MAIL_TRANSPORT: z.enum(["console", "file", "smtp"]).default("console"),
+  MAIL_FROM: z.string().default("Martian Todos <no-reply@martian-todos.local>"),
+  MAIL_FILE_DIR: z.string().default("tmp/mail"),
+  SMTP_URL: z.string().url().optional(),
+
+  // Password reset
+  PASSWORD_RESET_TTL_MINUTES: z.coerce.number().int().positive().default(60),
+
+  // Email verification ("read" keeps unverified users from changing data)
+  EMAIL_VERIFICATION_TTL_HOURS: z.coerce.number().int().positive().default(48),
+  EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS: z.coerce.number().int().nonnegative().default(60),
+  UNVERIFIED_USER_ACCESS: z.enum(["read", "write"]).default("read"),
+
+  // Auth rate limits (per client IP and per email address, per window)
+  RATE_LIMIT_STORE: z.enum(["memory", "postgres"]).default("postgres"),
+  AUTH_RATE_LIMIT_WINDOW_SECONDS: z.coerce.number().int().positive().default(900),
+  AUTH_RATE_LIMIT_PER_IP: z.coerce.number().int().positive().default(50),
+  AUTH_RATE_LIMIT_PER_EMAIL: z.coerce.number().int().positive().default(10),
+
+  // Account lockout (doubles with each failure past the threshold)
+  LOGIN_LOCKOUT_THRESHOLD: z.coerce.number().int().positive().default(5),
+  LOGIN_LOCKOUT_BASE_SECONDS: z.coerce.number().int().positive().default(60),
+  LOGIN_LOCKOUT_MAX_SECONDS: z.coerce.number().int().positive().default(3600),
+  LOGIN_FAILURE_RESET_HOURS: z.coerce.number().int().positive().default(24),
+
+  // Password sign-in ("false" leaves single sign-on as the only way in)
+  PASSWORD_LOGIN_ENABLED: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+
+  // OpenID Connect single sign-on (on when OIDC_ISSUER is set)
+  OIDC_ISSUER: z.string().url().optional(),
+  OIDC_CLIENT_ID: z.string().optional(),
+  OIDC_CLIENT_SECRET: z.string().optional(),
+  OIDC_SCOPES: z.string().default("openid email profile"),
+  // Defaults to the API callback behind APP_URL's /api proxy.
+  OIDC_REDIRECT_URI: z.string().url().optional(),
+  OIDC_PROVIDER_NAME: z.string().default("SSO"),
+
+  // Data export archives (download links stop working after this)
+  DATA_EXPORT_TTL_HOURS: z.coerce.number().int().positive().default(24),
+
+  // Webhooks ("true" lets them reach private and loopback addresses)
+  WEBHOOK_ALLOW_PRIVATE_TARGETS: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
 });
 
 type Config = z.infer<typeof ConfigSchema>;
@@ -44,6 +100,28 @@ function loadConfig(): Config {
         JWT_SECRET: "dev-secret-do-not-use-in-production-32chars",
         JWT_EXPIRES_IN: "24h",
         JWT_REFRESH_EXPIRES_IN_DAYS: 30,
+        TRASH_RETENTION_DAYS: 30,
+        APP_URL: "http://localhost:5173",
+        MAIL_TRANSPORT: "console",
+        MAIL_FROM: "Martian Todos <no-reply@martian-todos.local>",
+        MAIL_FILE_DIR: "tmp/mail",
+        PASSWORD_RESET_TTL_MINUTES: 60,
+        EMAIL_VERIFICATION_TTL_HOURS: 48,
+        EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS: 60,
+        UNVERIFIED_USER_ACCESS: "read",
+        RATE_LIMIT_STORE: "memory",
+        AUTH_RATE_LIMIT_WINDOW_SECONDS: 900,
+        AUTH_RATE_LIMIT_PER_IP: 50,
+        AUTH_RATE_LIMIT_PER_EMAIL: 10,
+        LOGIN_LOCKOUT_THRESHOLD: 5,
+        LOGIN_LOCKOUT_BASE_SECONDS: 60,
+        LOGIN_LOCKOUT_MAX_SECONDS: 3600,
+        LOGIN_FAILURE_RESET_HOURS: 24,
+        PASSWORD_LOGIN_ENABLED: true,
+        OIDC_SCOPES: "openid email profile",
+        OIDC_PROVIDER_NAME: "SSO",
+        DATA_EXPORT_TTL_HOURS: 24,
+        WEBHOOK_ALLOW_PRIVATE_TARGETS: false,
       };
     }
 
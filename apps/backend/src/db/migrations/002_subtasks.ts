@@ -0,0 +1,45 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds checklist items (subtasks) nested under todos.
+ */
+export const migration002Subtasks: Migration = {
+  id: "002_subtasks",
+  name: "todo subtasks",
+  async up(db) {
+    // Subtasks table.
+    await db.schema
+      .createTable("todo_subtasks")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("todo_id", "uuid", (col) =>
+        col.notNull().references("todos.id").onDelete("cascade")
+      )
+      .addColumn("title", "varchar(200)", (col) => col.notNull())
+      .addColumn("completed", "boolean", (col) =>
+        col.notNull().defaultTo(false)
+      )
+      .addColumn("position", "integer", (col) => col.notNull().defaultTo(0))
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .addColumn("updated_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    // Subtasks are always loaded by their parent todo.
+    await db.schema
+      .createIndex("idx_todo_subtasks_todo_id")
+      .ifNotExists()
+      .on("todo_subtasks")
+      .columns(["todo_id", "position"])
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("todo_subtasks").ifExists().execute();
+  },
+};
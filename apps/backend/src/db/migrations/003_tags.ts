@@ -0,0 +1,53 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds per-user tags and the todo/tag join table.
+ */
+export const migration003Tags: Migration = {
+  id: "003_tags",
+  name: "tags",
+  async up(db) {
+    // Tags table. Names are unique per user.
+    await db.schema
+      .createTable("tags")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("user_id", "uuid", (col) =>
+        col.notNull().references("users.id").onDelete("cascade")
+      )
+      .addColumn("name", "varchar(50)", (col) => col.notNull())
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .addUniqueConstraint("tags_user_id_name_unique", ["user_id", "name"])
+      .execute();
+
+    // Many-to-many join between todos and tags.
+    await db.schema
+      .createTable("todo_tags")
+      .ifNotExists()
+      .addColumn("todo_id", "uuid", (col) =>
+        col.notNull().references("todos.id").onDelete("cascade")
+      )
+      .addColumn("tag_id", "uuid", (col) =>
+        col.notNull().references("tags.id").onDelete("cascade")
+      )
+      .addPrimaryKeyConstraint("todo_tags_pkey", ["todo_id", "tag_id"])
+      .execute();
+
+    // Tag filters look up todos by tag.
+    await db.schema
+      .createIndex("idx_todo_tags_tag_id")
+      .ifNotExists()
+      .on("todo_tags")
+      .column("tag_id")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("todo_tags").ifExists().execute();
+    await db.schema.dropTable("tags").ifExists().execute();
+  },
+};
@@ -0,0 +1,62 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds projects and an optional project reference on todos.
+ * Todos without a project belong to the user's Inbox.
+ */
+export const migration004Projects: Migration = {
+  id: "004_projects",
+  name: "projects",
+  async up(db) {
+    // Projects table.
+    await db.schema
+      .createTable("projects")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("user_id", "uuid", (col) =>
+        col.notNull().references("users.id").onDelete("cascade")
+      )
+      .addColumn("name", "varchar(100)", (col) => col.notNull())
+      .addColumn("color", "varchar(7)", (col) =>
+        col.notNull().defaultTo("#f26d3d")
+      )
+      .addColumn("archived", "boolean", (col) => col.notNull().defaultTo(false))
+      .addColumn("sort_order", "integer", (col) => col.notNull().defaultTo(0))
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .addColumn("updated_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    // Deleting a project moves its remaining todos back to the Inbox.
+    await db.schema
+      .alterTable("todos")
+      .addColumn("project_id", "uuid", (col) =>
+        col.references("projects.id").onDelete("set null")
+      )
+      .execute();
+
+    await db.schema
+      .createIndex("idx_projects_user_id")
+      .ifNotExists()
+      .on("projects")
+      .columns(["user_id", "sort_order"])
+      .execute();
+
+    await db.schema
+      .createIndex("idx_todos_project_id")
+      .ifNotExists()
+      .on("todos")
+      .column("project_id")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.alterTable("todos").dropColumn("project_id").execute();
+    await db.schema.dropTable("projects").ifExists().execute();
+  },
+};
@@ -0,0 +1,25 @@
+import type { Migration } from "./types.js";
+
+/**
+ * Adds recurrence rules to todos.
+ * `recurrence_start` anchors the series so every occurrence is computed
+ * from the same start date (keeps month-end and interval math stable).
+ */
+export const migration005Recurrence: Migration = {
+  id: "005_recurrence",
+  name: "todo recurrence",
+  async up(db) {
+    await db.schema
+      .alterTable("todos")
+      .addColumn("recurrence_rule", "varchar(255)")
+      .addColumn("recurrence_start", "timestamptz")
+      .execute();
+  },
+  async down(db) {
+    await db.schema
+      .alterTable("todos")
+      .dropColumn("recurrence_start")
+      .dropColumn("recurrence_rule")
+      .execute();
+  },
+};
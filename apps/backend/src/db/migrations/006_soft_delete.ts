@@ -0,0 +1,28 @@
+import type { Migration } from "./types.js";
+
+/**
+ * Adds soft deletion to todos. Trashed todos keep their row (and children)
+ * until they are restored or purged.
+ */
+export const migration006SoftDelete: Migration = {
+  id: "006_soft_delete",
+  name: "todo soft delete",
+  async up(db) {
+    await db.schema
+      .alterTable("todos")
+      .addColumn("deleted_at", "timestamptz")
+      .execute();
+
+    // Supports the trash listing and the timed purge.
+    await db.schema
+      .createIndex("idx_todos_deleted_at")
+      .ifNotExists()
+      .on("todos")
+      .column("deleted_at")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropIndex("idx_todos_deleted_at").ifExists().execute();
+    await db.schema.alterTable("todos").dropColumn("deleted_at").execute();
+  },
+};
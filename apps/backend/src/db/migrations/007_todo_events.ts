@@ -0,0 +1,46 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds the per-todo activity history. Each row records who changed a todo,
+ * what kind of change it was, and field-level before/after values.
+ */
+export const migration007TodoEvents: Migration = {
+  id: "007_todo_events",
+  name: "todo events",
+  async up(db) {
+    await db.schema
+      .createTable("todo_events")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("todo_id", "uuid", (col) =>
+        col.notNull().references("todos.id").onDelete("cascade")
+      )
+      // Kept nullable so history survives the acting user's account.
+      .addColumn("actor_id", "uuid", (col) =>
+        col.references("users.id").onDelete("set null")
+      )
+      .addColumn("event_type", "varchar(20)", (col) => col.notNull())
+      .addColumn("changes", "jsonb", (col) =>
+        col.notNull().defaultTo(sql`'{}'::jsonb`)
+      )
+      // clock_timestamp() keeps events written in one transaction in order.
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`clock_timestamp()`)
+      )
+      .execute();
+
+    // History is read per todo, newest first.
+    await db.schema
+      .createIndex("idx_todo_events_todo_id_created_at")
+      .ifNotExists()
+      .on("todo_events")
+      .columns(["todo_id", "created_at"])
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("todo_events").ifExists().execute();
+  },
+};
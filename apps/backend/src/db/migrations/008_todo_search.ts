@@ -0,0 +1,35 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds full-text search over todo titles and descriptions. Titles are
+ * weighted above descriptions so they rank higher in relevance sorting.
+ */
+export const migration008TodoSearch: Migration = {
+  id: "008_todo_search",
+  name: "todo full-text search",
+  async up(db) {
+    await db.schema
+      .alterTable("todos")
+      .addColumn("search_vector", sql`tsvector`, (col) =>
+        col
+          .generatedAlwaysAs(
+            sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(description, '')), 'B')`
+          )
+          .stored()
+      )
+      .execute();
+
+    await db.schema
+      .createIndex("idx_todos_search_vector")
+      .ifNotExists()
+      .on("todos")
+      .using("gin")
+      .column("search_vector")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropIndex("idx_todos_search_vector").ifExists().execute();
+    await db.schema.alterTable("todos").dropColumn("search_vector").execute();
+  },
+};
@@ -0,0 +1,40 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Groups refresh tokens into families for rotation. Every refresh replaces
+ * the presented token with a new one in the same family; `replaced_by_id`
+ * links the chain so a replayed token can be recognised.
+ */
+export const migration009RefreshTokenFamilies: Migration = {
+  id: "009_refresh_token_families",
+  name: "refresh token families",
+  async up(db) {
+    // Existing sessions each become a family of their own.
+    await db.schema
+      .alterTable("refresh_tokens")
+      .addColumn("family_id", "uuid", (col) =>
+        col.notNull().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("replaced_by_id", "uuid", (col) =>
+        col.references("refresh_tokens.id").onDelete("set null")
+      )
+      .execute();
+
+    // Supports revoking a whole family on reuse.
+    await db.schema
+      .createIndex("idx_refresh_tokens_family_id")
+      .ifNotExists()
+      .on("refresh_tokens")
+      .column("family_id")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropIndex("idx_refresh_tokens_family_id").ifExists().execute();
+    await db.schema
+      .alterTable("refresh_tokens")
+      .dropColumn("replaced_by_id")
+      .dropColumn("family_id")
+      .execute();
+  },
+};
@@ -0,0 +1,29 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Records which device a refresh token was issued to, so users can review
+ * and revoke their sessions.
+ */
+export const migration010SessionMetadata: Migration = {
+  id: "010_session_metadata",
+  name: "session metadata",
+  async up(db) {
+    await db.schema
+      .alterTable("refresh_tokens")
+      .addColumn("user_agent", "text")
+      .addColumn("ip_address", "varchar(45)")
+      .addColumn("last_used_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+  },
+  async down(db) {
+    await db.schema
+      .alterTable("refresh_tokens")
+      .dropColumn("last_used_at")
+      .dropColumn("ip_address")
+      .dropColumn("user_agent")
+      .execute();
+  },
+};
@@ -0,0 +1,39 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds single-use password reset tokens. Like refresh tokens, only a hash
+ * of the emailed token is stored.
+ */
+export const migration011PasswordResetTokens: Migration = {
+  id: "011_password_reset_tokens",
+  name: "password reset tokens",
+  async up(db) {
+    await db.schema
+      .createTable("password_reset_tokens")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("user_id", "uuid", (col) =>
+        col.notNull().references("users.id").onDelete("cascade")
+      )
+      .addColumn("token_hash", "varchar(64)", (col) => col.notNull().unique())
+      .addColumn("expires_at", "timestamptz", (col) => col.notNull())
+      .addColumn("used_at", "timestamptz")
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    await db.schema
+      .createIndex("idx_password_reset_tokens_user_id")
+      .ifNotExists()
+      .on("password_reset_tokens")
+      .column("user_id")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("password_reset_tokens").ifExists().execute();
+  },
+};
@@ -0,0 +1,28 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Tracks whether a user has confirmed their email address, and when we
+ * last mailed them a verification link (for the resend cooldown).
+ */
+export const migration012EmailVerification: Migration = {
+  id: "012_email_verification",
+  name: "email verification",
+  async up(db) {
+    await db.schema
+      .alterTable("users")
+      .addColumn("email_verified_at", "timestamptz")
+      .addColumn("verification_sent_at", "timestamptz")
+      .execute();
+
+    // Accounts created before verification existed keep full access.
+    await sql`UPDATE users SET email_verified_at = created_at`.execute(db);
+  },
+  async down(db) {
+    await db.schema
+      .alterTable("users")
+      .dropColumn("verification_sent_at")
+      .dropColumn("email_verified_at")
+      .execute();
+  },
+};
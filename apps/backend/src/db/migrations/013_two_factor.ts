@@ -0,0 +1,54 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds TOTP two-factor authentication. The shared secret is stored
+ * encrypted (we must read it back to check codes); recovery codes are only
+ * stored hashed.
+ */
+export const migration013TwoFactor: Migration = {
+  id: "013_two_factor",
+  name: "two-factor authentication",
+  async up(db) {
+    await db.schema
+      .alterTable("users")
+      // Set during enrollment; 2FA is only on once totp_enabled_at is set.
+      .addColumn("totp_secret", "text")
+      .addColumn("totp_enabled_at", "timestamptz")
+      // Last accepted time step, so a code can't be replayed.
+      .addColumn("totp_last_step", "integer")
+      .execute();
+
+    await db.schema
+      .createTable("recovery_codes")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("user_id", "uuid", (col) =>
+        col.notNull().references("users.id").onDelete("cascade")
+      )
+      .addColumn("code_hash", "varchar(64)", (col) => col.notNull())
+      .addColumn("used_at", "timestamptz")
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    await db.schema
+      .createIndex("idx_recovery_codes_user_id")
+      .ifNotExists()
+      .on("recovery_codes")
+      .column("user_id")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("recovery_codes").ifExists().execute();
+    await db.schema
+      .alterTable("users")
+      .dropColumn("totp_last_step")
+      .dropColumn("totp_enabled_at")
+      .dropColumn("totp_secret")
+      .execute();
+  },
+};
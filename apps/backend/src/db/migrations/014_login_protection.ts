@@ -0,0 +1,43 @@
+import type { Migration } from "./types.js";
+
+/**
+ * Adds progressive account lockout after failed sign-ins, and a table for
+ * the Postgres rate limit store.
+ */
+export const migration014LoginProtection: Migration = {
+  id: "014_login_protection",
+  name: "login protection",
+  async up(db) {
+    await db.schema
+      .alterTable("users")
+      .addColumn("failed_login_attempts", "integer", (col) => col.notNull().defaultTo(0))
+      .addColumn("last_failed_login_at", "timestamptz")
+      .addColumn("locked_until", "timestamptz")
+      .execute();
+
+    // Fixed-window counters keyed by e.g. "login:ip:203.0.113.7".
+    await db.schema
+      .createTable("rate_limits")
+      .ifNotExists()
+      .addColumn("key", "varchar(320)", (col) => col.primaryKey())
+      .addColumn("hits", "integer", (col) => col.notNull())
+      .addColumn("reset_at", "timestamptz", (col) => col.notNull())
+      .execute();
+
+    await db.schema
+      .createIndex("idx_rate_limits_reset_at")
+      .ifNotExists()
+      .on("rate_limits")
+      .column("reset_at")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("rate_limits").ifExists().execute();
+    await db.schema
+      .alterTable("users")
+      .dropColumn("locked_until")
+      .dropColumn("last_failed_login_at")
+      .dropColumn("failed_login_attempts")
+      .execute();
+  },
+};
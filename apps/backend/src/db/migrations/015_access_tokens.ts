@@ -0,0 +1,41 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds personal access tokens for scripts and integrations. Like refresh
+ * tokens, only a hash of the token is stored.
+ */
+export const migration015AccessTokens: Migration = {
+  id: "015_access_tokens",
+  name: "personal access tokens",
+  async up(db) {
+    await db.schema
+      .createTable("access_tokens")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("user_id", "uuid", (col) =>
+        col.notNull().references("users.id").onDelete("cascade")
+      )
+      .addColumn("name", "varchar(100)", (col) => col.notNull())
+      .addColumn("token_hash", "varchar(64)", (col) => col.notNull().unique())
+      .addColumn("scopes", sql`text[]`, (col) => col.notNull())
+      .addColumn("expires_at", "timestamptz")
+      .addColumn("last_used_at", "timestamptz")
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    await db.schema
+      .createIndex("idx_access_tokens_user_id")
+      .ifNotExists()
+      .on("access_tokens")
+      .column("user_id")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("access_tokens").ifExists().execute();
+  },
+};
@@ -0,0 +1,72 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds OpenID Connect single sign-on: identities linking provider accounts
+ * to users, and the short-lived state of logins in progress. Users created
+ * through SSO have no password.
+ */
+export const migration016SingleSignOn: Migration = {
+  id: "016_single_sign_on",
+  name: "single sign-on",
+  async up(db) {
+    await db.schema
+      .alterTable("users")
+      .alterColumn("password_hash", (col) => col.dropNotNull())
+      .execute();
+
+    await db.schema
+      .createTable("user_identities")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("user_id", "uuid", (col) =>
+        col.notNull().references("users.id").onDelete("cascade")
+      )
+      .addColumn("issuer", "varchar(255)", (col) => col.notNull())
+      .addColumn("subject", "varchar(255)", (col) => col.notNull())
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .addUniqueConstraint("uq_user_identities_issuer_subject", ["issuer", "subject"])
+      .execute();
+
+    await db.schema
+      .createIndex("idx_user_identities_user_id")
+      .ifNotExists()
+      .on("user_identities")
+      .column("user_id")
+      .execute();
+
+    // One row per login attempt: created when the user is sent to the
+    // provider, its state cleared when the provider calls back (so it can't
+    // be replayed), completed with a hand-off code, and deleted when the app
+    // exchanges that code for tokens.
+    await db.schema
+      .createTable("oidc_logins")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("state_hash", "varchar(64)", (col) => col.unique())
+      .addColumn("nonce", "varchar(64)", (col) => col.notNull())
+      .addColumn("code_verifier", "varchar(128)", (col) => col.notNull())
+      .addColumn("user_id", "uuid", (col) => col.references("users.id").onDelete("cascade"))
+      .addColumn("handoff_hash", "varchar(64)", (col) => col.unique())
+      .addColumn("expires_at", "timestamptz", (col) => col.notNull())
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("oidc_logins").ifExists().execute();
+    await db.schema.dropTable("user_identities").ifExists().execute();
+    // Fails if SSO-only users exist; remove or give them passwords first.
+    await db.schema
+      .alterTable("users")
+      .alterColumn("password_hash", (col) => col.setNotNull())
+      .execute();
+  },
+};
@@ -0,0 +1,52 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds data export requests. The finished archive is stored with the
+ * request until its download link expires.
+ */
+export const migration017DataExports: Migration = {
+  id: "017_data_exports",
+  name: "data exports",
+  async up(db) {
+    await db.schema
+      .createTable("data_exports")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("user_id", "uuid", (col) =>
+        col.notNull().references("users.id").onDelete("cascade")
+      )
+      .addColumn("status", "varchar(20)", (col) =>
+        col.notNull().defaultTo("pending")
+      )
+      .addColumn("archive", "bytea")
+      .addColumn("size_bytes", "integer")
+      .addColumn("started_at", "timestamptz")
+      .addColumn("completed_at", "timestamptz")
+      .addColumn("expires_at", "timestamptz")
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    await db.schema
+      .createIndex("idx_data_exports_user_id")
+      .ifNotExists()
+      .on("data_exports")
+      .columns(["user_id", "created_at"])
+      .execute();
+
+    // The worker polls for queued exports.
+    await db.schema
+      .createIndex("idx_data_exports_status")
+      .ifNotExists()
+      .on("data_exports")
+      .column("status")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("data_exports").ifExists().execute();
+  },
+};
@@ -0,0 +1,165 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds shared workspaces. Todos, projects and tags now belong to a
+ * workspace; their user_id records who created them and survives the
+ * creator leaving. Every user gets a personal workspace, and existing
+ * data moves into it.
+ */
+export const migration018Workspaces: Migration = {
+  id: "018_workspaces",
+  name: "workspaces",
+  async up(db) {
+    await db.schema
+      .createTable("workspaces")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("name", "varchar(100)", (col) => col.notNull())
+      // Personal workspaces can't be shared or deleted.
+      .addColumn("personal", "boolean", (col) => col.notNull().defaultTo(false))
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .addColumn("updated_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    await db.schema
+      .createTable("workspace_members")
+      .ifNotExists()
+      .addColumn("workspace_id", "uuid", (col) =>
+        col.notNull().references("workspaces.id").onDelete("cascade")
+      )
+      .addColumn("user_id", "uuid", (col) =>
+        col.notNull().references("users.id").onDelete("cascade")
+      )
+      .addColumn("role", "varchar(20)", (col) => col.notNull())
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .addPrimaryKeyConstraint("workspace_members_pkey", ["workspace_id", "user_id"])
+      .execute();
+
+    await db.schema
+      .createIndex("idx_workspace_members_user_id")
+      .ifNotExists()
+      .on("workspace_members")
+      .column("user_id")
+      .execute();
+
+    // Like password reset tokens, only a hash of the emailed token is stored.
+    await db.schema
+      .createTable("workspace_invitations")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("workspace_id", "uuid", (col) =>
+        col.notNull().references("workspaces.id").onDelete("cascade")
+      )
+      .addColumn("email", "varchar(255)", (col) => col.notNull())
+      .addColumn("role", "varchar(20)", (col) => col.notNull())
+      .addColumn("token_hash", "varchar(64)", (col) => col.notNull().unique())
+      .addColumn("invited_by", "uuid", (col) =>
+        col.references("users.id").onDelete("set null")
+      )
+      .addColumn("expires_at", "timestamptz", (col) => col.notNull())
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .addUniqueConstraint("uq_workspace_invitations_workspace_email", ["workspace_id", "email"])
+      .execute();
+
+    // Each user's personal workspace reuses the user's id, which keeps the
+    // backfill below a plain copy.
+    await sql`
+      INSERT INTO workspaces (id, name, personal, created_at, updated_at)
+      SELECT id, 'Personal', true, created_at, created_at FROM users
+    `.execute(db);
+    await sql`
+      INSERT INTO workspace_members (workspace_id, user_id, role, created_at)
+      SELECT id, id, 'owner', created_at FROM users
+    `.execute(db);
+
+    for (const table of ["todos", "projects", "tags"] as const) {
+      await db.schema
+        .alterTable(table)
+        .addColumn("workspace_id", "uuid", (col) =>
+          col.references("workspaces.id").onDelete("cascade")
+        )
+        .execute();
+
+      await sql`UPDATE ${sql.table(table)} SET workspace_id = user_id`.execute(db);
+
+      // Content outlives its creator's account.
+      await db.schema
+        .alterTable(table)
+        .alterColumn("workspace_id", (col) => col.setNotNull())
+        .alterColumn("user_id", (col) => col.dropNotNull())
+        .execute();
+      await db.schema.alterTable(table).dropConstraint(`${table}_user_id_fkey`).execute();
+
+      await db.schema
+        .alterTable(table)
+        .addForeignKeyConstraint(`${table}_user_id_fkey`, ["user_id"], "users", ["id"], (cb) =>
+          cb.onDelete("set null")
+        )
+        .execute();
+    }
+
+    // Tag names are unique per workspace now.
+    await db.schema.alterTable("tags").dropConstraint("tags_user_id_name_unique").execute();
+    await db.schema
+      .alterTable("tags")
+      .addUniqueConstraint("tags_workspace_id_name_unique", ["workspace_id", "name"])
+      .execute();
+
+    await db.schema
+      .createIndex("idx_todos_workspace_id")
+      .ifNotExists()
+      .on("todos")
+      .column("workspace_id")
+      .execute();
+
+    await db.schema
+      .createIndex("idx_projects_workspace_id")
+      .ifNotExists()
+      .on("projects")
+      .columns(["workspace_id", "sort_order"])
+      .execute();
+  },
+  async down(db) {
+    await db.schema.alterTable("tags").dropConstraint("tags_workspace_id_name_unique").execute();
+
+    for (const table of ["todos", "projects", "tags"] as const) {
+      // Content whose creator is gone can't go back to being user-owned.
+      await sql`DELETE FROM ${sql.table(table)} WHERE user_id IS NULL`.execute(db);
+
+      await db.schema.alterTable(table).dropConstraint(`${table}_user_id_fkey`).execute();
+      await db.schema
+        .alterTable(table)
+        .alterColumn("user_id", (col) => col.setNotNull())
+        .dropColumn("workspace_id")
+        .execute();
+      await db.schema
+        .alterTable(table)
+        .addForeignKeyConstraint(`${table}_user_id_fkey`, ["user_id"], "users", ["id"], (cb) =>
+          cb.onDelete("cascade")
+        )
+        .execute();
+    }
+
+    await db.schema
+      .alterTable("tags")
+      .addUniqueConstraint("tags_user_id_name_unique", ["user_id", "name"])
+      .execute();
+
+    await db.schema.dropTable("workspace_invitations").ifExists().execute();
+    await db.schema.dropTable("workspace_members").ifExists().execute();
+    await db.schema.dropTable("workspaces").ifExists().execute();
+  },
+};
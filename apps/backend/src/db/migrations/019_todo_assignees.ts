@@ -0,0 +1,28 @@
+import type { Migration } from "./types.js";
+
+/**
+ * Adds an optional assignee to todos. Assignments are cleared when the
+ * assignee's account is deleted.
+ */
+export const migration019TodoAssignees: Migration = {
+  id: "019_todo_assignees",
+  name: "todo_assignees",
+  async up(db) {
+    await db.schema
+      .alterTable("todos")
+      .addColumn("assignee_id", "uuid", (col) =>
+        col.references("users.id").onDelete("set null")
+      )
+      .execute();
+
+    await db.schema
+      .createIndex("idx_todos_assignee_id")
+      .ifNotExists()
+      .on("todos")
+      .column("assignee_id")
+      .execute();
+  },
+  async down(db) {
+    await db.schema.alterTable("todos").dropColumn("assignee_id").execute();
+  },
+};
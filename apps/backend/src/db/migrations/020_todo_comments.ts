@@ -0,0 +1,78 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds comment threads on todos, and notifications for members @mentioned
+ * in them. Comments outlive their author's account.
+ */
+export const migration020TodoComments: Migration = {
+  id: "020_todo_comments",
+  name: "todo_comments",
+  async up(db) {
+    await db.schema
+      .createTable("todo_comments")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("todo_id", "uuid", (col) =>
+        col.notNull().references("todos.id").onDelete("cascade")
+      )
+      .addColumn("author_id", "uuid", (col) =>
+        col.references("users.id").onDelete("set null")
+      )
+      // Markdown source; clients render it.
+      .addColumn("body", "text", (col) => col.notNull())
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .addColumn("updated_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    // Threads are always loaded oldest first by their todo.
+    await db.schema
+      .createIndex("idx_todo_comments_todo_id")
+      .ifNotExists()
+      .on("todo_comments")
+      .columns(["todo_id", "created_at"])
+      .execute();
+
+    await db.schema
+      .createTable("notifications")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("user_id", "uuid", (col) =>
+        col.notNull().references("users.id").onDelete("cascade")
+      )
+      .addColumn("type", "varchar(20)", (col) => col.notNull())
+      .addColumn("actor_id", "uuid", (col) =>
+        col.references("users.id").onDelete("set null")
+      )
+      .addColumn("todo_id", "uuid", (col) =>
+        col.notNull().references("todos.id").onDelete("cascade")
+      )
+      .addColumn("comment_id", "uuid", (col) =>
+        col.references("todo_comments.id").onDelete("cascade")
+      )
+      .addColumn("read_at", "timestamptz")
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    await db.schema
+      .createIndex("idx_notifications_user_id")
+      .ifNotExists()
+      .on("notifications")
+      .columns(["user_id", "created_at"])
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("notifications").ifExists().execute();
+    await db.schema.dropTable("todo_comments").ifExists().execute();
+  },
+};
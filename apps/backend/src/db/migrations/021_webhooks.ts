@@ -0,0 +1,93 @@
+import { sql } from "kysely";
+import type { Migration } from "./types.js";
+
+/**
+ * Adds workspace webhooks and their delivery log. Deliveries double as
+ * the send queue: the worker claims pending rows whose next attempt is due.
+ */
+export const migration021Webhooks: Migration = {
+  id: "021_webhooks",
+  name: "webhooks",
+  async up(db) {
+    await db.schema
+      .createTable("webhooks")
+      .ifNotExists()
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("workspace_id", "uuid", (col) =>
+        col.notNull().references("workspaces.id").onDelete("cascade")
+      )
+      .addColumn("created_by", "uuid", (col) =>
+        col.references("users.id").onDelete("set null")
+      )
+      .addColumn("url", "text", (col) => col.notNull())
+      // Encrypted rather than hashed: it keys the HMAC on every delivery.
+      .addColumn("secret", "text", (col) => col.notNull())
+      .addColumn("events", sql`text[]`, (col) => col.notNull())
+      .addColumn("enabled", "boolean", (col) => col.notNull().defaultTo(true))
+      .addColumn("consecutive_failures", "integer", (col) =>
+        col.notNull().defaultTo(0)
+      )
+      .addColumn("disabled_at", "timestamptz")
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .addColumn("updated_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    await db.schema
+      .createIndex("idx_webhooks_workspace_id")
+      .ifNotExists()
+      .on("webhooks")
+      .column("workspace_id")
+      .execute();
+
+    await db.schema
+      .createTable("webhook_deliveries")
+      .ifNotExists()
+      // Ids are generated up front so payloads can carry them.
+      .addColumn("id", "uuid", (col) =>
+        col.primaryKey().defaultTo(sql`uuid_generate_v4()`)
+      )
+      .addColumn("webhook_id", "uuid", (col) =>
+        col.notNull().references("webhooks.id").onDelete("cascade")
+      )
+      .addColumn("event_type", "varchar(40)", (col) => col.notNull())
+      .addColumn("payload", "jsonb", (col) => col.notNull())
+      .addColumn("status", "varchar(20)", (col) =>
+        col.notNull().defaultTo("pending")
+      )
+      .addColumn("attempts", "integer", (col) => col.notNull().defaultTo(0))
+      .addColumn("response_status", "integer")
+      .addColumn("error", "text")
+      .addColumn("next_attempt_at", "timestamptz")
+      .addColumn("last_attempt_at", "timestamptz")
+      .addColumn("created_at", "timestamptz", (col) =>
+        col.notNull().defaultTo(sql`now()`)
+      )
+      .execute();
+
+    // The delivery log is read per webhook, newest first.
+    await db.schema
+      .createIndex("idx_webhook_deliveries_webhook_id")
+      .ifNotExists()
+      .on("webhook_deliveries")
+      .columns(["webhook_id", "created_at"])
+      .execute();
+
+    // The worker polls for due deliveries.
+    await db.schema
+      .createIndex("idx_webhook_deliveries_due")
+      .ifNotExists()
+      .on("webhook_deliveries")
+      .columns(["status", "next_attempt_at"])
+      .execute();
+  },
+  async down(db) {
+    await db.schema.dropTable("webhook_deliveries").ifExists().execute();
+    await db.schema.dropTable("webhooks").ifExists().execute();
+  },
+};
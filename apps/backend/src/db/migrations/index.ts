@@ -1,7 +1,49 @@
 import type { Migration } from "./types.js";
 import { migration001Initial } from "./001_initial.js";
+import { migration002Subtasks } from "./002_subtasks.js";
+import { migration003Tags } from "./003_tags.js";
+import { migration004Projects } from "./004_projects.js";
+import { migration005Recurrence } from "./005_recurrence.js";
+import { migration006SoftDelete } from "./006_soft_delete.js";
+import { migration007TodoEvents } from "./007_todo_events.js";
+import { migration008TodoSearch } from "./008_todo_search.js";
+import { migration009RefreshTokenFamilies } from "./009_refresh_token_families.js";
+import { migration010SessionMetadata } from "./010_session_metadata.js";
+import { migration011PasswordResetTokens } from "./011_password_reset_tokens.js";
+import { migration012EmailVerification } from "./012_email_verification.js";
+import { migration013TwoFactor } from "./013_two_factor.js";
+import { migration014LoginProtection } from "./014_login_protection.js";
+import { migration015AccessTokens } from "./015_access_tokens.js";
+import { migration016SingleSignOn } from "./016_single_sign_on.js";
+import { migration017DataExports } from "./017_data_exports.js";
+import { migration018Workspaces } from "./018_workspaces.js";
+import { migration019TodoAssignees } from "./019_todo_assignees.js";
+import { migration020TodoComments } from "./020_todo_comments.js";
+import { migration021Webhooks } from "./021_webhooks.js";
 
 /**
  * Ordered list of migrations to apply.
  */
-export const migrations: Migration[] = [migration001Initial];
+export const migrations: Migration[] = [
+  migration001Initial,
+  migration002Subtasks,
+  migration003Tags,
+  migration004Projects,
+  migration005Recurrence,
+  migration006SoftDelete,
+  migration007TodoEvents,
+  migration008TodoSearch,
+  migration009RefreshTokenFamilies,
+  migration010SessionMetadata,
+  migration011PasswordResetTokens,
+  migration012EmailVerification,
+  migration013TwoFactor,
+  migration014LoginProtection,
+  migration015AccessTokens,
+  migration016SingleSignOn,
+  migration017DataExports,
+  migration018Workspaces,
+  migration019TodoAssignees,
+  migration020TodoComments,
+  migration021Webhooks,
+];
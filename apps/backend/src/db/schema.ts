@@ -12,8 +12,17 @@ import { Generated, ColumnType } from "kysely";
 export interface UsersTable {
   id: Generated<string>;
   email: string;
-  password_hash: string;
+  // Null for users who only sign in through SSO.
+  password_hash: string | null;
   name: string;
+  email_verified_at: Date | null;
+  verification_sent_at: Date | null;
+  totp_secret: string | null;
+  totp_enabled_at: Date | null;
+  totp_last_step: number | null;
+  failed_login_attempts: Generated<number>;
+  last_failed_login_at: Date | null;
+  locked_until: Date | null;
   created_at: ColumnType<Date, string | undefined, never>;
   updated_at: ColumnType<Date, string | undefined, string>;
 }
@@ -28,6 +37,131 @@ export interface RefreshTokensTable {
   token_hash: string;
   expires_at: Date;
   revoked_at: Date | null;
+  // Tokens issued by rotating one another share a family.
+  family_id: Generated<string>;
+  replaced_by_id: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  last_used_at: ColumnType<Date, Date | undefined, Date>;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+// ============================================================================
+// Password Reset Tokens Table
+// ============================================================================
+
+export interface PasswordResetTokensTable {
+  id: Generated<string>;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+// ============================================================================
+// Recovery Codes Table
+// ============================================================================
+
+export interface RecoveryCodesTable {
+  id: Generated<string>;
+  user_id: string;
+  code_hash: string;
+  used_at: Date | null;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+// ============================================================================
+// Single Sign-On Tables
+// ============================================================================
+
+export interface UserIdentitiesTable {
+  id: Generated<string>;
+  user_id: string;
+  issuer: string;
+  subject: string;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+export interface OidcLoginsTable {
+  id: Generated<string>;
+  state_hash: string | null;
+  nonce: string;
+  code_verifier: string;
+  user_id: string | null;
+  handoff_hash: string | null;
+  expires_at: Date;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+// ============================================================================
+// Access Tokens Table
+// ============================================================================
+
+export interface AccessTokensTable {
+  id: Generated<string>;
+  user_id: string;
+  name: string;
+  token_hash: string;
+  scopes: ("todos:read" | "todos:write" | "account:read")[];
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+// ============================================================================
+// Data Exports Table
+// ============================================================================
+
+export interface DataExportsTable {
+  id: Generated<string>;
+  user_id: string;
+  status: Generated<"pending" | "processing" | "ready" | "failed">;
+  archive: Buffer | null;
+  size_bytes: number | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  expires_at: Date | null;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+// ============================================================================
+// Rate Limits Table
+// ============================================================================
+
+export interface RateLimitsTable {
+  key: string;
+  hits: number;
+  reset_at: Date;
+}
+
+// ============================================================================
+// Workspaces Tables
+// ============================================================================
+
+export interface WorkspacesTable {
+  id: Generated<string>;
+  name: string;
+  personal: Generated<boolean>;
+  created_at: ColumnType<Date, string | undefined, never>;
+  updated_at: ColumnType<Date, string | undefined, string>;
+}
+
+export interface WorkspaceMembersTable {
+  workspace_id: string;
+  user_id: string;
+  role: "owner" | "editor" | "viewer";
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+export interface WorkspaceInvitationsTable {
+  id: Generated<string>;
+  workspace_id: string;
+  email: string;
+  role: "owner" | "editor" | "viewer";
+  token_hash: string;
+  invited_by: string | null;
+  expires_at: Date;
   created_at: ColumnType<Date, string | undefined, never>;
 }
 
@@ -37,16 +171,146 @@ export interface RefreshTokensTable {
 
 export interface TodosTable {
   id: Generated<string>;
-  user_id: string;
+  workspace_id: string;
+  // The creator; null once their account is deleted.
+  user_id: string | null;
   title: string;
   description: string | null;
   priority: "low" | "medium" | "high";
   status: "pending" | "in_progress" | "completed";
   due_date: Date | null;
+  project_id: string | null;
+  assignee_id: string | null;
+  recurrence_rule: string | null;
+  recurrence_start: Date | null;
+  deleted_at: Date | null;
+  created_at: ColumnType<Date, string | undefined, never>;
+  updated_at: ColumnType<Date, string | undefined, string>;
+  // search_vector (generated tsvector) is deliberately left out so that
+  // selectAll() doesn't return it; search queries reference it via sql``.
+}
+
+// ============================================================================
+// Projects Table
+// ============================================================================
+
+export interface ProjectsTable {
+  id: Generated<string>;
+  workspace_id: string;
+  user_id: string | null;
+  name: string;
+  color: Generated<string>;
+  archived: Generated<boolean>;
+  sort_order: Generated<number>;
   created_at: ColumnType<Date, string | undefined, never>;
   updated_at: ColumnType<Date, string | undefined, string>;
 }
 
+// ============================================================================
+// Todo Subtasks Table
+// ============================================================================
+
+export interface TodoSubtasksTable {
+  id: Generated<string>;
+  todo_id: string;
+  title: string;
+  completed: Generated<boolean>;
+  position: Generated<number>;
+  created_at: ColumnType<Date, string | undefined, never>;
+  updated_at: ColumnType<Date, string | undefined, string>;
+}
+
+// ============================================================================
+// Tags Tables
+// ============================================================================
+
+export interface TagsTable {
+  id: Generated<string>;
+  workspace_id: string;
+  user_id: string | null;
+  name: string;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+export interface TodoTagsTable {
+  todo_id: string;
+  tag_id: string;
+}
+
+// ============================================================================
+// Todo Events Table
+// ============================================================================
+
+export interface TodoEventsTable {
+  id: Generated<string>;
+  todo_id: string;
+  actor_id: string | null;
+  event_type: "created" | "updated" | "status_changed" | "deleted" | "restored";
+  changes: ColumnType<Record<string, { before: unknown; after: unknown }>, string, never>;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+// ============================================================================
+// Todo Comments Table
+// ============================================================================
+
+export interface TodoCommentsTable {
+  id: Generated<string>;
+  todo_id: string;
+  // Null once the author's account is deleted.
+  author_id: string | null;
+  body: string;
+  created_at: ColumnType<Date, string | undefined, never>;
+  updated_at: ColumnType<Date, string | undefined, string>;
+}
+
+// ============================================================================
+// Notifications Table
+// ============================================================================
+
+export interface NotificationsTable {
+  id: Generated<string>;
+  user_id: string;
+  type: "mention";
+  actor_id: string | null;
+  todo_id: string;
+  comment_id: string | null;
+  read_at: Date | null;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
+// ============================================================================
+// Webhooks Tables
+// ============================================================================
+
+export interface WebhooksTable {
+  id: Generated<string>;
+  workspace_id: string;
+  created_by: string | null;
+  url: string;
+  secret: string;
+  events: ("todo.created" | "todo.updated" | "todo.deleted")[];
+  enabled: Generated<boolean>;
+  consecutive_failures: Generated<number>;
+  disabled_at: Date | null;
+  created_at: ColumnType<Date, string | undefined, never>;
+  updated_at: ColumnType<Date, string | undefined, string>;
+}
+
+export interface WebhookDeliveriesTable {
+  id: string;
+  webhook_id: string;
+  event_type: "todo.created" | "todo.updated" | "todo.deleted" | "webhook.test";
+  payload: ColumnType<unknown, string, never>;
+  status: Generated<"pending" | "processing" | "succeeded" | "failed">;
+  attempts: Generated<number>;
+  response_status: number | null;
+  error: string | null;
+  next_attempt_at: Date | null;
+  last_attempt_at: Date | null;
+  created_at: ColumnType<Date, string | undefined, never>;
+}
+
 // ============================================================================
 // Migrations Table
 // ============================================================================
@@ -68,6 +332,25 @@ export interface MigrationsTable {
 export interface Database {
   users: UsersTable;
   refresh_tokens: RefreshTokensTable;
+  password_reset_tokens: PasswordResetTokensTable;
+  recovery_codes: RecoveryCodesTable;
+  access_tokens: AccessTokensTable;
+  user_identities: UserIdentitiesTable;
+  oidc_logins: OidcLoginsTable;
+  data_exports: DataExportsTable;
+  workspaces: WorkspacesTable;
+  workspace_members: WorkspaceMembersTable;
+  workspace_invitations: WorkspaceInvitationsTable;
+  rate_limits: RateLimitsTable;
   todos: TodosTable;
+  projects: ProjectsTable;
+  todo_subtasks: TodoSubtasksTable;
+  tags: TagsTable;
+  todo_tags: TodoTagsTable;
+  todo_events: TodoEventsTable;
+  todo_comments: TodoCommentsTable;
+  notifications: NotificationsTable;
+  webhooks: WebhooksTable;
+  webhook_deliveries: WebhookDeliveriesTable;
   migrations: MigrationsTable;
 }
@@ -6,6 +6,7 @@
 
 import bcrypt from "bcrypt";
 import { db, closeDatabase } from "./database.js";
+import { createPersonalWorkspace, findWorkspaceAccess } from "../services/workspaces.js";
 
 const PASSWORD_SALT_ROUNDS = 12;
 
@@ -92,6 +93,8 @@ async function seedUserAccounts(): Promise<Map<string, string>> {
     email: user.email,
     name: user.name,
     password_hash: hashes[index],
+    // Demo accounts skip the verification email.
+    email_verified_at: new Date(),
   }));
 
   // Avoid duplicate rows when re-running seeds.
@@ -121,11 +124,27 @@ async function seedUserAccounts(): Promise<Map<string, string>> {
   return userMap;
 }
 
+/**
+ * Ensures each seeded user has a personal workspace. Returns a map of
+ * user id to workspace id.
+ */
+async function seedPersonalWorkspaces(userMap: Map<string, string>): Promise<Map<string, string>> {
+  const workspaceMap = new Map<string, string>();
+
+  for (const userId of userMap.values()) {
+    const access = await findWorkspaceAccess(db, userId, null);
+    workspaceMap.set(userId, access?.workspaceId ?? (await createPersonalWorkspace(db, userId)));
+  }
+
+  return workspaceMap;
+}
+
 /**
  * Inserts sample todos for the seeded users.
  */
 async function seedTodoItems(userMap: Map<string, string>): Promise<void> {
   const userIds = Array.from(userMap.values());
+  const workspaceMap = await seedPersonalWorkspaces(userMap);
 
   // Clear existing data for the demo users before re-seeding.
   await db.deleteFrom("refresh_tokens").where("user_id", "in", userIds).execute();
@@ -134,6 +153,7 @@ async function seedTodoItems(userMap: Map<string, string>): Promise<void> {
   const now = new Date();
   const todoRows = seedTodos.map((todo) => ({
     user_id: userMap.get(todo.userEmail) ?? "",
+    workspace_id: workspaceMap.get(userMap.get(todo.userEmail) ?? "") ?? "",
     title: todo.title,
     description: todo.description,
     priority: todo.priority,
@@ -142,7 +162,7 @@ async function seedTodoItems(userMap: Map<string, string>): Promise<void> {
   }));
 
   // Ensure every seed todo is tied to a known user.
-  if (todoRows.some((todo) => todo.user_id === "")) {
+  if (todoRows.some((todo) => todo.user_id === "" || todo.workspace_id === "")) {
     throw new Error("Seed todos reference missing users.");
   }
 
@@ -0,0 +1,187 @@
+#!/usr/bin/env tsx
+/**
+ * Minimal OpenID Connect provider for trying single sign-on locally.
+ * Run with: pnpm mock-idp
+ *
+ * Then start the API with OIDC_ISSUER=http://localhost:4010 and
+ * OIDC_CLIENT_ID=martian-todos. The sign-in page lets you pick any email,
+ * and whether the provider reports it as verified.
+ *
+ * Codes, keys and users live in memory; nothing here is secure.
+ */
+
+import Fastify from "fastify";
+import { createHash, generateKeyPairSync, randomBytes, sign } from "crypto";
+
+const PORT = Number(process.env.MOCK_IDP_PORT ?? 4010);
+const ISSUER = process.env.MOCK_IDP_ISSUER ?? `http://localhost:${PORT}`;
+const KEY_ID = "mock-idp-key";
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+type PendingCode = {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | undefined;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  expiresAt: number;
+};
+
+const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const codes = new Map<string, PendingCode>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Signs claims as an RS256 JWT.
+ */
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT", kid: KEY_ID })).toString(
+    "base64url"
+  );
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  const signature = sign("sha256", Buffer.from(`${header}.${payload}`), privateKey);
+
+  return `${header}.${payload}.${signature.toString("base64url")}`;
+}
+
+async function start() {
+  const server = Fastify({ logger: { level: "info" } });
+
+  server.addContentTypeParser(
+    "application/x-www-form-urlencoded",
+    { parseAs: "string" },
+    (_request, body, done) => {
+      done(null, Object.fromEntries(new URLSearchParams(body as string)));
+    }
+  );
+
+  server.get("/.well-known/openid-configuration", async () => ({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+    scopes_supported: ["openid", "email", "profile"],
+  }));
+
+  server.get("/jwks", async () => ({
+    keys: [{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID, use: "sig", alg: "RS256" }],
+  }));
+
+  // Sign-in page: pick who to be.
+  server.get<{ Querystring: Record<string, string> }>("/authorize", async (request, reply) => {
+    const hidden = Object.entries(request.query)
+      .map(
+        ([key, value]) =>
+          `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`
+      )
+      .join("");
+
+    return reply.type("text/html").send(`<!doctype html>
+<title>Mock IdP</title>
+<h1>Mock IdP sign-in</h1>
+<form method="get" action="/authorize/approve">
+  ${hidden}
+  <p><label>Email <input name="email" value="dev@example.com" required></label></p>
+  <p><label>Name <input name="name" value="Dev User"></label></p>
+  <p><label><input type="checkbox" name="email_verified" value="true" checked> Email verified</label></p>
+  <button>Sign in</button>
+</form>`);
+  });
+
+  server.get<{ Querystring: Record<string, string> }>(
+    "/authorize/approve",
+    async (request, reply) => {
+      const query = request.query;
+      if (query.response_type !== "code" || !query.redirect_uri || !query.client_id) {
+        return reply.status(400).send({ error: "invalid_request" });
+      }
+      if (query.code_challenge_method !== "S256" || !query.code_challenge) {
+        return reply
+          .status(400)
+          .send({ error: "invalid_request", error_description: "PKCE S256 required" });
+      }
+
+      const code = randomBytes(24).toString("base64url");
+      codes.set(code, {
+        clientId: query.client_id,
+        redirectUri: query.redirect_uri,
+        codeChallenge: query.code_challenge,
+        nonce: query.nonce,
+        email: query.email,
+        name: query.name,
+        emailVerified: query.email_verified === "true",
+        expiresAt: Date.now() + CODE_TTL_MS,
+      });
+
+      const redirect = new URL(query.redirect_uri);
+      redirect.searchParams.set("code", code);
+      if (query.state) redirect.searchParams.set("state", query.state);
+
+      return reply.redirect(redirect.toString());
+    }
+  );
+
+  server.post<{ Body: Record<string, string> }>("/token", async (request, reply) => {
+    const body = request.body;
+    const pending = codes.get(body.code);
+    codes.delete(body.code);
+
+    const basic = request.headers.authorization?.startsWith("Basic ")
+      ? decodeURIComponent(
+          Buffer.from(request.headers.authorization.slice(6), "base64").toString().split(":")[0]
+        )
+      : undefined;
+    const clientId = body.client_id ?? basic;
+    const challenge = body.code_verifier
+      ? createHash("sha256").update(body.code_verifier).digest("base64url")
+      : undefined;
+
+    if (
+      body.grant_type !== "authorization_code" ||
+      !pending ||
+      pending.expiresAt < Date.now() ||
+      pending.clientId !== clientId ||
+      pending.redirectUri !== body.redirect_uri ||
+      pending.codeChallenge !== challenge
+    ) {
+      return reply.status(400).send({ error: "invalid_grant" });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = signIdToken({
+      iss: ISSUER,
+      sub: createHash("sha256").update(pending.email.toLowerCase()).digest("hex").slice(0, 24),
+      aud: pending.clientId,
+      iat: now,
+      exp: now + ID_TOKEN_TTL_SECONDS,
+      nonce: pending.nonce,
+      email: pending.email,
+      email_verified: pending.emailVerified,
+      name: pending.name,
+    });
+
+    return reply.send({
+      access_token: randomBytes(24).toString("base64url"),
+      token_type: "Bearer",
+      expires_in: ID_TOKEN_TTL_SECONDS,
+      id_token: idToken,
+    });
+  });
+
+  await server.listen({ port: PORT, host: "0.0.0.0" });
+}
+
+start().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
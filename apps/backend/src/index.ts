@@ -4,7 +4,20 @@ import jwt from "@fastify/jwt";
 import { config } from "./config.js";
 import { authRoutes } from "./routes/auth.js";
 import { todoRoutes } from "./routes/todos.js";
+import { tagRoutes } from "./routes/tags.js";
+import { projectRoutes } from "./routes/projects.js";
+import { meRoutes } from "./routes/me.js";
+import { dataExportRoutes } from "./routes/dataExports.js";
+import { workspaceRoutes } from "./routes/workspaces.js";
+import { eventRoutes } from "./routes/events.js";
+import { webhookRoutes } from "./routes/webhooks.js";
 import { closeDatabase } from "./db/database.js";
+import { scheduleTrashPurge } from "./jobs/purgeTrash.js";
+import { scheduleRateLimitPrune } from "./jobs/pruneRateLimits.js";
+import { scheduleDataExports } from "./jobs/processDataExports.js";
+import { scheduleWebhookDeliveries } from "./jobs/deliverWebhooks.js";
+import { rateLimitStore } from "./services/rateLimit.js";
+import { startTodoStream } from "./services/todoStream.js";
 
 /**
  * Creates and configures the Fastify server instance.
@@ -45,7 +58,23 @@ async function buildServer() {
 
   // API routes
   await fastify.register(authRoutes, { prefix: "/auth" });
+  await fastify.register(meRoutes, { prefix: "/me" });
+  await fastify.register(dataExportRoutes, { prefix: "/me/export" });
+  await fastify.register(workspaceRoutes, { prefix: "/workspaces" });
+  await fastify.register(webhookRoutes, { prefix: "/workspaces/:id/webhooks" });
   await fastify.register(todoRoutes, { prefix: "/todos" });
+  await fastify.register(tagRoutes, { prefix: "/tags" });
+  await fastify.register(projectRoutes, { prefix: "/projects" });
+  await fastify.register(eventRoutes, { prefix: "/events" });
+
+  // Real-time fan-out of todo changes across instances
+  startTodoStream(fastify);
+
+  // Background jobs
+  scheduleTrashPurge(fastify, config.TRASH_RETENTION_DAYS);
+  scheduleRateLimitPrune(fastify, rateLimitStore);
+  scheduleDataExports(fastify, config.DATA_EXPORT_TTL_HOURS);
+  scheduleWebhookDeliveries(fastify);
 
   // Global error handler
   fastify.setErrorHandler((error, request, reply) => {
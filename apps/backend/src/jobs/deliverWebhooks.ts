@@ -0,0 +1,103 @@
+import type { FastifyInstance } from "fastify";
+import { db } from "../db/database.js";
+import { attemptWebhookDelivery } from "../services/webhooks.js";
+
+const POLL_INTERVAL_MS = 5 * 1000;
+// A delivery left "processing" this long belonged to a worker that died.
+const STALE_AFTER_MS = 5 * 60 * 1000;
+// How long the delivery log keeps finished deliveries.
+const DELIVERY_RETENTION_DAYS = 30;
+
+/**
+ * Claims the oldest due delivery and sends it. Returns false when
+ * nothing was due. SKIP LOCKED lets several API instances share the
+ * queue without sending the same delivery twice.
+ */
+export async function processNextWebhookDelivery(): Promise<boolean> {
+  const now = new Date();
+
+  const claimed = await db
+    .updateTable("webhook_deliveries")
+    .set({ status: "processing", last_attempt_at: now })
+    .where(
+      "id",
+      "in",
+      db
+        .selectFrom("webhook_deliveries")
+        .select("id")
+        .where("status", "=", "pending")
+        .where("next_attempt_at", "<=", now)
+        .orderBy("next_attempt_at", "asc")
+        .limit(1)
+        .forUpdate()
+        .skipLocked()
+    )
+    .returning("id")
+    .executeTakeFirst();
+
+  if (!claimed) {
+    return false;
+  }
+
+  await attemptWebhookDelivery(claimed.id);
+  return true;
+}
+
+/**
+ * Requeues deliveries abandoned mid-send and prunes old entries from the
+ * delivery log. Returns the number pruned.
+ */
+export async function cleanUpWebhookDeliveries(): Promise<number> {
+  await db
+    .updateTable("webhook_deliveries")
+    .set({ status: "pending", next_attempt_at: new Date() })
+    .where("status", "=", "processing")
+    .where("last_attempt_at", "<", new Date(Date.now() - STALE_AFTER_MS))
+    .execute();
+
+  const cutoff = new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const result = await db
+    .deleteFrom("webhook_deliveries")
+    .where("status", "in", ["succeeded", "failed"])
+    .where("created_at", "<", cutoff)
+    .executeTakeFirst();
+
+  return Number(result.numDeletedRows ?? 0);
+}
+
+/**
+ * Polls for due webhook deliveries every few seconds until the server
+ * closes.
+ */
+export function scheduleWebhookDeliveries(fastify: FastifyInstance): void {
+  let running = false;
+
+  const run = async () => {
+    // Slow endpoints can make a batch outlast the poll interval.
+    if (running) return;
+    running = true;
+
+    try {
+      const removed = await cleanUpWebhookDeliveries();
+      if (removed > 0) {
+        fastify.log.debug(`Removed ${removed} old webhook deliveries`);
+      }
+
+      while (await processNextWebhookDelivery()) {
+        // Keep going until nothing is due.
+      }
+    } catch (err) {
+      fastify.log.error(err, "Webhook delivery worker failed");
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, POLL_INTERVAL_MS);
+  // Don't keep the process alive just for the worker.
+  timer.unref();
+
+  fastify.addHook("onClose", async () => {
+    clearInterval(timer);
+  });
+}
@@ -0,0 +1,126 @@
+import type { FastifyInstance } from "fastify";
+import { db } from "../db/database.js";
+import { buildDataExportArchive } from "../services/dataExport.js";
+
+const POLL_INTERVAL_MS = 5 * 1000;
+// An export left "processing" this long belonged to a worker that died.
+const STALE_AFTER_MS = 15 * 60 * 1000;
+
+/**
+ * Claims the oldest queued export and builds its archive. Returns false
+ * when nothing was queued. SKIP LOCKED lets several API instances share
+ * the queue without building the same export twice.
+ */
+export async function processNextDataExport(
+  fastify: FastifyInstance,
+  ttlHours: number
+): Promise<boolean> {
+  const claimed = await db
+    .updateTable("data_exports")
+    .set({ status: "processing", started_at: new Date() })
+    .where(
+      "id",
+      "in",
+      db
+        .selectFrom("data_exports")
+        .select("id")
+        .where("status", "=", "pending")
+        .orderBy("created_at", "asc")
+        .limit(1)
+        .forUpdate()
+        .skipLocked()
+    )
+    .returning(["id", "user_id"])
+    .executeTakeFirst();
+
+  if (!claimed) {
+    return false;
+  }
+
+  const expiresAt = () => new Date(Date.now() + ttlHours * 60 * 60 * 1000);
+
+  try {
+    const archive = await buildDataExportArchive(claimed.user_id);
+
+    await db
+      .updateTable("data_exports")
+      .set({
+        status: "ready",
+        archive,
+        size_bytes: archive.length,
+        completed_at: new Date(),
+        expires_at: expiresAt(),
+      })
+      .where("id", "=", claimed.id)
+      .execute();
+
+    fastify.log.info({ exportId: claimed.id, bytes: archive.length }, "Data export ready");
+  } catch (err) {
+    fastify.log.error(err, "Data export failed");
+
+    // Failed exports expire too, so the cleanup removes them.
+    await db
+      .updateTable("data_exports")
+      .set({ status: "failed", completed_at: new Date(), expires_at: expiresAt() })
+      .where("id", "=", claimed.id)
+      .execute();
+  }
+
+  return true;
+}
+
+/**
+ * Deletes expired exports along with their archives, and requeues
+ * exports abandoned mid-build. Returns the number deleted.
+ */
+export async function cleanUpDataExports(): Promise<number> {
+  await db
+    .updateTable("data_exports")
+    .set({ status: "pending", started_at: null })
+    .where("status", "=", "processing")
+    .where("started_at", "<", new Date(Date.now() - STALE_AFTER_MS))
+    .execute();
+
+  const result = await db
+    .deleteFrom("data_exports")
+    .where("expires_at", "<", new Date())
+    .executeTakeFirst();
+
+  return Number(result.numDeletedRows ?? 0);
+}
+
+/**
+ * Polls for queued exports every few seconds until the server closes.
+ */
+export function scheduleDataExports(fastify: FastifyInstance, ttlHours: number): void {
+  let running = false;
+
+  const run = async () => {
+    // A large export can outlast the poll interval.
+    if (running) return;
+    running = true;
+
+    try {
+      const removed = await cleanUpDataExports();
+      if (removed > 0) {
+        fastify.log.debug(`Removed ${removed} expired data export(s)`);
+      }
+
+      while (await processNextDataExport(fastify, ttlHours)) {
+        // Keep going until the queue is empty.
+      }
+    } catch (err) {
+      fastify.log.error(err, "Data export worker failed");
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, POLL_INTERVAL_MS);
+  // Don't keep the process alive just for the worker.
+  timer.unref();
+
+  fastify.addHook("onClose", async () => {
+    clearInterval(timer);
+  });
+}
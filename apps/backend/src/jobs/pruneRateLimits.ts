@@ -0,0 +1,29 @@
+import type { FastifyInstance } from "fastify";
+import type { RateLimitStore } from "../services/rateLimit.js";
+
+const PRUNE_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Drops expired rate limit windows every 15 minutes until the server
+ * closes, so the store doesn't grow with every client ever seen.
+ */
+export function scheduleRateLimitPrune(fastify: FastifyInstance, store: RateLimitStore): void {
+  const run = async () => {
+    try {
+      const pruned = await store.prune();
+      if (pruned > 0) {
+        fastify.log.debug(`Pruned ${pruned} expired rate limit window(s)`);
+      }
+    } catch (err) {
+      fastify.log.error(err, "Rate limit prune failed");
+    }
+  };
+
+  const timer = setInterval(run, PRUNE_INTERVAL_MS);
+  // Don't keep the process alive just for the prune.
+  timer.unref();
+
+  fastify.addHook("onClose", async () => {
+    clearInterval(timer);
+  });
+}
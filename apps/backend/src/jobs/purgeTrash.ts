@@ -0,0 +1,45 @@
+import type { FastifyInstance } from "fastify";
+import { db } from "../db/database.js";
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Permanently deletes todos that have been in the trash longer than
+ * the retention period. Returns the number of todos removed.
+ */
+export async function purgeTrashedTodos(retentionDays: number): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+  const result = await db
+    .deleteFrom("todos")
+    .where("deleted_at", "is not", null)
+    .where("deleted_at", "<", cutoff)
+    .executeTakeFirst();
+
+  return Number(result.numDeletedRows ?? 0);
+}
+
+/**
+ * Runs the trash purge on startup and then hourly until the server closes.
+ */
+export function scheduleTrashPurge(fastify: FastifyInstance, retentionDays: number): void {
+  const run = async () => {
+    try {
+      const purged = await purgeTrashedTodos(retentionDays);
+      if (purged > 0) {
+        fastify.log.info(`Purged ${purged} todo(s) from the trash`);
+      }
+    } catch (err) {
+      fastify.log.error(err, "Trash purge failed");
+    }
+  };
+
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  // Don't keep the process alive just for the purge.
+  timer.unref();
+
+  fastify.addHook("onReady", run);
+  fastify.addHook("onClose", async () => {
+    clearInterval(timer);
+  });
+}
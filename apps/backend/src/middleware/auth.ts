@@ -1,5 +1,12 @@
-import { FastifyRequest, FastifyReply } from "fastify";
-import type { JWTPayload } from "@martian-todos/shared";
+import { FastifyRequest, FastifyReply, preHandlerAsyncHookHandler } from "fastify";
+import type { JWTPayload, TokenScope } from "@martian-todos/shared";
+import { config } from "../config.js";
+import { db } from "../db/database.js";
+import { ACCESS_TOKEN_PREFIX, resolveAccessToken } from "../services/accessTokens.js";
+import { isSessionLive } from "../services/sessions.js";
+
+// Methods that only read data, allowed for unverified users.
+export const READ_ONLY_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
 
 /**
  * Extends Fastify request with authenticated user info.
@@ -7,12 +14,34 @@ import type { JWTPayload } from "@martian-todos/shared";
 declare module "fastify" {
   interface FastifyRequest {
     user?: JWTPayload;
+    // Set when the request authenticated with a personal access token.
+    accessToken?: { id: string; scopes: TokenScope[] };
   }
 }
 
+/**
+ * Returns the bearer token from the Authorization header, if any.
+ */
+function readBearerToken(request: FastifyRequest): string | null {
+  const header = request.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim();
+}
+
+function sendUnauthorized(reply: FastifyReply): void {
+  reply.status(401).send({
+    success: false,
+    error: {
+      code: "UNAUTHORIZED",
+      message: "Invalid or expired token",
+    },
+  });
+}
+
 /**
  * Authentication middleware.
- * Verifies JWT token and attaches user to request.
+ * Verifies a JWT or personal access token and attaches user to request.
+ * JWTs of sessions that were signed out or revoked are rejected.
  *
  * Usage:
  *   fastify.get('/protected', { preHandler: [authenticate] }, handler)
@@ -21,19 +50,95 @@ export async function authenticate(
   request: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> {
+  const bearer = readBearerToken(request);
+  if (bearer?.startsWith(ACCESS_TOKEN_PREFIX)) {
+    const accessToken = await resolveAccessToken(db, bearer);
+    if (!accessToken) {
+      sendUnauthorized(reply);
+      return;
+    }
+
+    request.user = { sub: accessToken.userId, email: accessToken.email };
+    request.accessToken = { id: accessToken.id, scopes: accessToken.scopes };
+    return;
+  }
+
+  let decoded: JWTPayload;
   try {
     // Verify and decode the JWT token
-    const decoded = await request.jwtVerify<JWTPayload>();
-    request.user = decoded;
+    decoded = await request.jwtVerify<JWTPayload>();
   } catch (error) {
-    reply.status(401).send({
-      success: false,
-      error: {
-        code: "UNAUTHORIZED",
-        message: "Invalid or expired token",
-      },
-    });
+    sendUnauthorized(reply);
+    return;
+  }
+
+  if (decoded.sid && !(await isSessionLive(db, decoded.sub, decoded.sid))) {
+    sendUnauthorized(reply);
+    return;
   }
+
+  request.user = decoded;
+}
+
+/**
+ * Rejects personal access tokens that lack the scope. Session tokens carry
+ * every scope.
+ */
+function checkScope(request: FastifyRequest, reply: FastifyReply, scope: TokenScope): void {
+  if (reply.sent || !request.accessToken) return;
+  if (request.accessToken.scopes.includes(scope)) return;
+
+  reply.status(403).send({
+    success: false,
+    error: {
+      code: "INSUFFICIENT_SCOPE",
+      message: `This token needs the ${scope} scope`,
+      details: { requiredScope: scope },
+    },
+  });
+}
+
+/**
+ * Requires a scope of personal access tokens. Register after
+ * `authenticate`.
+ *
+ * Usage:
+ *   fastify.get('/sessions', { preHandler: [authenticate, requireScope('account:read')] }, handler)
+ */
+export function requireScope(scope: TokenScope): preHandlerAsyncHookHandler {
+  return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    checkScope(request, reply, scope);
+  };
+}
+
+/**
+ * Requires todos:read for reads and todos:write for changes. Guards the
+ * todo, project and tag routes. Register after `authenticate`.
+ */
+export async function requireTodoScope(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  checkScope(request, reply, READ_ONLY_METHODS.has(request.method) ? "todos:read" : "todos:write");
+}
+
+/**
+ * Keeps personal access tokens out of routes that manage credentials and
+ * sessions; those need a signed-in user. Register after `authenticate`.
+ */
+export async function requireSessionToken(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  if (reply.sent || !request.accessToken) return;
+
+  reply.status(403).send({
+    success: false,
+    error: {
+      code: "SESSION_REQUIRED",
+      message: "Personal access tokens can't manage the account. Sign in instead",
+    },
+  });
 }
 
 /**
@@ -46,3 +151,47 @@ export function getCurrentUserId(request: FastifyRequest): string {
   }
   return request.user.sub;
 }
+
+/**
+ * Gets the session (refresh token family) the access token was issued for.
+ * Undefined for tokens issued before sessions were tracked.
+ */
+export function getCurrentSessionId(request: FastifyRequest): string | undefined {
+  return request.user?.sid;
+}
+
+/**
+ * Gets when the access token expires, e.g. to end long-lived streams.
+ * Null for personal access tokens, which don't.
+ */
+export function getTokenExpiry(request: FastifyRequest): Date | null {
+  return request.user?.exp ? new Date(request.user.exp * 1000) : null;
+}
+
+/**
+ * Blocks data changes from users who haven't verified their email, unless
+ * UNVERIFIED_USER_ACCESS is "write". Register after `authenticate`.
+ */
+export async function requireVerifiedEmailForWrites(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  if (reply.sent || config.UNVERIFIED_USER_ACCESS === "write") return;
+  if (READ_ONLY_METHODS.has(request.method)) return;
+
+  const user = await db
+    .selectFrom("users")
+    .select("email_verified_at")
+    .where("id", "=", getCurrentUserId(request))
+    .executeTakeFirst();
+
+  if (!user?.email_verified_at) {
+    reply.status(403).send({
+      success: false,
+      error: {
+        code: "EMAIL_NOT_VERIFIED",
+        message: "Verify your email address to make changes",
+      },
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { FastifyRequest, FastifyReply, preHandlerAsyncHookHandler } from "fastify";
+import { config } from "../config.js";
+import { consumeRateLimits, rateLimitStore } from "../services/rateLimit.js";
+
+/**
+ * Rate limits an unauthenticated auth route per client IP and, when the
+ * body carries one, per email address. Over the limit responds 429 with
+ * `retryAfter` (seconds) in the error details and a Retry-After header.
+ *
+ * Usage:
+ *   fastify.post('/login', { preHandler: [limitAuthAttempts('login')] }, handler)
+ */
+export function limitAuthAttempts(scope: string): preHandlerAsyncHookHandler {
+  return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const limits = [{ key: `${scope}:ip:${request.ip}`, max: config.AUTH_RATE_LIMIT_PER_IP }];
+
+    const email = (request.body as { email?: unknown } | undefined)?.email;
+    if (typeof email === "string" && email.trim()) {
+      limits.push({
+        key: `${scope}:email:${email.trim().toLowerCase()}`,
+        max: config.AUTH_RATE_LIMIT_PER_EMAIL,
+      });
+    }
+
+    const retryAfter = await consumeRateLimits(
+      rateLimitStore,
+      limits,
+      config.AUTH_RATE_LIMIT_WINDOW_SECONDS * 1000
+    );
+
+    if (retryAfter > 0) {
+      request.log.warn({ scope, ip: request.ip }, "Auth rate limit exceeded");
+      reply
+        .status(429)
+        .header("Retry-After", String(retryAfter))
+        .send({
+          success: false,
+          error: {
+            code: "RATE_LIMITED",
+            message: "Too many attempts. Please try again later",
+            details: { retryAfter },
+          },
+        });
+    }
+  };
+}
@@ -0,0 +1,152 @@
+import { FastifyRequest, FastifyReply, preHandlerAsyncHookHandler } from "fastify";
+import { z } from "zod";
+import { db } from "../db/database.js";
+import { getCurrentUserId, READ_ONLY_METHODS } from "./auth.js";
+import { findWorkspaceAccess } from "../services/workspaces.js";
+import {
+  can,
+  deniedMessage,
+  type WorkspaceAccess,
+  type WorkspaceAction,
+} from "../services/workspacePolicy.js";
+
+// Clients pick the workspace a todo, project or tag request acts on.
+export const WORKSPACE_HEADER = "x-workspace-id";
+
+const WorkspaceIdSchema = z.string().uuid();
+
+/**
+ * Extends Fastify request with the workspace being acted on.
+ */
+declare module "fastify" {
+  interface FastifyRequest {
+    workspace?: WorkspaceAccess;
+  }
+}
+
+/**
+ * Loads the caller's membership and attaches it to the request. Responds
+ * 404 when the workspace doesn't exist or the caller isn't a member, so
+ * outsiders can't probe for workspace ids.
+ */
+async function attachWorkspace(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  workspaceId: string | null
+): Promise<void> {
+  if (workspaceId !== null && !WorkspaceIdSchema.safeParse(workspaceId).success) {
+    reply.status(400).send({
+      success: false,
+      error: {
+        code: "VALIDATION_ERROR",
+        message: "Invalid workspace id",
+      },
+    });
+    return;
+  }
+
+  const access = await findWorkspaceAccess(db, getCurrentUserId(request), workspaceId);
+  if (!access) {
+    reply.status(404).send({
+      success: false,
+      error: {
+        code: "NOT_FOUND",
+        message: "Workspace not found",
+      },
+    });
+    return;
+  }
+
+  request.workspace = access;
+}
+
+/**
+ * Resolves the workspace named by the X-Workspace-Id header, or the
+ * caller's personal workspace without one. Register after `authenticate`.
+ */
+export async function resolveWorkspace(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  if (reply.sent) return;
+
+  const header = request.headers[WORKSPACE_HEADER];
+  await attachWorkspace(request, reply, typeof header === "string" && header ? header : null);
+}
+
+/**
+ * Resolves the workspace named by the `:id` route param. Register after
+ * `authenticate`.
+ */
+export async function resolveWorkspaceParam(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  if (reply.sent) return;
+
+  const { id } = request.params as { id?: string };
+  await attachWorkspace(request, reply, id ?? "");
+}
+
+function checkPermission(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  action: WorkspaceAction
+): void {
+  if (reply.sent || !request.workspace) return;
+  if (can(request.workspace, action)) return;
+
+  reply.status(403).send({
+    success: false,
+    error: {
+      code: "FORBIDDEN",
+      message: deniedMessage(request.workspace, action),
+      details: { role: request.workspace.role, action },
+    },
+  });
+}
+
+/**
+ * Requires a workspace permission. Register after a workspace resolver.
+ *
+ * Usage:
+ *   fastify.post('/:id/invitations', { preHandler: [resolveWorkspaceParam, requireWorkspacePermission('members:manage')] }, handler)
+ */
+export function requireWorkspacePermission(action: WorkspaceAction): preHandlerAsyncHookHandler {
+  return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    checkPermission(request, reply, action);
+  };
+}
+
+/**
+ * Requires content:read for reads and content:write for changes. Guards
+ * the todo, project and tag routes. Register after `resolveWorkspace`.
+ */
+export async function requireContentPermission(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  checkPermission(
+    request,
+    reply,
+    READ_ONLY_METHODS.has(request.method) ? "content:read" : "content:write"
+  );
+}
+
+/**
+ * Gets the workspace the request acts on.
+ * Throws if not resolved (use after a workspace resolver).
+ */
+export function getCurrentWorkspace(request: FastifyRequest): WorkspaceAccess {
+  if (!request.workspace) {
+    throw new Error("Workspace not resolved");
+  }
+  return request.workspace;
+}
+
+/**
+ * Gets the id of the workspace the request acts on.
+ */
+export function getCurrentWorkspaceId(request: FastifyRequest): string {
+  return getCurrentWorkspace(request).workspaceId;
+}
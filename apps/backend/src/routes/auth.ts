@@ -1,75 +1,267 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
-import { createHash, randomBytes } from "crypto";
 import bcrypt from "bcrypt";
+import { z } from "zod";
 import { config } from "../config.js";
 import { db } from "../db/database.js";
 import {
+  authenticate,
+  getCurrentSessionId,
+  getCurrentUserId,
+  requireScope,
+  requireSessionToken,
+} from "../middleware/auth.js";
+import { limitAuthAttempts } from "../middleware/rateLimit.js";
+import {
+  issueRefreshToken,
+  listSessions,
+  revokeAllSessions,
+  revokeOtherSessions,
+  revokeSession,
+} from "../services/sessions.js";
+import {
+  readVerificationToken,
+  sendVerificationEmail,
+  verificationCooldownRemaining,
+} from "../services/emailVerification.js";
+import { encryptSecret, generateToken, hashToken } from "../services/tokens.js";
+import { buildOtpauthUri, generateTotpSecret } from "../services/totp.js";
+import {
+  createLoginChallenge,
+  readLoginChallenge,
+  replaceRecoveryCodes,
+  verifySecondFactor,
+  verifyTotpCode,
+} from "../services/twoFactor.js";
+import { mailer } from "../services/mailer.js";
+import { checkPassword, mapUser, USER_COLUMNS, type UserRow } from "../services/users.js";
+import { generateOidcSecret, oidcClient, type IdTokenClaims } from "../services/oidc.js";
+import { issueAccessToken, listAccessTokens, revokeAccessToken } from "../services/accessTokens.js";
+import { createPersonalWorkspace } from "../services/workspaces.js";
+import {
+  clearFailedLogins,
+  lockoutRemaining,
+  recordFailedLogin,
+} from "../services/loginLockout.js";
+import {
+  CreateAccessTokenSchema,
   CreateUserSchema,
+  DisableTwoFactorSchema,
+  EnableTwoFactorSchema,
+  ForgotPasswordSchema,
   LoginSchema,
   RefreshTokenSchema,
+  ResetPasswordSchema,
+  SsoExchangeSchema,
+  TwoFactorLoginSchema,
+  type AuthOptions,
+  type CreateAccessTokenInput,
   type CreateUserInput,
+  type DisableTwoFactorInput,
+  type EnableTwoFactorInput,
+  type ForgotPasswordInput,
   type LoginInput,
   type AuthResponse,
   type RefreshTokenInput,
-  type User,
+  type ResetPasswordInput,
+  type SsoExchangeInput,
+  type TwoFactorChallenge,
+  type TwoFactorLoginInput,
+  type TwoFactorSetup,
 } from "@martian-todos/shared";
 
-const REFRESH_TOKEN_BYTES = 32;
+const SessionIdSchema = z.string().uuid();
+const AccessTokenIdSchema = z.string().uuid();
+
+const OidcCallbackQuerySchema = z.object({
+  code: z.string().min(1),
+  state: z.string().min(1),
+});
 
-type UserRow = {
-  id: string;
-  email: string;
-  name: string;
-  created_at: Date;
-  updated_at: Date;
-};
+const OIDC_STATE_COOKIE = "martian_todos_oidc_state";
+// How long the user has to finish signing in at the provider.
+const OIDC_LOGIN_TTL_SECONDS = 10 * 60;
+// How long the app has to exchange the code from the SSO redirect.
+const SSO_HANDOFF_TTL_SECONDS = 60;
+
+const VerifyEmailQuerySchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
 
 /**
- * Generates a cryptographically secure refresh token.
+ * Calculates password reset token expiration date.
  */
-function generateRefreshToken(): string {
-  return randomBytes(REFRESH_TOKEN_BYTES).toString("hex");
+function getPasswordResetExpiresAt(): Date {
+  return new Date(Date.now() + config.PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
 }
 
 /**
- * Hashes a refresh token for storage.
+ * Creates a signed access token for the user, tied to the session (refresh
+ * token family) it was issued for.
  */
-function hashRefreshToken(token: string): string {
-  return createHash("sha256").update(token).digest("hex");
+function createAccessToken(fastify: FastifyInstance, user: UserRow, sessionId: string): string {
+  return fastify.jwt.sign(
+    { sub: user.id, email: user.email, sid: sessionId },
+    { expiresIn: config.JWT_EXPIRES_IN }
+  );
 }
 
 /**
- * Calculates refresh token expiration date.
+ * Signs the user in on the requesting device: starts a refresh token
+ * session and issues an access token for it.
  */
-function getRefreshTokenExpiresAt(): Date {
-  const expiresAt = new Date();
-  expiresAt.setDate(expiresAt.getDate() + config.JWT_REFRESH_EXPIRES_IN_DAYS);
-  return expiresAt;
+async function startSession(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  user: UserRow
+): Promise<AuthResponse> {
+  const session = await issueRefreshToken(db, request, user.id);
+
+  return {
+    token: createAccessToken(fastify, user, session.familyId),
+    refreshToken: session.token,
+    user: mapUser(user),
+  };
 }
 
 /**
- * Creates a signed access token for the user.
+ * Rejects a sign-in attempt for a temporarily locked account.
  */
-function createAccessToken(fastify: FastifyInstance, user: UserRow): string {
-  return fastify.jwt.sign({ sub: user.id, email: user.email }, { expiresIn: config.JWT_EXPIRES_IN });
+function sendAccountLocked(reply: FastifyReply, retryAfter: number) {
+  return reply
+    .status(423)
+    .header("Retry-After", String(retryAfter))
+    .send({
+      success: false,
+      error: {
+        code: "ACCOUNT_LOCKED",
+        message: "Too many failed sign-in attempts. Please try again later",
+        details: { retryAfter },
+      },
+    });
 }
 
 /**
- * Maps database row to API user response.
+ * Turns password sign-in routes away when the deployment only allows
+ * single sign-on.
  */
-function mapUser(row: UserRow): User {
-  return {
-    id: row.id,
-    email: row.email,
-    name: row.name,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  };
+async function requirePasswordLogin(request: FastifyRequest, reply: FastifyReply) {
+  if (config.PASSWORD_LOGIN_ENABLED) return;
+
+  reply.status(403).send({
+    success: false,
+    error: {
+      code: "PASSWORD_LOGIN_DISABLED",
+      message: "Password sign-in is turned off. Sign in with single sign-on",
+    },
+  });
+}
+
+/**
+ * Reads one cookie from the request. Only the SSO flow uses cookies, so
+ * this stays small instead of pulling in a cookie plugin.
+ */
+function readCookie(request: FastifyRequest, name: string): string | null {
+  for (const part of (request.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+/**
+ * Sets (or, with a null value, clears) the cookie that ties an SSO
+ * callback to the browser that started the login.
+ */
+function setOidcStateCookie(reply: FastifyReply, value: string | null): void {
+  const attributes = [
+    `${OIDC_STATE_COOKIE}=${value ?? ""}`,
+    "Path=/",
+    "HttpOnly",
+    // Lax still sends it on the provider's top-level redirect back to us.
+    "SameSite=Lax",
+    `Max-Age=${value ? OIDC_LOGIN_TTL_SECONDS : 0}`,
+  ];
+  if (config.APP_URL.startsWith("https:")) {
+    attributes.push("Secure");
+  }
+
+  reply.header("Set-Cookie", attributes.join("; "));
+}
+
+/**
+ * Sends the browser back to the web app after an SSO callback.
+ */
+function redirectToApp(reply: FastifyReply, params: Record<string, string>) {
+  const url = new URL(config.APP_URL);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return reply.redirect(url.toString());
+}
+
+/**
+ * Finds the user for a provider identity, linking it to an existing
+ * account with the same (provider-verified) email, or creating an account.
+ */
+async function findOrCreateSsoUser(claims: IdTokenClaims & { email: string }): Promise<UserRow> {
+  return db.transaction().execute(async (trx) => {
+    const linked = await trx
+      .selectFrom("user_identities")
+      .innerJoin("users", "users.id", "user_identities.user_id")
+      .select(USER_COLUMNS.map((column) => `users.${column}` as const))
+      .where("user_identities.issuer", "=", claims.iss)
+      .where("user_identities.subject", "=", claims.sub)
+      .executeTakeFirst();
+
+    if (linked) {
+      return linked;
+    }
+
+    const email = claims.email.toLowerCase();
+    const existing = await trx
+      .selectFrom("users")
+      .select(USER_COLUMNS)
+      .where("email", "=", email)
+      .forUpdate()
+      .executeTakeFirst();
+
+    // The provider vouches for the address, which counts as verifying it.
+    const user = existing
+      ? existing.email_verified_at
+        ? existing
+        : await trx
+            .updateTable("users")
+            .set({ email_verified_at: new Date(), updated_at: new Date().toISOString() })
+            .where("id", "=", existing.id)
+            .returning(USER_COLUMNS)
+            .executeTakeFirstOrThrow()
+      : await trx
+          .insertInto("users")
+          .values({
+            email,
+            password_hash: null,
+            name: claims.name?.trim() || email.split("@")[0],
+            email_verified_at: new Date(),
+          })
+          .returning(USER_COLUMNS)
+          .executeTakeFirstOrThrow();
+
+    if (!existing) {
+      await createPersonalWorkspace(trx, user.id);
+    }
+
+    await trx
+      .insertInto("user_identities")
+      .values({ user_id: user.id, issuer: claims.iss, subject: claims.sub })
+      .execute();
+
+    return user;
+  });
 }
 
 /**
  * Auth routes plugin.
- * Handles user registration and login.
+ * Handles user registration, login and session management.
  */
 export async function authRoutes(fastify: FastifyInstance): Promise<void> {
   /**
@@ -78,6 +270,7 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
    */
   fastify.post<{ Body: CreateUserInput }>(
     "/register",
+    { preHandler: [requirePasswordLogin, limitAuthAttempts("register")] },
     async (request: FastifyRequest<{ Body: CreateUserInput }>, reply: FastifyReply) => {
       // Validate input
       const parseResult = CreateUserSchema.safeParse(request.body);
@@ -114,36 +307,32 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
       // Hash password
       const passwordHash = await bcrypt.hash(password, 12);
 
-      // Create user
-      const user = await db
-        .insertInto("users")
-        .values({
-          email: email.toLowerCase(),
-          password_hash: passwordHash,
-          name,
-        })
-        .returning(["id", "email", "name", "created_at", "updated_at"])
-        .executeTakeFirstOrThrow();
+      // Create user along with their personal workspace
+      const user = await db.transaction().execute(async (trx) => {
+        const created = await trx
+          .insertInto("users")
+          .values({
+            email: email.toLowerCase(),
+            password_hash: passwordHash,
+            name,
+          })
+          .returning(USER_COLUMNS)
+          .executeTakeFirstOrThrow();
 
-      // Create refresh token session
-      const refreshToken = generateRefreshToken();
-      await db
-        .insertInto("refresh_tokens")
-        .values({
-          user_id: user.id,
-          token_hash: hashRefreshToken(refreshToken),
-          expires_at: getRefreshTokenExpiresAt(),
-        })
-        .execute();
+        await createPersonalWorkspace(trx, created.id);
 
-      // Generate access token
-      const token = createAccessToken(fastify, user);
+        return created;
+      });
 
-      const response: AuthResponse = {
-        token,
-        refreshToken,
-        user: mapUser(user),
-      };
+      // Ask the user to confirm the address. A mail outage shouldn't block
+      // sign-up; they can resend from the app.
+      try {
+        await sendVerificationEmail(fastify, user);
+      } catch (err) {
+        request.log.error(err, "Failed to send verification email");
+      }
+
+      const response = await startSession(fastify, request, user);
 
       return reply.status(201).send({ success: true, data: response });
     }
@@ -151,10 +340,12 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
 
   /**
    * POST /auth/login
-   * Authenticates user and returns JWT.
+   * Authenticates user and returns JWT, or a two-factor challenge when the
+   * account has 2FA on.
    */
   fastify.post<{ Body: LoginInput }>(
     "/login",
+    { preHandler: [requirePasswordLogin, limitAuthAttempts("login")] },
     async (request: FastifyRequest<{ Body: LoginInput }>, reply: FastifyReply) => {
       // Validate input
       const parseResult = LoginSchema.safeParse(request.body);
@@ -189,9 +380,20 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      // Locked accounts don't get a password check at all.
+      const lockedFor = lockoutRemaining(user.locked_until);
+      if (lockedFor > 0) {
+        return sendAccountLocked(reply, lockedFor);
+      }
+
       // Verify password
-      const valid = await bcrypt.compare(password, user.password_hash);
+      const valid = await checkPassword(password, user.password_hash);
       if (!valid) {
+        const lockedUntil = await recordFailedLogin(db, user.id);
+        if (lockedUntil) {
+          return sendAccountLocked(reply, lockoutRemaining(lockedUntil));
+        }
+
         return reply.status(401).send({
           success: false,
           error: {
@@ -201,25 +403,266 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
-      // Create refresh token session
-      const refreshToken = generateRefreshToken();
+      // With 2FA on, the password only earns a short-lived challenge.
+      if (user.totp_enabled_at) {
+        const challenge: TwoFactorChallenge = {
+          twoFactorRequired: true,
+          challengeToken: createLoginChallenge(fastify, user.id),
+        };
+
+        return reply.send({ success: true, data: challenge });
+      }
+
+      await clearFailedLogins(db, user.id);
+      const response = await startSession(fastify, request, user);
+
+      return reply.send({ success: true, data: response });
+    }
+  );
+
+  /**
+   * POST /auth/login/2fa
+   * Completes a two-factor login with an authenticator or recovery code.
+   */
+  fastify.post<{ Body: TwoFactorLoginInput }>(
+    "/login/2fa",
+    { preHandler: [requirePasswordLogin, limitAuthAttempts("login-2fa")] },
+    async (request, reply) => {
+      const parseResult = TwoFactorLoginSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const { challengeToken, code } = parseResult.data;
+      const userId = readLoginChallenge(fastify, challengeToken);
+      if (!userId) {
+        return reply.status(401).send({
+          success: false,
+          error: {
+            code: "INVALID_CHALLENGE",
+            message: "Your sign-in attempt expired. Please sign in again",
+          },
+        });
+      }
+
+      const user = await db
+        .selectFrom("users")
+        .select([...USER_COLUMNS, "totp_secret", "locked_until"])
+        .where("id", "=", userId)
+        .executeTakeFirst();
+
+      const invalidCode = () =>
+        reply.status(401).send({
+          success: false,
+          error: {
+            code: "INVALID_CODE",
+            message: "Invalid authentication code",
+          },
+        });
+
+      if (!user?.totp_enabled_at) {
+        return invalidCode();
+      }
+
+      // Codes count towards the same lockout as passwords.
+      const lockedFor = lockoutRemaining(user.locked_until);
+      if (lockedFor > 0) {
+        return sendAccountLocked(reply, lockedFor);
+      }
+
+      if (!(await verifySecondFactor(db, user, code))) {
+        const lockedUntil = await recordFailedLogin(db, user.id);
+        if (lockedUntil) {
+          return sendAccountLocked(reply, lockoutRemaining(lockedUntil));
+        }
+        return invalidCode();
+      }
+
+      await clearFailedLogins(db, user.id);
+      const response = await startSession(fastify, request, user);
+
+      return reply.send({ success: true, data: response });
+    }
+  );
+
+  /**
+   * GET /auth/options
+   * Tells the login screen which sign-in methods are available.
+   */
+  fastify.get("/options", async (_request, reply) => {
+    const options: AuthOptions = {
+      passwordLogin: config.PASSWORD_LOGIN_ENABLED,
+      sso: oidcClient ? { providerName: config.OIDC_PROVIDER_NAME } : null,
+    };
+
+    return reply.send({ success: true, data: options });
+  });
+
+  /**
+   * GET /auth/oidc/login
+   * Starts single sign-on: remembers state, nonce and PKCE verifier, then
+   * redirects the browser to the provider.
+   */
+  fastify.get("/oidc/login", async (request, reply) => {
+    if (!oidcClient) {
+      return reply.status(404).send({
+        success: false,
+        error: {
+          code: "SSO_DISABLED",
+          message: "Single sign-on is not configured",
+        },
+      });
+    }
+
+    const state = generateOidcSecret();
+    const nonce = generateOidcSecret();
+    const codeVerifier = generateOidcSecret();
+
+    // Abandoned attempts are cleaned up as new ones start.
+    await db.deleteFrom("oidc_logins").where("expires_at", "<=", new Date()).execute();
+    await db
+      .insertInto("oidc_logins")
+      .values({
+        state_hash: hashToken(state),
+        nonce,
+        code_verifier: codeVerifier,
+        expires_at: new Date(Date.now() + OIDC_LOGIN_TTL_SECONDS * 1000),
+      })
+      .execute();
+
+    const url = await oidcClient.authorizationUrl({ state, nonce, codeVerifier });
+    setOidcStateCookie(reply, state);
+
+    return reply.redirect(url);
+  });
+
+  /**
+   * GET /auth/oidc/callback
+   * Where the provider sends the browser back. Validates the login, links
+   * or creates the account, and redirects to the app with a one-time code
+   * for POST /auth/oidc/exchange (tokens never appear in URLs).
+   */
+  fastify.get<{ Querystring: Record<string, string | undefined> }>(
+    "/oidc/callback",
+    async (request, reply) => {
+      const cookieState = readCookie(request, OIDC_STATE_COOKIE);
+      setOidcStateCookie(reply, null);
+
+      if (!oidcClient) {
+        return redirectToApp(reply, { sso_error: "disabled" });
+      }
+      if (request.query.error) {
+        request.log.info({ error: request.query.error }, "SSO login was not completed");
+        return redirectToApp(reply, { sso_error: "cancelled" });
+      }
+
+      const parseResult = OidcCallbackQuerySchema.safeParse(request.query);
+      // The state must be the one this browser was given.
+      if (!parseResult.success || parseResult.data.state !== cookieState) {
+        return redirectToApp(reply, { sso_error: "invalid_state" });
+      }
+
+      const { code, state } = parseResult.data;
+
+      // Clearing the state makes it single-use.
+      const login = await db
+        .updateTable("oidc_logins")
+        .set({ state_hash: null })
+        .where("state_hash", "=", hashToken(state))
+        .where("expires_at", ">", new Date())
+        .returning(["id", "nonce", "code_verifier"])
+        .executeTakeFirst();
+
+      if (!login) {
+        return redirectToApp(reply, { sso_error: "invalid_state" });
+      }
+
+      let claims: IdTokenClaims;
+      try {
+        claims = await oidcClient.exchangeCode(code, login.code_verifier, login.nonce);
+      } catch (err) {
+        request.log.warn(err, "SSO login failed");
+        return redirectToApp(reply, { sso_error: "failed" });
+      }
+
+      // Only link by an address the provider has verified, or anyone who
+      // can set an email at the provider could take over an account.
+      const emailVerified = claims.email_verified === true || claims.email_verified === "true";
+      if (!claims.email || !emailVerified) {
+        return redirectToApp(reply, { sso_error: "email_unverified" });
+      }
+
+      const user = await findOrCreateSsoUser({ ...claims, email: claims.email });
+      const handoff = generateToken();
+
       await db
-        .insertInto("refresh_tokens")
-        .values({
+        .updateTable("oidc_logins")
+        .set({
           user_id: user.id,
-          token_hash: hashRefreshToken(refreshToken),
-          expires_at: getRefreshTokenExpiresAt(),
+          handoff_hash: hashToken(handoff),
+          expires_at: new Date(Date.now() + SSO_HANDOFF_TTL_SECONDS * 1000),
         })
+        .where("id", "=", login.id)
         .execute();
 
-      // Generate access token
-      const token = createAccessToken(fastify, user);
+      return redirectToApp(reply, { sso_code: handoff });
+    }
+  );
 
-      const response: AuthResponse = {
-        token,
-        refreshToken,
-        user: mapUser(user),
-      };
+  /**
+   * POST /auth/oidc/exchange
+   * Trades the one-time code from the SSO redirect for a session.
+   */
+  fastify.post<{ Body: SsoExchangeInput }>(
+    "/oidc/exchange",
+    { preHandler: [limitAuthAttempts("sso-exchange")] },
+    async (request, reply) => {
+      const parseResult = SsoExchangeSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const login = await db
+        .deleteFrom("oidc_logins")
+        .where("handoff_hash", "=", hashToken(parseResult.data.code))
+        .where("expires_at", ">", new Date())
+        .returning("user_id")
+        .executeTakeFirst();
+
+      const user = login?.user_id
+        ? await db
+            .selectFrom("users")
+            .select(USER_COLUMNS)
+            .where("id", "=", login.user_id)
+            .executeTakeFirst()
+        : undefined;
+
+      if (!user) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "INVALID_TOKEN",
+            message: "This sign-in link is invalid or has expired. Please sign in again",
+          },
+        });
+      }
+
+      await clearFailedLogins(db, user.id);
+      const response = await startSession(fastify, request, user);
 
       return reply.send({ success: true, data: response });
     }
@@ -227,7 +670,8 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
 
   /**
    * POST /auth/refresh
-   * Issues a new access token using a refresh token.
+   * Issues a new access token and rotates the refresh token. Presenting a
+   * rotated token again revokes its whole family.
    */
   fastify.post<{ Body: RefreshTokenInput }>(
     "/refresh",
@@ -248,32 +692,67 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
-      const { refreshToken } = parseResult.data;
-      const tokenHash = hashRefreshToken(refreshToken);
-      const session = await db
-        .selectFrom("refresh_tokens")
-        .select(["id", "user_id", "expires_at", "revoked_at"])
-        .where("token_hash", "=", tokenHash)
-        .executeTakeFirst();
+      const tokenHash = hashToken(parseResult.data.refreshToken);
 
-      const now = new Date();
-      if (!session || session.revoked_at || session.expires_at <= now) {
-        return reply.status(401).send({
-          success: false,
-          error: {
-            code: "INVALID_TOKEN",
-            message: "Invalid or expired refresh token",
-          },
-        });
-      }
+      // Rotate under a row lock so two refreshes with the same token can't
+      // both succeed.
+      const outcome = await db.transaction().execute(async (trx) => {
+        const session = await trx
+          .selectFrom("refresh_tokens")
+          .select(["id", "user_id", "family_id", "expires_at", "revoked_at", "replaced_by_id"])
+          .where("token_hash", "=", tokenHash)
+          .forUpdate()
+          .executeTakeFirst();
 
-      const user = await db
-        .selectFrom("users")
-        .select(["id", "email", "name", "created_at", "updated_at"])
-        .where("id", "=", session.user_id)
-        .executeTakeFirst();
+        if (!session || session.expires_at <= new Date()) {
+          return { status: "invalid" as const };
+        }
 
-      if (!user) {
+        if (session.revoked_at) {
+          // A token that was already rotated is being replayed: whoever holds
+          // the family can't be trusted, so end every session in it.
+          if (session.replaced_by_id) {
+            await trx
+              .updateTable("refresh_tokens")
+              .set({ revoked_at: new Date() })
+              .where("family_id", "=", session.family_id)
+              .where("revoked_at", "is", null)
+              .execute();
+
+            return { status: "reused" as const, session };
+          }
+
+          return { status: "invalid" as const };
+        }
+
+        const user = await trx
+          .selectFrom("users")
+          .select(USER_COLUMNS)
+          .where("id", "=", session.user_id)
+          .executeTakeFirst();
+
+        if (!user) {
+          return { status: "invalid" as const };
+        }
+
+        const next = await issueRefreshToken(trx, request, user.id, session.family_id);
+        await trx
+          .updateTable("refresh_tokens")
+          .set({ revoked_at: new Date(), replaced_by_id: next.id })
+          .where("id", "=", session.id)
+          .execute();
+
+        return { status: "rotated" as const, user, session: next };
+      });
+
+      if (outcome.status === "reused") {
+        request.log.warn(
+          { userId: outcome.session.user_id, familyId: outcome.session.family_id },
+          "Refresh token reuse detected; revoked token family as suspected theft"
+        );
+      }
+
+      if (outcome.status !== "rotated") {
         return reply.status(401).send({
           success: false,
           error: {
@@ -283,11 +762,11 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
-      const token = createAccessToken(fastify, user);
+      const token = createAccessToken(fastify, outcome.user, outcome.session.familyId);
       const response: AuthResponse = {
         token,
-        refreshToken,
-        user: mapUser(user),
+        refreshToken: outcome.session.token,
+        user: mapUser(outcome.user),
       };
 
       return reply.send({ success: true, data: response });
@@ -318,7 +797,7 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
       }
 
       const { refreshToken } = parseResult.data;
-      const tokenHash = hashRefreshToken(refreshToken);
+      const tokenHash = hashToken(refreshToken);
       const session = await db
         .selectFrom("refresh_tokens")
         .select("id")
@@ -345,4 +824,585 @@ export async function authRoutes(fastify: FastifyInstance): Promise<void> {
       return reply.status(204).send();
     }
   );
+
+  /**
+   * POST /auth/forgot-password
+   * Emails a password reset link. Always succeeds so the response doesn't
+   * reveal whether an account exists.
+   */
+  fastify.post<{ Body: ForgotPasswordInput }>(
+    "/forgot-password",
+    { preHandler: [requirePasswordLogin, limitAuthAttempts("forgot-password")] },
+    async (request, reply) => {
+      const parseResult = ForgotPasswordSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const user = await db
+        .selectFrom("users")
+        .select(["id", "email", "name"])
+        .where("email", "=", parseResult.data.email.toLowerCase())
+        .executeTakeFirst();
+
+      if (user) {
+        const resetToken = generateToken();
+
+        // Only the newest link works; requesting another retires older ones.
+        await db.transaction().execute(async (trx) => {
+          await trx
+            .deleteFrom("password_reset_tokens")
+            .where("user_id", "=", user.id)
+            .where("used_at", "is", null)
+            .execute();
+
+          await trx
+            .insertInto("password_reset_tokens")
+            .values({
+              user_id: user.id,
+              token_hash: hashToken(resetToken),
+              expires_at: getPasswordResetExpiresAt(),
+            })
+            .execute();
+        });
+
+        const link = new URL("/", config.APP_URL);
+        link.searchParams.set("reset_token", resetToken);
+
+        try {
+          await mailer.send({
+            to: user.email,
+            subject: "Reset your Martian Todos password",
+            text: [
+              `Hi ${user.name},`,
+              "",
+              "Someone asked to reset the password for your Martian Todos account.",
+              `Open this link within ${config.PASSWORD_RESET_TTL_MINUTES} minutes to choose a new one:`,
+              "",
+              link.toString(),
+              "",
+              "If it wasn't you, you can ignore this email.",
+            ].join("\n"),
+          });
+        } catch (err) {
+          // Failing loudly here would reveal that the account exists.
+          request.log.error(err, "Failed to send password reset email");
+        }
+      }
+
+      return reply.status(202).send({ success: true, data: null });
+    }
+  );
+
+  /**
+   * POST /auth/reset-password
+   * Sets a new password with an emailed reset token and signs out every
+   * session.
+   */
+  fastify.post<{ Body: ResetPasswordInput }>(
+    "/reset-password",
+    { preHandler: [requirePasswordLogin, limitAuthAttempts("reset-password")] },
+    async (request, reply) => {
+      const parseResult = ResetPasswordSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const { token, password } = parseResult.data;
+      // Hash before taking the row lock; bcrypt is deliberately slow.
+      const passwordHash = await bcrypt.hash(password, 12);
+
+      const reset = await db.transaction().execute(async (trx) => {
+        const row = await trx
+          .selectFrom("password_reset_tokens")
+          .select(["id", "user_id"])
+          .where("token_hash", "=", hashToken(token))
+          .where("used_at", "is", null)
+          .where("expires_at", ">", new Date())
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!row) {
+          return false;
+        }
+
+        await trx
+          .updateTable("password_reset_tokens")
+          .set({ used_at: new Date() })
+          .where("id", "=", row.id)
+          .execute();
+
+        await trx
+          .updateTable("users")
+          .set({ password_hash: passwordHash, updated_at: new Date().toISOString() })
+          .where("id", "=", row.user_id)
+          .execute();
+
+        await revokeAllSessions(trx, row.user_id);
+        // Proving control of the mailbox unlocks the account.
+        await clearFailedLogins(trx, row.user_id);
+        return true;
+      });
+
+      if (!reset) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "INVALID_TOKEN",
+            message: "This reset link is invalid or has expired",
+          },
+        });
+      }
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * GET /auth/verify-email?token=
+   * Marks the address in a verification link as confirmed.
+   */
+  fastify.get<{ Querystring: { token?: string } }>("/verify-email", async (request, reply) => {
+    const parseResult = VerifyEmailQuerySchema.safeParse(request.query);
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid input",
+          details: parseResult.error.flatten(),
+        },
+      });
+    }
+
+    const claims = readVerificationToken(fastify, parseResult.data.token);
+
+    // The address must still match, so a link for an old address can't
+    // verify a new one.
+    const user = claims
+      ? await db
+          .updateTable("users")
+          .set({ email_verified_at: (eb) => eb.fn.coalesce("email_verified_at", eb.val(new Date())) })
+          .where("id", "=", claims.sub)
+          .where("email", "=", claims.email)
+          .returning(USER_COLUMNS)
+          .executeTakeFirst()
+      : undefined;
+
+    if (!user) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "INVALID_TOKEN",
+          message: "This verification link is invalid or has expired",
+        },
+      });
+    }
+
+    return reply.send({ success: true, data: mapUser(user) });
+  });
+
+  /**
+   * POST /auth/resend-verification
+   * Sends a fresh verification link, at most once per cooldown period.
+   */
+  fastify.post(
+    "/resend-verification",
+    { preHandler: [authenticate, requireSessionToken] },
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const user = await db
+        .selectFrom("users")
+        .select(["id", "email", "name", "email_verified_at", "verification_sent_at"])
+        .where("id", "=", userId)
+        .executeTakeFirst();
+
+      if (!user) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "User not found",
+          },
+        });
+      }
+
+      if (user.email_verified_at) {
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: "ALREADY_VERIFIED",
+            message: "This email address is already verified",
+          },
+        });
+      }
+
+      const retryAfter = verificationCooldownRemaining(user.verification_sent_at);
+      if (retryAfter > 0) {
+        return reply
+          .status(429)
+          .header("Retry-After", String(retryAfter))
+          .send({
+            success: false,
+            error: {
+              code: "RESEND_COOLDOWN",
+              message: "Please wait before requesting another email",
+              details: { retryAfter },
+            },
+          });
+      }
+
+      await sendVerificationEmail(fastify, user);
+
+      return reply.status(202).send({ success: true, data: null });
+    }
+  );
+
+  /**
+   * POST /auth/2fa/setup
+   * Starts authenticator enrollment with a new secret. 2FA stays off until
+   * the first code is confirmed at /auth/2fa/enable.
+   */
+  fastify.post(
+    "/2fa/setup",
+    { preHandler: [authenticate, requireSessionToken] },
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const user = await db
+        .selectFrom("users")
+        .select(["email", "totp_enabled_at"])
+        .where("id", "=", userId)
+        .executeTakeFirstOrThrow();
+
+      if (user.totp_enabled_at) {
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: "TWO_FACTOR_ENABLED",
+            message: "Two-factor authentication is already on",
+          },
+        });
+      }
+
+      const secret = generateTotpSecret();
+      await db
+        .updateTable("users")
+        .set({ totp_secret: encryptSecret(secret), totp_last_step: null })
+        .where("id", "=", userId)
+        .execute();
+
+      const setup: TwoFactorSetup = {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email),
+      };
+
+      return reply.send({ success: true, data: setup });
+    }
+  );
+
+  /**
+   * POST /auth/2fa/enable
+   * Confirms enrollment with a first code and returns one-time recovery
+   * codes, which are never shown again.
+   */
+  fastify.post<{ Body: EnableTwoFactorInput }>(
+    "/2fa/enable",
+    { preHandler: [authenticate, requireSessionToken] },
+    async (request, reply) => {
+      const parseResult = EnableTwoFactorSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const userId = getCurrentUserId(request);
+      const user = await db
+        .selectFrom("users")
+        .select(["id", "totp_secret", "totp_enabled_at"])
+        .where("id", "=", userId)
+        .executeTakeFirstOrThrow();
+
+      if (user.totp_enabled_at) {
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: "TWO_FACTOR_ENABLED",
+            message: "Two-factor authentication is already on",
+          },
+        });
+      }
+
+      if (!(await verifyTotpCode(db, user, parseResult.data.code))) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "INVALID_CODE",
+            message: "That code didn't match. Check your authenticator app and try again",
+          },
+        });
+      }
+
+      const recoveryCodes = await db.transaction().execute(async (trx) => {
+        await trx
+          .updateTable("users")
+          .set({ totp_enabled_at: new Date() })
+          .where("id", "=", userId)
+          .execute();
+
+        return replaceRecoveryCodes(trx, userId);
+      });
+
+      return reply.send({ success: true, data: { recoveryCodes } });
+    }
+  );
+
+  /**
+   * POST /auth/2fa/disable
+   * Turns two-factor authentication off. Requires the password and a
+   * current code (or recovery code).
+   */
+  fastify.post<{ Body: DisableTwoFactorInput }>(
+    "/2fa/disable",
+    { preHandler: [authenticate, requireSessionToken] },
+    async (request, reply) => {
+      const parseResult = DisableTwoFactorSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const userId = getCurrentUserId(request);
+      const user = await db
+        .selectFrom("users")
+        .select(["id", "password_hash", "totp_secret", "totp_enabled_at"])
+        .where("id", "=", userId)
+        .executeTakeFirstOrThrow();
+
+      if (!user.totp_enabled_at) {
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: "TWO_FACTOR_DISABLED",
+            message: "Two-factor authentication is already off",
+          },
+        });
+      }
+
+      // Single sign-on accounts have no password to confirm, so only a
+      // current authenticator code (not a recovery code) will do.
+      const { password, code } = parseResult.data;
+      const verified =
+        user.password_hash === null
+          ? await verifyTotpCode(db, user, code)
+          : password !== undefined &&
+            (await checkPassword(password, user.password_hash)) &&
+            (await verifySecondFactor(db, user, code));
+
+      if (!verified) {
+        return reply.status(401).send({
+          success: false,
+          error: {
+            code: "INVALID_CREDENTIALS",
+            message: "Invalid password or authentication code",
+          },
+        });
+      }
+
+      await db.transaction().execute(async (trx) => {
+        await trx
+          .updateTable("users")
+          .set({ totp_secret: null, totp_enabled_at: null, totp_last_step: null })
+          .where("id", "=", userId)
+          .execute();
+
+        await trx.deleteFrom("recovery_codes").where("user_id", "=", userId).execute();
+      });
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * GET /auth/sessions
+   * Lists the devices the user is signed in on, marking the current one.
+   */
+  fastify.get(
+    "/sessions",
+    { preHandler: [authenticate, requireScope("account:read")] },
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const sessions = await listSessions(db, userId, getCurrentSessionId(request));
+
+      return reply.send({ success: true, data: sessions });
+    }
+  );
+
+  /**
+   * POST /auth/sessions/revoke-others
+   * Signs out every device except the one making the request.
+   */
+  fastify.post(
+    "/sessions/revoke-others",
+    { preHandler: [authenticate, requireSessionToken] },
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const currentSessionId = getCurrentSessionId(request);
+
+      // Tokens issued before sessions were tracked can't tell which
+      // session is theirs, so we can't spare it.
+      if (!currentSessionId) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "SESSION_UNKNOWN",
+            message: "Sign in again to manage other sessions",
+          },
+        });
+      }
+
+      const revoked = await revokeOtherSessions(db, userId, currentSessionId);
+
+      return reply.send({ success: true, data: { revoked } });
+    }
+  );
+
+  /**
+   * DELETE /auth/sessions/:id
+   * Signs out one device.
+   */
+  fastify.delete<{ Params: { id: string } }>(
+    "/sessions/:id",
+    { preHandler: [authenticate, requireSessionToken] },
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const idResult = SessionIdSchema.safeParse(request.params.id);
+
+      if (!idResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid session id",
+            details: idResult.error.flatten(),
+          },
+        });
+      }
+
+      const revoked = await revokeSession(db, userId, idResult.data);
+      if (!revoked) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Session not found",
+          },
+        });
+      }
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * GET /auth/tokens
+   * Lists the user's personal access tokens with when they were last used.
+   */
+  fastify.get(
+    "/tokens",
+    { preHandler: [authenticate, requireScope("account:read")] },
+    async (request, reply) => {
+      const tokens = await listAccessTokens(db, getCurrentUserId(request));
+
+      return reply.send({ success: true, data: tokens });
+    }
+  );
+
+  /**
+   * POST /auth/tokens
+   * Creates a personal access token. The raw token is only in this
+   * response.
+   */
+  fastify.post<{ Body: CreateAccessTokenInput }>(
+    "/tokens",
+    { preHandler: [authenticate, requireSessionToken] },
+    async (request, reply) => {
+      const parseResult = CreateAccessTokenSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const token = await issueAccessToken(db, getCurrentUserId(request), parseResult.data);
+
+      return reply.status(201).send({ success: true, data: token });
+    }
+  );
+
+  /**
+   * DELETE /auth/tokens/:id
+   * Revokes a personal access token.
+   */
+  fastify.delete<{ Params: { id: string } }>(
+    "/tokens/:id",
+    { preHandler: [authenticate, requireSessionToken] },
+    async (request, reply) => {
+      const idResult = AccessTokenIdSchema.safeParse(request.params.id);
+
+      if (!idResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid token id",
+            details: idResult.error.flatten(),
+          },
+        });
+      }
+
+      const revoked = await revokeAccessToken(db, getCurrentUserId(request), idResult.data);
+      if (!revoked) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Token not found",
+          },
+        });
+      }
+
+      return reply.status(204).send();
+    }
+  );
 }
@@ -0,0 +1,155 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { db } from "../db/database.js";
+import { authenticate, getCurrentUserId, requireSessionToken } from "../middleware/auth.js";
+import { DATA_EXPORT_COLUMNS, mapDataExport, readDownloadToken } from "../services/dataExport.js";
+
+const ExportIdSchema = z.string().uuid();
+
+const DownloadQuerySchema = z.object({
+  token: z.string().min(1),
+});
+
+/**
+ * Data export routes plugin: request an archive of everything stored for
+ * the account, check on it, and download it through an expiring link.
+ */
+export async function dataExportRoutes(fastify: FastifyInstance): Promise<void> {
+  /**
+   * POST /me/export
+   * Queues an export, or returns the one already in progress. Archives
+   * are built in the background; poll the status until it's ready.
+   */
+  fastify.post("/", { preHandler: [authenticate, requireSessionToken] }, async (request, reply) => {
+    const userId = getCurrentUserId(request);
+
+    const inProgress = await db
+      .selectFrom("data_exports")
+      .select(DATA_EXPORT_COLUMNS)
+      .where("user_id", "=", userId)
+      .where("status", "in", ["pending", "processing"])
+      .executeTakeFirst();
+
+    const dataExport =
+      inProgress ??
+      (await db
+        .insertInto("data_exports")
+        .values({ user_id: userId })
+        .returning(DATA_EXPORT_COLUMNS)
+        .executeTakeFirstOrThrow());
+
+    return reply.status(202).send({ success: true, data: mapDataExport(fastify, dataExport) });
+  });
+
+  /**
+   * GET /me/export
+   * Returns the most recent export, or null when there is none.
+   */
+  fastify.get("/", { preHandler: [authenticate, requireSessionToken] }, async (request, reply) => {
+    const dataExport = await db
+      .selectFrom("data_exports")
+      .select(DATA_EXPORT_COLUMNS)
+      .where("user_id", "=", getCurrentUserId(request))
+      .orderBy("created_at", "desc")
+      .limit(1)
+      .executeTakeFirst();
+
+    return reply.send({
+      success: true,
+      data: dataExport ? mapDataExport(fastify, dataExport) : null,
+    });
+  });
+
+  /**
+   * GET /me/export/:id
+   * Returns an export's status, with a download link once it's ready.
+   */
+  fastify.get<{ Params: { id: string } }>(
+    "/:id",
+    { preHandler: [authenticate, requireSessionToken] },
+    async (request, reply) => {
+      const idParseResult = ExportIdSchema.safeParse(request.params.id);
+      if (!idParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid export id",
+            details: idParseResult.error.flatten(),
+          },
+        });
+      }
+
+      const dataExport = await db
+        .selectFrom("data_exports")
+        .select(DATA_EXPORT_COLUMNS)
+        .where("id", "=", idParseResult.data)
+        .where("user_id", "=", getCurrentUserId(request))
+        .executeTakeFirst();
+
+      if (!dataExport) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Export not found",
+          },
+        });
+      }
+
+      return reply.send({ success: true, data: mapDataExport(fastify, dataExport) });
+    }
+  );
+
+  /**
+   * GET /me/export/:id/download?token=
+   * Sends the archive. The signed token in the link stands in for the
+   * session, so the link can be opened directly in a browser.
+   */
+  fastify.get<{ Params: { id: string }; Querystring: { token?: string } }>(
+    "/:id/download",
+    async (request, reply) => {
+      const parseResult = DownloadQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const exportId = readDownloadToken(fastify, parseResult.data.token);
+      const dataExport =
+        exportId === request.params.id
+          ? await db
+              .selectFrom("data_exports")
+              .select(["archive", "completed_at"])
+              .where("id", "=", exportId)
+              .where("status", "=", "ready")
+              .where("expires_at", ">", new Date())
+              .executeTakeFirst()
+          : undefined;
+
+      if (!dataExport?.archive) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "INVALID_TOKEN",
+            message: "This download link is invalid or has expired",
+          },
+        });
+      }
+
+      const date = (dataExport.completed_at ?? new Date()).toISOString().slice(0, 10);
+
+      return reply
+        .header("Content-Type", "application/zip")
+        .header("Content-Disposition", `attachment; filename="martian-todos-export-${date}.zip"`)
+        .header("Cache-Control", "no-store")
+        .send(dataExport.archive);
+    }
+  );
+}
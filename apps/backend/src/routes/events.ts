@@ -0,0 +1,80 @@
+import { FastifyInstance } from "fastify";
+import { db } from "../db/database.js";
+import {
+  authenticate,
+  getCurrentUserId,
+  getTokenExpiry,
+  requireTodoScope,
+} from "../middleware/auth.js";
+import {
+  getCurrentWorkspaceId,
+  requireContentPermission,
+  resolveWorkspace,
+} from "../middleware/workspace.js";
+import { subscribeToWorkspace } from "../services/todoStream.js";
+import { findWorkspaceAccess } from "../services/workspaces.js";
+
+// Keeps proxies from closing an idle stream, and re-checks access.
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// How long clients wait before reconnecting after the stream drops.
+const RETRY_MS = 3000;
+
+/**
+ * Real-time routes plugin: a Server-Sent Events stream of todo changes
+ * in the workspace picked by X-Workspace-Id.
+ */
+export async function eventRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.addHook("preHandler", authenticate);
+  fastify.addHook("preHandler", requireTodoScope);
+  fastify.addHook("preHandler", resolveWorkspace);
+  fastify.addHook("preHandler", requireContentPermission);
+
+  /**
+   * GET /events
+   * Streams `todo.created`, `todo.updated` and `todo.deleted` events.
+   * The stream ends when the access token expires or the user leaves the
+   * workspace; clients reconnect with a fresh token.
+   */
+  fastify.get("/", async (request, reply) => {
+    const userId = getCurrentUserId(request);
+    const workspaceId = getCurrentWorkspaceId(request);
+    const expiresAt = getTokenExpiry(request);
+
+    // Take over the response, keeping headers set by hooks such as CORS.
+    reply.hijack();
+    const stream = reply.raw;
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) stream.setHeader(name, value);
+    }
+    stream.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    stream.write(`retry: ${RETRY_MS}\n\n`);
+
+    const unsubscribe = subscribeToWorkspace(workspaceId, (event) => {
+      stream.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const access = await findWorkspaceAccess(db, userId, workspaceId);
+        if (!access || (expiresAt && Date.now() >= expiresAt.getTime())) {
+          stream.end();
+          return;
+        }
+        stream.write(": ping\n\n");
+      } catch (err) {
+        request.log.error(err, "Event stream heartbeat failed");
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    // Fires when the client disconnects as well as when we end the stream.
+    stream.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+}
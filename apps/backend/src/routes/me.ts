@@ -0,0 +1,408 @@
+import { FastifyInstance } from "fastify";
+import bcrypt from "bcrypt";
+import { z } from "zod";
+import { db } from "../db/database.js";
+import {
+  authenticate,
+  getCurrentSessionId,
+  getCurrentUserId,
+  requireScope,
+  requireSessionToken,
+} from "../middleware/auth.js";
+import { limitAuthAttempts } from "../middleware/rateLimit.js";
+import { mapNotification } from "../services/comments.js";
+import { sendVerificationEmail } from "../services/emailVerification.js";
+import { clearFailedLogins } from "../services/loginLockout.js";
+import {
+  getSessionStartedAt,
+  revokeAllSessions,
+  revokeOtherSessions,
+} from "../services/sessions.js";
+import { verifyTotpCode } from "../services/twoFactor.js";
+import { checkPassword, mapUser, USER_COLUMNS } from "../services/users.js";
+import { listMembershipCounts } from "../services/workspaces.js";
+import {
+  ChangePasswordSchema,
+  DeleteAccountSchema,
+  UpdateProfileSchema,
+  type ChangePasswordInput,
+  type DeleteAccountInput,
+  type UpdateProfileInput,
+} from "@martian-todos/shared";
+
+// Older notifications aren't listed.
+const NOTIFICATION_LIMIT = 50;
+// Accounts without a password can be deleted this soon after signing in.
+const RECENT_SIGN_IN_MS = 10 * 60 * 1000;
+
+const ListNotificationsSchema = z.object({
+  unread: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+/**
+ * Routes for the signed-in user's own account: profile, password and
+ * deletion.
+ */
+export async function meRoutes(fastify: FastifyInstance): Promise<void> {
+  // Apply authentication to all routes in this plugin
+  fastify.addHook("preHandler", authenticate);
+
+  /**
+   * GET /me
+   * Returns the signed-in user.
+   */
+  fastify.get("/", { preHandler: [requireScope("account:read")] }, async (request, reply) => {
+    const user = await db
+      .selectFrom("users")
+      .select(USER_COLUMNS)
+      .where("id", "=", getCurrentUserId(request))
+      .executeTakeFirst();
+
+    if (!user) {
+      return reply.status(404).send({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "User not found",
+        },
+      });
+    }
+
+    return reply.send({ success: true, data: mapUser(user) });
+  });
+
+  /**
+   * PATCH /me
+   * Updates the name and/or email. A new email needs the current password
+   * and starts unverified; a confirmation link is sent to it.
+   */
+  fastify.patch<{ Body: UpdateProfileInput }>(
+    "/",
+    { preHandler: [requireSessionToken, limitAuthAttempts("update-profile")] },
+    async (request, reply) => {
+      const parseResult = UpdateProfileSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const userId = getCurrentUserId(request);
+      const { name, currentPassword } = parseResult.data;
+
+      const current = await db
+        .selectFrom("users")
+        .select(["email", "password_hash"])
+        .where("id", "=", userId)
+        .executeTakeFirstOrThrow();
+
+      const email = parseResult.data.email?.toLowerCase();
+      const emailChanged = email !== undefined && email !== current.email;
+
+      if (emailChanged) {
+        // Accounts created through single sign-on have no password to confirm.
+        if (current.password_hash === null) {
+          return reply.status(400).send({
+            success: false,
+            error: {
+              code: "PASSWORD_NOT_SET",
+              message: "Set a password through password reset before changing your email",
+            },
+          });
+        }
+
+        if (!currentPassword || !(await checkPassword(currentPassword, current.password_hash))) {
+          return reply.status(401).send({
+            success: false,
+            error: {
+              code: "INVALID_CREDENTIALS",
+              message: "Current password is incorrect",
+            },
+          });
+        }
+
+        const taken = await db
+          .selectFrom("users")
+          .select("id")
+          .where("email", "=", email)
+          .where("id", "!=", userId)
+          .executeTakeFirst();
+
+        if (taken) {
+          return reply.status(409).send({
+            success: false,
+            error: {
+              code: "EMAIL_EXISTS",
+              message: "An account with this email already exists",
+            },
+          });
+        }
+      }
+
+      const user = await db
+        .updateTable("users")
+        .set({
+          ...(name !== undefined && { name }),
+          ...(emailChanged && { email, email_verified_at: null, verification_sent_at: null }),
+          updated_at: new Date().toISOString(),
+        })
+        .where("id", "=", userId)
+        .returning(USER_COLUMNS)
+        .executeTakeFirstOrThrow();
+
+      if (emailChanged) {
+        try {
+          await sendVerificationEmail(fastify, user);
+        } catch (err) {
+          request.log.error(err, "Failed to send verification email");
+        }
+      }
+
+      return reply.send({ success: true, data: mapUser(user) });
+    }
+  );
+
+  /**
+   * POST /me/password
+   * Changes the password and signs out every other device.
+   */
+  fastify.post<{ Body: ChangePasswordInput }>(
+    "/password",
+    { preHandler: [requireSessionToken, limitAuthAttempts("change-password")] },
+    async (request, reply) => {
+      const parseResult = ChangePasswordSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const userId = getCurrentUserId(request);
+      const { currentPassword, newPassword } = parseResult.data;
+
+      const user = await db
+        .selectFrom("users")
+        .select("password_hash")
+        .where("id", "=", userId)
+        .executeTakeFirstOrThrow();
+
+      if (!(await checkPassword(currentPassword, user.password_hash))) {
+        return reply.status(401).send({
+          success: false,
+          error: {
+            code: "INVALID_CREDENTIALS",
+            message: "Current password is incorrect",
+          },
+        });
+      }
+
+      const passwordHash = await bcrypt.hash(newPassword, 12);
+      const currentSessionId = getCurrentSessionId(request);
+
+      await db.transaction().execute(async (trx) => {
+        await trx
+          .updateTable("users")
+          .set({ password_hash: passwordHash, updated_at: new Date().toISOString() })
+          .where("id", "=", userId)
+          .execute();
+
+        // Tokens from before sessions were tracked can't spare their own.
+        if (currentSessionId) {
+          await revokeOtherSessions(trx, userId, currentSessionId);
+        } else {
+          await revokeAllSessions(trx, userId);
+        }
+
+        await clearFailedLogins(trx, userId);
+      });
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * DELETE /me
+   * Deletes the account, its sessions and tokens, and every workspace it
+   * is the only member of. Content in shared workspaces stays behind.
+   * Refused while the user is the last owner of a workspace others use.
+   * Accounts without a password confirm with an authenticator code, or
+   * without two-factor, by having signed in recently.
+   */
+  fastify.delete<{ Body: DeleteAccountInput }>(
+    "/",
+    { preHandler: [requireSessionToken, limitAuthAttempts("delete-account")] },
+    async (request, reply) => {
+      const parseResult = DeleteAccountSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const userId = getCurrentUserId(request);
+      const user = await db
+        .selectFrom("users")
+        .select(["id", "password_hash", "totp_secret", "totp_enabled_at"])
+        .where("id", "=", userId)
+        .executeTakeFirstOrThrow();
+
+      const { password, code } = parseResult.data;
+      if (user.password_hash !== null) {
+        if (password === undefined || !(await checkPassword(password, user.password_hash))) {
+          return reply.status(401).send({
+            success: false,
+            error: {
+              code: "INVALID_CREDENTIALS",
+              message: "Password is incorrect",
+            },
+          });
+        }
+      } else if (user.totp_enabled_at) {
+        // Single sign-on accounts have no password to confirm.
+        if (code === undefined || !(await verifyTotpCode(db, user, code))) {
+          return reply.status(401).send({
+            success: false,
+            error: {
+              code: "INVALID_CREDENTIALS",
+              message: "Authentication code is incorrect",
+            },
+          });
+        }
+      } else {
+        const sessionId = getCurrentSessionId(request);
+        const startedAt = sessionId ? await getSessionStartedAt(db, userId, sessionId) : null;
+        if (!startedAt || Date.now() - startedAt.getTime() > RECENT_SIGN_IN_MS) {
+          return reply.status(401).send({
+            success: false,
+            error: {
+              code: "REAUTHENTICATION_REQUIRED",
+              message: "Sign in again to delete your account",
+            },
+          });
+        }
+      }
+
+      const memberships = await listMembershipCounts(db, userId);
+      const stranded = memberships.filter(
+        (workspace) =>
+          workspace.role === "owner" && workspace.ownerCount === 1 && workspace.memberCount > 1
+      );
+      if (stranded.length > 0) {
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: "SOLE_OWNER",
+            message: "Make someone else an owner of your shared workspaces first",
+            details: { workspaces: stranded.map(({ id, name }) => ({ id, name })) },
+          },
+        });
+      }
+
+      const orphaned = memberships
+        .filter((workspace) => workspace.memberCount === 1)
+        .map((workspace) => workspace.id);
+
+      await db.transaction().execute(async (trx) => {
+        if (orphaned.length > 0) {
+          await trx.deleteFrom("workspaces").where("id", "in", orphaned).execute();
+        }
+        await trx.deleteFrom("users").where("id", "=", userId).execute();
+      });
+      request.log.info({ userId }, "Account deleted");
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * GET /me/notifications
+   * Lists the user's most recent notifications, newest first, from
+   * workspaces they still belong to. `unread=true` limits it to unread ones.
+   */
+  fastify.get<{ Querystring: { unread?: string } }>(
+    "/notifications",
+    { preHandler: [requireScope("account:read")] },
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const parseResult = ListNotificationsSchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const notifications = await db
+        .selectFrom("notifications")
+        .innerJoin("todos", "todos.id", "notifications.todo_id")
+        .leftJoin("users", "users.id", "notifications.actor_id")
+        .select([
+          "notifications.id",
+          "notifications.type",
+          "notifications.actor_id",
+          "notifications.todo_id",
+          "notifications.comment_id",
+          "notifications.read_at",
+          "notifications.created_at",
+          "todos.title as todo_title",
+          "todos.workspace_id",
+          "users.name as actor_name",
+        ])
+        .where("notifications.user_id", "=", userId)
+        .where("todos.deleted_at", "is", null)
+        .where("todos.workspace_id", "in", (eb) =>
+          eb
+            .selectFrom("workspace_members")
+            .select("workspace_members.workspace_id")
+            .where("workspace_members.user_id", "=", userId)
+        )
+        .$if(parseResult.data.unread, (qb) => qb.where("notifications.read_at", "is", null))
+        .orderBy("notifications.created_at", "desc")
+        .limit(NOTIFICATION_LIMIT)
+        .execute();
+
+      return reply.send({ success: true, data: notifications.map(mapNotification) });
+    }
+  );
+
+  /**
+   * POST /me/notifications/read
+   * Marks every notification read.
+   */
+  fastify.post(
+    "/notifications/read",
+    { preHandler: [requireSessionToken] },
+    async (request, reply) => {
+      await db
+        .updateTable("notifications")
+        .set({ read_at: new Date() })
+        .where("user_id", "=", getCurrentUserId(request))
+        .where("read_at", "is", null)
+        .execute();
+
+      return reply.status(204).send();
+    }
+  );
+}
@@ -0,0 +1,316 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { db } from "../db/database.js";
+import {
+  authenticate,
+  getCurrentUserId,
+  requireVerifiedEmailForWrites,
+  requireTodoScope,
+} from "../middleware/auth.js";
+import {
+  getCurrentWorkspaceId,
+  requireContentPermission,
+  resolveWorkspace,
+} from "../middleware/workspace.js";
+import { mapProject } from "../services/projects.js";
+import { recordTodoEvents } from "../services/todoEvents.js";
+import {
+  CreateProjectSchema,
+  UpdateProjectSchema,
+  ProjectDeleteMode,
+  type CreateProjectInput,
+  type UpdateProjectInput,
+} from "@martian-todos/shared";
+
+const ProjectIdSchema = z.string().uuid();
+
+const ListProjectsSchema = z.object({
+  includeArchived: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+const DeleteProjectSchema = z.object({
+  mode: z
+    .enum([ProjectDeleteMode.MOVE_TO_INBOX, ProjectDeleteMode.CASCADE])
+    .default(ProjectDeleteMode.MOVE_TO_INBOX),
+});
+
+/**
+ * Project CRUD routes plugin.
+ * All routes require authentication.
+ */
+export async function projectRoutes(fastify: FastifyInstance): Promise<void> {
+  // Apply authentication to all routes in this plugin
+  fastify.addHook("preHandler", authenticate);
+  fastify.addHook("preHandler", requireTodoScope);
+  fastify.addHook("preHandler", requireVerifiedEmailForWrites);
+  fastify.addHook("preHandler", resolveWorkspace);
+  fastify.addHook("preHandler", requireContentPermission);
+
+  /**
+   * GET /projects
+   * Lists the user's projects in sidebar order.
+   * Archived projects are hidden unless includeArchived=true.
+   */
+  fastify.get<{ Querystring: { includeArchived?: string } }>(
+    "/",
+    async (request, reply) => {
+      const workspaceId = getCurrentWorkspaceId(request);
+      const parseResult = ListProjectsSchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      let query = db
+        .selectFrom("projects")
+        .selectAll()
+        .select((eb) =>
+          eb
+            .selectFrom("todos")
+            .select(eb.fn.countAll().as("count"))
+            .whereRef("todos.project_id", "=", "projects.id")
+            .where("todos.deleted_at", "is", null)
+            .as("todo_count")
+        )
+        .where("workspace_id", "=", workspaceId);
+
+      if (!parseResult.data.includeArchived) {
+        query = query.where("archived", "=", false);
+      }
+
+      const projects = await query
+        .orderBy("sort_order", "asc")
+        .orderBy("created_at", "asc")
+        .execute();
+
+      return reply.send({ success: true, data: projects.map(mapProject) });
+    }
+  );
+
+  /**
+   * POST /projects
+   * Creates a new project at the end of the sidebar.
+   */
+  fastify.post<{ Body: CreateProjectInput }>("/", async (request, reply) => {
+    const userId = getCurrentUserId(request);
+    const workspaceId = getCurrentWorkspaceId(request);
+
+    // Validate input
+    const parseResult = CreateProjectSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid input",
+          details: parseResult.error.flatten(),
+        },
+      });
+    }
+
+    const { name, color } = parseResult.data;
+
+    const orderResult = await db
+      .selectFrom("projects")
+      .select(db.fn.max("sort_order").as("maxSortOrder"))
+      .where("workspace_id", "=", workspaceId)
+      .executeTakeFirst();
+
+    const maxSortOrder = orderResult?.maxSortOrder;
+    const sortOrder =
+      maxSortOrder === null || maxSortOrder === undefined ? 0 : Number(maxSortOrder) + 1;
+
+    const project = await db
+      .insertInto("projects")
+      .values({
+        workspace_id: workspaceId,
+        user_id: userId,
+        name,
+        ...(color ? { color } : {}),
+        sort_order: sortOrder,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return reply.status(201).send({
+      success: true,
+      data: mapProject({ ...project, todo_count: 0 }),
+    });
+  });
+
+  /**
+   * PATCH /projects/:id
+   * Renames, recolors, archives, or reorders a project.
+   */
+  fastify.patch<{ Params: { id: string }; Body: UpdateProjectInput }>(
+    "/:id",
+    async (request, reply) => {
+      const workspaceId = getCurrentWorkspaceId(request);
+      const idParseResult = ProjectIdSchema.safeParse(request.params.id);
+
+      if (!idParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid project id",
+            details: idParseResult.error.flatten(),
+          },
+        });
+      }
+
+      // Validate input
+      const parseResult = UpdateProjectSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      if (Object.keys(parseResult.data).length === 0) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "No fields provided to update",
+          },
+        });
+      }
+
+      const updates: Record<string, unknown> = {
+        updated_at: new Date().toISOString(),
+      };
+
+      const { name, color, archived, sortOrder } = parseResult.data;
+      if (name !== undefined) updates.name = name;
+      if (color !== undefined) updates.color = color;
+      if (archived !== undefined) updates.archived = archived;
+      if (sortOrder !== undefined) updates.sort_order = sortOrder;
+
+      const project = await db
+        .updateTable("projects")
+        .set(updates)
+        .where("id", "=", idParseResult.data)
+        .where("workspace_id", "=", workspaceId)
+        .returningAll()
+        .returning((eb) =>
+          eb
+            .selectFrom("todos")
+            .select(eb.fn.countAll().as("count"))
+            .whereRef("todos.project_id", "=", "projects.id")
+            .where("todos.deleted_at", "is", null)
+            .as("todo_count")
+        )
+        .executeTakeFirst();
+
+      if (!project) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Project not found",
+          },
+        });
+      }
+
+      return reply.send({ success: true, data: mapProject(project) });
+    }
+  );
+
+  /**
+   * DELETE /projects/:id
+   * Deletes a project. With mode=inbox (default) its todos move back to
+   * the Inbox; with mode=cascade they are moved to the trash.
+   */
+  fastify.delete<{ Params: { id: string }; Querystring: { mode?: string } }>(
+    "/:id",
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const workspaceId = getCurrentWorkspaceId(request);
+      const idParseResult = ProjectIdSchema.safeParse(request.params.id);
+
+      if (!idParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid project id",
+            details: idParseResult.error.flatten(),
+          },
+        });
+      }
+
+      const queryParseResult = DeleteProjectSchema.safeParse(request.query);
+      if (!queryParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: queryParseResult.error.flatten(),
+          },
+        });
+      }
+
+      const deleted = await db.transaction().execute(async (trx) => {
+        // Cascaded todos go to the trash so they can still be restored.
+        if (queryParseResult.data.mode === ProjectDeleteMode.CASCADE) {
+          const deletedAt = new Date();
+          const trashed = await trx
+            .updateTable("todos")
+            .set({ deleted_at: deletedAt })
+            .where("project_id", "=", idParseResult.data)
+            .where("workspace_id", "=", workspaceId)
+            .where("deleted_at", "is", null)
+            .returning("id")
+            .execute();
+
+          await recordTodoEvents(
+            trx,
+            trashed.map((todo) => ({
+              todoId: todo.id,
+              actorId: userId,
+              type: "deleted" as const,
+              changes: { deletedAt: { before: null, after: deletedAt.toISOString() } },
+            }))
+          );
+        }
+
+        // The foreign key moves any remaining todos back to the Inbox.
+        const result = await trx
+          .deleteFrom("projects")
+          .where("id", "=", idParseResult.data)
+          .where("workspace_id", "=", workspaceId)
+          .executeTakeFirst();
+
+        return Number(result.numDeletedRows ?? 0);
+      });
+
+      if (deleted === 0) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Project not found",
+          },
+        });
+      }
+
+      return reply.status(204).send();
+    }
+  );
+}
@@ -0,0 +1,229 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { db } from "../db/database.js";
+import {
+  authenticate,
+  getCurrentUserId,
+  requireVerifiedEmailForWrites,
+  requireTodoScope,
+} from "../middleware/auth.js";
+import {
+  getCurrentWorkspaceId,
+  requireContentPermission,
+  resolveWorkspace,
+} from "../middleware/workspace.js";
+import { mapTag } from "../services/tags.js";
+import { TagInputSchema, type TagInput } from "@martian-todos/shared";
+
+const TagIdSchema = z.string().uuid();
+
+/**
+ * Tag CRUD routes plugin.
+ * Tags are created implicitly when attached to todos, so these routes
+ * cover listing, explicit creation, renaming, and deletion.
+ */
+export async function tagRoutes(fastify: FastifyInstance): Promise<void> {
+  // Apply authentication to all routes in this plugin
+  fastify.addHook("preHandler", authenticate);
+  fastify.addHook("preHandler", requireTodoScope);
+  fastify.addHook("preHandler", requireVerifiedEmailForWrites);
+  fastify.addHook("preHandler", resolveWorkspace);
+  fastify.addHook("preHandler", requireContentPermission);
+
+  /**
+   * GET /tags
+   * Lists the user's tags with usage counts.
+   */
+  fastify.get("/", async (request, reply) => {
+    const workspaceId = getCurrentWorkspaceId(request);
+
+    const tags = await db
+      .selectFrom("tags")
+      .leftJoin("todo_tags", "todo_tags.tag_id", "tags.id")
+      .leftJoin("todos", (join) =>
+        join.onRef("todos.id", "=", "todo_tags.todo_id").on("todos.deleted_at", "is", null)
+      )
+      .select([
+        "tags.id",
+        "tags.name",
+        "tags.created_at",
+        db.fn.count("todos.id").as("todo_count"),
+      ])
+      .where("tags.workspace_id", "=", workspaceId)
+      .groupBy(["tags.id", "tags.name", "tags.created_at"])
+      .orderBy("tags.name", "asc")
+      .execute();
+
+    return reply.send({ success: true, data: tags.map(mapTag) });
+  });
+
+  /**
+   * POST /tags
+   * Creates a new tag.
+   */
+  fastify.post<{ Body: TagInput }>("/", async (request, reply) => {
+    const userId = getCurrentUserId(request);
+    const workspaceId = getCurrentWorkspaceId(request);
+
+    // Validate input
+    const parseResult = TagInputSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid input",
+          details: parseResult.error.flatten(),
+        },
+      });
+    }
+
+    const tag = await db
+      .insertInto("tags")
+      .values({ workspace_id: workspaceId, user_id: userId, name: parseResult.data.name })
+      .onConflict((oc) => oc.columns(["workspace_id", "name"]).doNothing())
+      .returning(["id", "name", "created_at"])
+      .executeTakeFirst();
+
+    if (!tag) {
+      return reply.status(409).send({
+        success: false,
+        error: {
+          code: "TAG_EXISTS",
+          message: "A tag with this name already exists",
+        },
+      });
+    }
+
+    return reply.status(201).send({
+      success: true,
+      data: mapTag({ ...tag, todo_count: 0 }),
+    });
+  });
+
+  /**
+   * PATCH /tags/:id
+   * Renames a tag. Todos carrying it pick up the new name.
+   */
+  fastify.patch<{ Params: { id: string }; Body: TagInput }>(
+    "/:id",
+    async (request, reply) => {
+      const workspaceId = getCurrentWorkspaceId(request);
+      const idParseResult = TagIdSchema.safeParse(request.params.id);
+
+      if (!idParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid tag id",
+            details: idParseResult.error.flatten(),
+          },
+        });
+      }
+
+      // Validate input
+      const parseResult = TagInputSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const { name } = parseResult.data;
+
+      // Reject renames that would collide with another tag.
+      const conflict = await db
+        .selectFrom("tags")
+        .select("id")
+        .where("workspace_id", "=", workspaceId)
+        .where("name", "=", name)
+        .where("id", "!=", idParseResult.data)
+        .executeTakeFirst();
+
+      if (conflict) {
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: "TAG_EXISTS",
+            message: "A tag with this name already exists",
+          },
+        });
+      }
+
+      const tag = await db
+        .updateTable("tags")
+        .set({ name })
+        .where("id", "=", idParseResult.data)
+        .where("workspace_id", "=", workspaceId)
+        .returning(["id", "name", "created_at"])
+        .executeTakeFirst();
+
+      if (!tag) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Tag not found",
+          },
+        });
+      }
+
+      const countResult = await db
+        .selectFrom("todo_tags")
+        .innerJoin("todos", "todos.id", "todo_tags.todo_id")
+        .select(db.fn.count("todo_tags.todo_id").as("count"))
+        .where("todo_tags.tag_id", "=", tag.id)
+        .where("todos.deleted_at", "is", null)
+        .executeTakeFirst();
+
+      return reply.send({
+        success: true,
+        data: mapTag({ ...tag, todo_count: countResult?.count ?? 0 }),
+      });
+    }
+  );
+
+  /**
+   * DELETE /tags/:id
+   * Deletes a tag and detaches it from all todos.
+   */
+  fastify.delete<{ Params: { id: string } }>("/:id", async (request, reply) => {
+    const workspaceId = getCurrentWorkspaceId(request);
+    const idParseResult = TagIdSchema.safeParse(request.params.id);
+
+    if (!idParseResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid tag id",
+          details: idParseResult.error.flatten(),
+        },
+      });
+    }
+
+    const result = await db
+      .deleteFrom("tags")
+      .where("id", "=", idParseResult.data)
+      .where("workspace_id", "=", workspaceId)
+      .executeTakeFirst();
+
+    if (result.numDeletedRows === BigInt(0)) {
+      return reply.status(404).send({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Tag not found",
+        },
+      });
+    }
+
+    return reply.status(204).send();
+  });
+}
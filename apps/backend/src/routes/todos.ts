@@ -1,35 +1,118 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
-import type { SelectQueryBuilder } from "kysely";
+import {
+  sql,
+  type Kysely,
+  type RawBuilder,
+  type SelectQueryBuilder,
+} from "kysely";
 import { z } from "zod";
 import { db } from "../db/database.js";
 import type { Database } from "../db/schema.js";
-import { authenticate, getCurrentUserId } from "../middleware/auth.js";
+import {
+  authenticate,
+  getCurrentUserId,
+  requireVerifiedEmailForWrites,
+  requireTodoScope,
+} from "../middleware/auth.js";
+import {
+  getCurrentWorkspaceId,
+  requireContentPermission,
+  resolveWorkspace,
+} from "../middleware/workspace.js";
+import {
+  diffTodoSnapshots,
+  listTodoEvents,
+  recordTodoEvents,
+  snapshotTodo,
+  updateEventType,
+} from "../services/todoEvents.js";
+import { mapComment, recordMentions, selectComments } from "../services/comments.js";
+import { publishTodoChanges, type TodoChange } from "../services/todoStream.js";
+import { mapSubtask, mapTodo, selectTodoAggregates } from "../services/todos.js";
+import { enqueueWebhookDeliveries } from "../services/webhooks.js";
+import { isWorkspaceMember } from "../services/workspaces.js";
 import {
   CreateTodoSchema,
   UpdateTodoSchema,
+  CreateSubtaskSchema,
+  UpdateSubtaskSchema,
+  CommentInputSchema,
+  TagNameSchema,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  nextOccurrence,
+  parseRecurrenceRule,
   type CreateTodoInput,
   type UpdateTodoInput,
+  type CreateSubtaskInput,
+  type UpdateSubtaskInput,
+  type CommentInput,
   type Todo,
   type PaginatedResponse,
+  type CursorPaginatedResponse,
+  type TodoStats,
 } from "@martian-todos/shared";
 
 const TodoIdSchema = z.string().uuid();
 
+const SubtaskParamsSchema = z.object({
+  id: TodoIdSchema,
+  subtaskId: z.string().uuid(),
+});
+
+const CommentParamsSchema = z.object({
+  id: TodoIdSchema,
+  commentId: z.string().uuid(),
+});
+
 const ListTodosSchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
   status: z.enum(["pending", "in_progress", "completed"]).optional(),
   priority: z.enum(["low", "medium", "high"]).optional(),
   search: z.string().trim().min(1).max(200).optional(),
+  tag: TagNameSchema.optional(),
+  tags: z
+    .string()
+    .transform((value) => value.split(",").filter((name) => name.trim().length > 0))
+    .pipe(z.array(TagNameSchema).max(20))
+    .optional(),
+  tagMatch: z.enum(["any", "all"]).default("any"),
+  projectId: z.union([z.literal("inbox"), z.string().uuid()]).optional(),
+  assignee: z.union([z.enum(["me", "unassigned"]), z.string().uuid()]).optional(),
   sortBy: z
-    .enum(["createdAt", "updatedAt", "dueDate", "priority", "status", "title"])
+    .enum(["createdAt", "updatedAt", "dueDate", "priority", "status", "title", "relevance"])
     .default("createdAt"),
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  pagination: z.enum(["offset", "cursor"]).default("offset"),
+  cursor: z.string().min(1).max(1024).optional(),
 });
 
 type ListTodosQuery = z.infer<typeof ListTodosSchema>;
 
-const SORT_COLUMN_MAP: Record<ListTodosQuery["sortBy"], string> = {
+const ListTrashSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const ListAssignedSchema = ListTrashSchema.extend({
+  includeCompleted: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+const DeleteTodoSchema = z.object({
+  permanent: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+const SORT_COLUMN_MAP: Record<
+  Exclude<ListTodosQuery["sortBy"], "relevance">,
+  "created_at" | "updated_at" | "due_date" | "priority" | "status" | "title"
+> = {
   createdAt: "created_at",
   updatedAt: "updated_at",
   dueDate: "due_date",
@@ -38,6 +121,40 @@ const SORT_COLUMN_MAP: Record<ListTodosQuery["sortBy"], string> = {
   title: "title",
 };
 
+// Priorities sort by urgency rather than alphabetically.
+const PRIORITY_RANK = sql<number>`case todos.priority when 'low' then 1 when 'medium' then 2 else 3 end`;
+
+/**
+ * Decoded form of an opaque list cursor. The sort it was issued for is
+ * kept so a cursor can't be replayed against a different ordering.
+ */
+const TodoCursorSchema = z.object({
+  sortBy: ListTodosSchema.shape.sortBy.removeDefault(),
+  sortOrder: ListTodosSchema.shape.sortOrder.removeDefault(),
+  direction: z.enum(["next", "prev"]),
+  key: z.string(),
+  id: z.string().uuid(),
+});
+
+type TodoCursor = z.infer<typeof TodoCursorSchema>;
+
+// ts_headline options: titles are short, so highlight them whole; long
+// descriptions are cut down to the fragments around the matches.
+const TITLE_HEADLINE_OPTIONS = [
+  `StartSel=${SEARCH_HIGHLIGHT_START}`,
+  `StopSel=${SEARCH_HIGHLIGHT_END}`,
+  "HighlightAll=true",
+].join(", ");
+
+const DESCRIPTION_HEADLINE_OPTIONS = [
+  `StartSel=${SEARCH_HIGHLIGHT_START}`,
+  `StopSel=${SEARCH_HIGHLIGHT_END}`,
+  "MaxWords=30",
+  "MinWords=10",
+  "MaxFragments=2",
+  'FragmentDelimiter=" … "',
+].join(", ");
+
 /**
  * Todo CRUD routes plugin.
  * All routes require authentication.
@@ -45,11 +162,16 @@ const SORT_COLUMN_MAP: Record<ListTodosQuery["sortBy"], string> = {
 export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
   // Apply authentication to all routes in this plugin
   fastify.addHook("preHandler", authenticate);
+  fastify.addHook("preHandler", requireTodoScope);
+  fastify.addHook("preHandler", requireVerifiedEmailForWrites);
+  fastify.addHook("preHandler", resolveWorkspace);
+  fastify.addHook("preHandler", requireContentPermission);
 
   /**
    * GET /todos
    * Lists all todos for the authenticated user.
-   * Supports pagination, filtering, search, and sorting.
+   * Supports pagination, filtering, search, and sorting. Search results
+   * carry highlighted snippets and can be sorted by relevance.
    */
   fastify.get<{
     Querystring: {
@@ -58,11 +180,19 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
       status?: string;
       priority?: string;
       search?: string;
+      tag?: string;
+      tags?: string;
+      tagMatch?: string;
+      projectId?: string;
+      assignee?: string;
       sortBy?: string;
       sortOrder?: string;
+      pagination?: string;
+      cursor?: string;
     };
   }>("/", async (request, reply) => {
     const userId = getCurrentUserId(request);
+    const workspaceId = getCurrentWorkspaceId(request);
     const parseResult = ListTodosSchema.safeParse(request.query);
     if (!parseResult.success) {
       return reply.status(400).send({
@@ -75,13 +205,55 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
       });
     }
 
-    const { page, pageSize, status, priority, search, sortBy, sortOrder } =
-      parseResult.data;
+    const {
+      page,
+      pageSize,
+      status,
+      priority,
+      search,
+      tag,
+      tags,
+      tagMatch,
+      projectId,
+      assignee,
+      sortBy,
+      sortOrder,
+      pagination,
+      cursor,
+    } = parseResult.data;
     const offset = (page - 1) * pageSize;
 
+    // A cursor implies cursor mode; pagination=cursor fetches the first page.
+    const useCursor = pagination === "cursor" || cursor !== undefined;
+    let position: TodoCursor | null = null;
+    if (cursor !== undefined) {
+      position = decodeCursor(cursor);
+      if (!position || position.sortBy !== sortBy || position.sortOrder !== sortOrder) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "INVALID_CURSOR",
+            message: "Cursor is invalid or was issued for a different sort",
+          },
+        });
+      }
+    }
+
     const baseQuery = applyTodoFilters(
-      db.selectFrom("todos").where("user_id", "=", userId),
-      { status, priority, search }
+      db
+        .selectFrom("todos")
+        .where("workspace_id", "=", workspaceId)
+        .where("deleted_at", "is", null),
+      {
+        status,
+        priority,
+        search,
+        tag,
+        tags,
+        tagMatch,
+        projectId,
+        assignee: assignee === "me" ? userId : assignee,
+      }
     );
 
     const countResult = await baseQuery
@@ -90,9 +262,90 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
 
     const total = Number(countResult?.count || 0);
 
+    const searchQuery = search ? websearchQuery(search) : null;
+
     let dataQuery = baseQuery
       .selectAll()
-      .orderBy(SORT_COLUMN_MAP[sortBy], sortOrder);
+      .select(selectTodoAggregates)
+      .$if(searchQuery !== null, (qb) => qb.select(selectSearchHighlights(searchQuery!)));
+
+    if (useCursor) {
+      const sortKey = cursorSortKey(sortBy, searchQuery);
+      const backwards = position?.direction === "prev";
+      // Walking backwards flips the comparison and ordering; the page is
+      // put back in display order afterwards.
+      const ascending = (sortOrder === "asc") !== backwards;
+      const direction = ascending ? "asc" : "desc";
+
+      let pageQuery = dataQuery.select(
+        sql<string>`(${sortKey.expression})::text`.as("cursor_key")
+      );
+
+      // Row comparison on (key, id) resumes strictly after the cursor row.
+      if (position) {
+        const comparison = sql.raw(ascending ? ">" : "<");
+        const keyValue = sql`cast(${position.key} as ${sql.raw(sortKey.type)})`;
+        pageQuery = pageQuery.where(
+          sql<boolean>`(${sortKey.expression}, todos.id) ${comparison} (${keyValue}, cast(${position.id} as uuid))`
+        );
+      }
+
+      // Fetch one extra row to learn whether another page follows.
+      const rows = await pageQuery
+        .orderBy(sortKey.expression, direction)
+        .orderBy("id", direction)
+        .limit(pageSize + 1)
+        .execute();
+
+      const hasMore = rows.length > pageSize;
+      const pageRows = rows.slice(0, pageSize);
+      if (backwards) pageRows.reverse();
+
+      const first = pageRows[0];
+      const last = pageRows[pageRows.length - 1];
+      const hasNext = backwards || hasMore;
+      const hasPrev = backwards ? hasMore : position !== null;
+
+      const response: CursorPaginatedResponse<Todo> = {
+        items: pageRows.map(mapTodo),
+        total,
+        pageSize,
+        nextCursor:
+          last && hasNext
+            ? encodeCursor({
+                sortBy,
+                sortOrder,
+                direction: "next",
+                key: last.cursor_key,
+                id: last.id,
+              })
+            : null,
+        prevCursor:
+          first && hasPrev
+            ? encodeCursor({
+                sortBy,
+                sortOrder,
+                direction: "prev",
+                key: first.cursor_key,
+                id: first.id,
+              })
+            : null,
+      };
+
+      return reply.send({ success: true, data: response });
+    }
+
+    // Relevance only means something for a search; otherwise fall through
+    // to the newest-first tiebreaker below.
+    if (sortBy === "relevance") {
+      if (searchQuery) {
+        dataQuery = dataQuery.orderBy(sql`ts_rank(search_vector, ${searchQuery})`, sortOrder);
+      }
+    } else if (sortBy === "priority") {
+      dataQuery = dataQuery.orderBy(PRIORITY_RANK, sortOrder);
+    } else {
+      dataQuery = dataQuery.orderBy(SORT_COLUMN_MAP[sortBy], sortOrder);
+    }
 
     if (sortBy !== "createdAt") {
       dataQuery = dataQuery.orderBy("created_at", "desc");
@@ -105,19 +358,171 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
       total,
       page,
       pageSize,
-      // TODO: Revisit pagination math to avoid off-by-one behavior.
-      totalPages: Math.floor(total / pageSize),
+      totalPages: Math.ceil(total / pageSize),
     };
 
     return reply.send({ success: true, data: response });
   });
 
+  /**
+   * GET /todos/stats
+   * Counts the user's todos for the dashboard, independent of list paging.
+   */
+  fastify.get("/stats", async (request, reply) => {
+    const workspaceId = getCurrentWorkspaceId(request);
+
+    const stats = await db
+      .selectFrom("todos")
+      .select((eb) => [
+        eb.fn.countAll().as("total"),
+        eb.fn.countAll().filterWhere("status", "=", "completed").as("completed"),
+        eb.fn
+          .countAll()
+          .filterWhere((fb) =>
+            fb.and([fb("status", "!=", "completed"), fb("due_date", "<", new Date())])
+          )
+          .as("overdue"),
+      ])
+      .where("workspace_id", "=", workspaceId)
+      .where("deleted_at", "is", null)
+      .executeTakeFirstOrThrow();
+
+    const data: TodoStats = {
+      total: Number(stats.total),
+      completed: Number(stats.completed),
+      overdue: Number(stats.overdue),
+    };
+
+    return reply.send({ success: true, data });
+  });
+
+  /**
+   * GET /todos/trash
+   * Lists the user's trashed todos, most recently deleted first.
+   */
+  fastify.get<{ Querystring: { page?: string; pageSize?: string } }>(
+    "/trash",
+    async (request, reply) => {
+      const workspaceId = getCurrentWorkspaceId(request);
+      const parseResult = ListTrashSchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const { page, pageSize } = parseResult.data;
+      const offset = (page - 1) * pageSize;
+
+      const baseQuery = db
+        .selectFrom("todos")
+        .where("workspace_id", "=", workspaceId)
+        .where("deleted_at", "is not", null);
+
+      const countResult = await baseQuery
+        .select(db.fn.count("id").as("count"))
+        .executeTakeFirst();
+
+      const total = Number(countResult?.count || 0);
+
+      const todos = await baseQuery
+        .selectAll()
+        .select(selectTodoAggregates)
+        .orderBy("deleted_at", "desc")
+        .limit(pageSize)
+        .offset(offset)
+        .execute();
+
+      const response: PaginatedResponse<Todo> = {
+        items: todos.map(mapTodo),
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      };
+
+      return reply.send({ success: true, data: response });
+    }
+  );
+
+  /**
+   * GET /todos/assigned
+   * Lists open todos assigned to the user across every workspace they
+   * belong to, soonest due first (includeCompleted=true adds completed
+   * ones). Ignores X-Workspace-Id.
+   */
+  fastify.get<{
+    Querystring: { page?: string; pageSize?: string; includeCompleted?: string };
+  }>(
+    "/assigned",
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const parseResult = ListAssignedSchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const { page, pageSize, includeCompleted } = parseResult.data;
+      const offset = (page - 1) * pageSize;
+
+      // Only workspaces the user still belongs to.
+      const baseQuery = db
+        .selectFrom("todos")
+        .where("assignee_id", "=", userId)
+        .where("workspace_id", "in", (eb) =>
+          eb
+            .selectFrom("workspace_members")
+            .select("workspace_members.workspace_id")
+            .where("workspace_members.user_id", "=", userId)
+        )
+        .where("deleted_at", "is", null)
+        .$if(!includeCompleted, (qb) => qb.where("status", "!=", "completed"));
+
+      const countResult = await baseQuery
+        .select(db.fn.count("id").as("count"))
+        .executeTakeFirst();
+
+      const total = Number(countResult?.count || 0);
+
+      const todos = await baseQuery
+        .selectAll()
+        .select(selectTodoAggregates)
+        .orderBy(sql`due_date asc nulls last`)
+        .orderBy("created_at", "desc")
+        .limit(pageSize)
+        .offset(offset)
+        .execute();
+
+      const response: PaginatedResponse<Todo> = {
+        items: todos.map(mapTodo),
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      };
+
+      return reply.send({ success: true, data: response });
+    }
+  );
+
   /**
    * GET /todos/:id
    * Gets a single todo by ID.
    */
   fastify.get<{ Params: { id: string } }>("/:id", async (request, reply) => {
-    const userId = getCurrentUserId(request);
+    const workspaceId = getCurrentWorkspaceId(request);
     const { id } = request.params;
     const idParseResult = TodoIdSchema.safeParse(id);
 
@@ -135,8 +540,10 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
     const todo = await db
       .selectFrom("todos")
       .selectAll()
+      .select(selectTodoAggregates)
       .where("id", "=", idParseResult.data)
-      .where("user_id", "=", userId)
+      .where("workspace_id", "=", workspaceId)
+      .where("deleted_at", "is", null)
       .executeTakeFirst();
 
     if (!todo) {
@@ -158,6 +565,7 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
    */
   fastify.post<{ Body: CreateTodoInput }>("/", async (request, reply) => {
     const userId = getCurrentUserId(request);
+    const workspaceId = getCurrentWorkspaceId(request);
 
     // Validate input
     const parseResult = CreateTodoSchema.safeParse(request.body);
@@ -172,20 +580,85 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
       });
     }
 
-    const { title, description, priority, dueDate } = parseResult.data;
+    const { title, description, priority, dueDate, tags, projectId, assigneeId, recurrenceRule } =
+      parseResult.data;
 
-    const todo = await db
-      .insertInto("todos")
-      .values({
-        user_id: userId,
-        title,
-        description: description || null,
-        priority: priority || "medium",
-        status: "pending",
-        due_date: dueDate ? new Date(dueDate) : null,
-      })
-      .returningAll()
-      .executeTakeFirstOrThrow();
+    // Occurrences are scheduled from the due date, so a rule needs one.
+    if (recurrenceRule && !dueDate) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Recurring todos need a due date",
+        },
+      });
+    }
+
+    if (projectId && !(await projectExistsInWorkspace(projectId, workspaceId))) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Project not found",
+        },
+      });
+    }
+
+    if (assigneeId && !(await isWorkspaceMember(db, workspaceId, assigneeId))) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Assignee must be a member of the workspace",
+        },
+      });
+    }
+
+    const todo = await db.transaction().execute(async (trx) => {
+      const created = await trx
+        .insertInto("todos")
+        .values({
+          workspace_id: workspaceId,
+          user_id: userId,
+          title,
+          description: description || null,
+          priority: priority || "medium",
+          status: "pending",
+          due_date: dueDate ? new Date(dueDate) : null,
+          project_id: projectId ?? null,
+          assignee_id: assigneeId ?? null,
+          recurrence_rule: recurrenceRule ?? null,
+          recurrence_start: recurrenceRule && dueDate ? new Date(dueDate) : null,
+        })
+        .returning("id")
+        .executeTakeFirstOrThrow();
+
+      if (tags) {
+        await setTodoTags(trx, workspaceId, userId, created.id, tags);
+      }
+
+      // Re-read so the response includes tags and checklist progress.
+      const row = await trx
+        .selectFrom("todos")
+        .selectAll()
+        .select(selectTodoAggregates)
+        .where("id", "=", created.id)
+        .executeTakeFirstOrThrow();
+
+      await recordTodoEvents(trx, [
+        {
+          todoId: row.id,
+          actorId: userId,
+          type: "created",
+          changes: diffTodoSnapshots(null, snapshotTodo(row)),
+        },
+      ]);
+      await announceTodoChanges(trx, workspaceId, userId, [
+        { type: "todo.created", todoId: row.id },
+      ]);
+
+      return row;
+    });
 
     return reply.status(201).send({ success: true, data: mapTodo(todo) });
   });
@@ -196,36 +669,97 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
    */
   fastify.patch("/complete-all", async (request, reply) => {
     const userId = getCurrentUserId(request);
+    const workspaceId = getCurrentWorkspaceId(request);
 
-    const result = await db
-      .updateTable("todos")
-      .set({
-        status: "completed",
-        updated_at: new Date().toISOString(),
-      })
-      .where("user_id", "=", userId)
-      .where("status", "!=", "completed")
-      .executeTakeFirst();
+    const updated = await db.transaction().execute(async (trx) => {
+      // Read the prior statuses first so history can record them.
+      const open = await trx
+        .selectFrom("todos")
+        .select(["id", "status"])
+        .where("workspace_id", "=", workspaceId)
+        .where("status", "!=", "completed")
+        .where("deleted_at", "is", null)
+        .forUpdate()
+        .execute();
+
+      if (open.length === 0) {
+        return 0;
+      }
+
+      await trx
+        .updateTable("todos")
+        .set({
+          status: "completed",
+          updated_at: new Date().toISOString(),
+        })
+        .where("id", "in", open.map((todo) => todo.id))
+        .execute();
 
-    const updated = Number(result.numUpdatedRows ?? 0);
+      // Recurring todos roll over to their next occurrence, as when
+      // completed one at a time.
+      for (const todo of open) {
+        await scheduleNextOccurrence(trx, todo.id, userId);
+      }
+
+      await recordTodoEvents(
+        trx,
+        open.map((todo) => ({
+          todoId: todo.id,
+          actorId: userId,
+          type: "status_changed" as const,
+          changes: { status: { before: todo.status, after: "completed" } },
+        }))
+      );
+      await announceTodoChanges(
+        trx,
+        workspaceId,
+        userId,
+        open.map((todo) => ({ type: "todo.updated" as const, todoId: todo.id }))
+      );
+
+      return open.length;
+    });
 
     return reply.send({ success: true, data: { updated } });
   });
 
   /**
    * DELETE /todos/completed
-   * Deletes all completed todos.
+   * Moves all completed todos to the trash.
    */
   fastify.delete("/completed", async (request, reply) => {
     const userId = getCurrentUserId(request);
+    const workspaceId = getCurrentWorkspaceId(request);
 
-    const result = await db
-      .deleteFrom("todos")
-      .where("user_id", "=", userId)
-      .where("status", "=", "completed")
-      .executeTakeFirst();
+    const deleted = await db.transaction().execute(async (trx) => {
+      const deletedAt = new Date();
+      const trashed = await trx
+        .updateTable("todos")
+        .set({ deleted_at: deletedAt })
+        .where("workspace_id", "=", workspaceId)
+        .where("status", "=", "completed")
+        .where("deleted_at", "is", null)
+        .returning("id")
+        .execute();
+
+      await recordTodoEvents(
+        trx,
+        trashed.map((todo) => ({
+          todoId: todo.id,
+          actorId: userId,
+          type: "deleted" as const,
+          changes: { deletedAt: { before: null, after: deletedAt.toISOString() } },
+        }))
+      );
+      await announceTodoChanges(
+        trx,
+        workspaceId,
+        userId,
+        trashed.map((todo) => ({ type: "todo.deleted" as const, todoId: todo.id }))
+      );
 
-    const deleted = Number(result.numDeletedRows ?? 0);
+      return trashed.length;
+    });
 
     return reply.send({ success: true, data: { deleted } });
   });
@@ -238,6 +772,7 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
     "/:id",
     async (request, reply) => {
       const userId = getCurrentUserId(request);
+      const workspaceId = getCurrentWorkspaceId(request);
       const { id } = request.params;
       const idParseResult = TodoIdSchema.safeParse(id);
 
@@ -275,12 +810,14 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
-      // Check ownership
+      // Check ownership (and keep the prior state for history)
       const existing = await db
         .selectFrom("todos")
-        .select("id")
+        .selectAll()
+        .select(selectTodoAggregates)
         .where("id", "=", idParseResult.data)
-        .where("user_id", "=", userId)
+        .where("workspace_id", "=", workspaceId)
+        .where("deleted_at", "is", null)
         .executeTakeFirst();
 
       if (!existing) {
@@ -297,19 +834,107 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
         updated_at: new Date().toISOString(),
       };
 
-      const { title, description, priority, status, dueDate } = parseResult.data;
+      const {
+        title,
+        description,
+        priority,
+        status,
+        dueDate,
+        tags,
+        projectId,
+        assigneeId,
+        recurrenceRule,
+      } = parseResult.data;
+
+      if (projectId && !(await projectExistsInWorkspace(projectId, workspaceId))) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Project not found",
+          },
+        });
+      }
+
+      if (assigneeId && !(await isWorkspaceMember(db, workspaceId, assigneeId))) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Assignee must be a member of the workspace",
+          },
+        });
+      }
+
       if (title !== undefined) updates.title = title;
       if (description !== undefined) updates.description = description;
       if (priority !== undefined) updates.priority = priority;
       if (status !== undefined) updates.status = status;
       if (dueDate !== undefined) updates.due_date = dueDate ? new Date(dueDate) : null;
+      if (projectId !== undefined) updates.project_id = projectId;
+      if (assigneeId !== undefined) updates.assignee_id = assigneeId;
 
-      const todo = await db
-        .updateTable("todos")
-        .set(updates)
-        .where("id", "=", idParseResult.data)
-        .returningAll()
-        .executeTakeFirstOrThrow();
+      // A new rule restarts the series from the (possibly updated) due date.
+      if (recurrenceRule !== undefined) {
+        const effectiveDueDate =
+          dueDate !== undefined ? (dueDate ? new Date(dueDate) : null) : existing.due_date;
+
+        if (recurrenceRule && !effectiveDueDate) {
+          return reply.status(400).send({
+            success: false,
+            error: {
+              code: "VALIDATION_ERROR",
+              message: "Recurring todos need a due date",
+            },
+          });
+        }
+
+        updates.recurrence_rule = recurrenceRule;
+        updates.recurrence_start = recurrenceRule ? effectiveDueDate : null;
+      }
+
+      const completedNow = status === "completed" && existing.status !== "completed";
+
+      const todo = await db.transaction().execute(async (trx) => {
+        await trx
+          .updateTable("todos")
+          .set(updates)
+          .where("id", "=", idParseResult.data)
+          .execute();
+
+        if (tags !== undefined) {
+          await setTodoTags(trx, workspaceId, userId, idParseResult.data, tags);
+        }
+
+        if (completedNow) {
+          await scheduleNextOccurrence(trx, idParseResult.data, userId);
+        }
+
+        // Re-read so the response includes tags and checklist progress.
+        const row = await trx
+          .selectFrom("todos")
+          .selectAll()
+          .select(selectTodoAggregates)
+          .where("id", "=", idParseResult.data)
+          .executeTakeFirstOrThrow();
+
+        const changes = diffTodoSnapshots(snapshotTodo(existing), snapshotTodo(row));
+        if (Object.keys(changes).length > 0) {
+          await recordTodoEvents(trx, [
+            {
+              todoId: row.id,
+              actorId: userId,
+              type: updateEventType(changes),
+              changes,
+            },
+          ]);
+          await announceTodoChanges(trx, workspaceId, userId, [
+            { type: "todo.updated", todoId: row.id },
+          ]);
+        }
+
+        return row;
+      });
 
       return reply.send({ success: true, data: mapTodo(todo) });
     }
@@ -317,12 +942,118 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
 
   /**
    * DELETE /todos/:id
-   * Deletes a todo.
+   * Moves a todo to the trash. With permanent=true the todo is deleted
+   * outright, whether or not it is already in the trash.
+   */
+  fastify.delete<{ Params: { id: string }; Querystring: { permanent?: string } }>(
+    "/:id",
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const workspaceId = getCurrentWorkspaceId(request);
+      const { id } = request.params;
+      const idParseResult = TodoIdSchema.safeParse(id);
+
+      if (!idParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid todo id",
+            details: idParseResult.error.flatten(),
+          },
+        });
+      }
+
+      const queryParseResult = DeleteTodoSchema.safeParse(request.query);
+      if (!queryParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid query parameters",
+            details: queryParseResult.error.flatten(),
+          },
+        });
+      }
+
+      let affected: bigint;
+      // Permanent deletes take the todo's history with them, so there is
+      // nothing to record.
+      if (queryParseResult.data.permanent) {
+        affected = await db.transaction().execute(async (trx) => {
+          const existing = await trx
+            .selectFrom("todos")
+            .select("id")
+            .where("id", "=", idParseResult.data)
+            .where("workspace_id", "=", workspaceId)
+            .forUpdate()
+            .executeTakeFirst();
+
+          if (!existing) return BigInt(0);
+
+          // Announce first, while webhook payloads can still load the todo.
+          await announceTodoChanges(trx, workspaceId, userId, [
+            { type: "todo.deleted", todoId: existing.id },
+          ]);
+
+          const result = await trx
+            .deleteFrom("todos")
+            .where("id", "=", existing.id)
+            .executeTakeFirst();
+
+          return result.numDeletedRows;
+        });
+      } else {
+        affected = await db.transaction().execute(async (trx) => {
+          const deletedAt = new Date();
+          const result = await trx
+            .updateTable("todos")
+            .set({ deleted_at: deletedAt })
+            .where("id", "=", idParseResult.data)
+            .where("workspace_id", "=", workspaceId)
+            .where("deleted_at", "is", null)
+            .executeTakeFirst();
+
+          if (result.numUpdatedRows > BigInt(0)) {
+            await recordTodoEvents(trx, [
+              {
+                todoId: idParseResult.data,
+                actorId: userId,
+                type: "deleted",
+                changes: { deletedAt: { before: null, after: deletedAt.toISOString() } },
+              },
+            ]);
+            await announceTodoChanges(trx, workspaceId, userId, [
+              { type: "todo.deleted", todoId: idParseResult.data },
+            ]);
+          }
+
+          return result.numUpdatedRows;
+        });
+      }
+
+      if (affected === BigInt(0)) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Todo not found",
+          },
+        });
+      }
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * POST /todos/:id/restore
+   * Moves a trashed todo back out of the trash.
    */
-  fastify.delete<{ Params: { id: string } }>("/:id", async (request, reply) => {
+  fastify.post<{ Params: { id: string } }>("/:id/restore", async (request, reply) => {
     const userId = getCurrentUserId(request);
-    const { id } = request.params;
-    const idParseResult = TodoIdSchema.safeParse(id);
+    const workspaceId = getCurrentWorkspaceId(request);
+    const idParseResult = TodoIdSchema.safeParse(request.params.id);
 
     if (!idParseResult.success) {
       return reply.status(400).send({
@@ -335,15 +1066,431 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
       });
     }
 
-    const result = await db
-      .deleteFrom("todos")
-      .where("id", "=", idParseResult.data)
-      .where("user_id", "=", userId)
-      .executeTakeFirst();
+    const todo = await db.transaction().execute(async (trx) => {
+      const trashed = await trx
+        .selectFrom("todos")
+        .select(["id", "deleted_at"])
+        .where("id", "=", idParseResult.data)
+        .where("workspace_id", "=", workspaceId)
+        .where("deleted_at", "is not", null)
+        .forUpdate()
+        .executeTakeFirst();
 
-    if (result.numDeletedRows === BigInt(0)) {
-      return reply.status(404).send({
-        success: false,
+      if (!trashed) return undefined;
+
+      await trx
+        .updateTable("todos")
+        .set({ deleted_at: null, updated_at: new Date().toISOString() })
+        .where("id", "=", trashed.id)
+        .execute();
+
+      await recordTodoEvents(trx, [
+        {
+          todoId: trashed.id,
+          actorId: userId,
+          type: "restored",
+          changes: {
+            deletedAt: { before: trashed.deleted_at?.toISOString() ?? null, after: null },
+          },
+        },
+      ]);
+      await announceTodoChanges(trx, workspaceId, userId, [
+        { type: "todo.created", todoId: trashed.id },
+      ]);
+
+      // Re-read so the response includes tags and checklist progress.
+      return trx
+        .selectFrom("todos")
+        .selectAll()
+        .select(selectTodoAggregates)
+        .where("id", "=", trashed.id)
+        .executeTakeFirstOrThrow();
+    });
+
+    if (!todo) {
+      return reply.status(404).send({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Todo not found in trash",
+        },
+      });
+    }
+
+    return reply.send({ success: true, data: mapTodo(todo) });
+  });
+
+  /**
+   * GET /todos/:id/history
+   * Lists a todo's activity history, newest first. Trashed todos keep
+   * their history until they are purged.
+   */
+  fastify.get<{ Params: { id: string } }>("/:id/history", async (request, reply) => {
+    const workspaceId = getCurrentWorkspaceId(request);
+    const idParseResult = TodoIdSchema.safeParse(request.params.id);
+
+    if (!idParseResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid todo id",
+          details: idParseResult.error.flatten(),
+        },
+      });
+    }
+
+    if (!(await todoExistsInWorkspace(idParseResult.data, workspaceId, { includeDeleted: true }))) {
+      return reply.status(404).send({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Todo not found",
+        },
+      });
+    }
+
+    const events = await listTodoEvents(db, idParseResult.data);
+
+    return reply.send({ success: true, data: events });
+  });
+
+  /**
+   * GET /todos/:id/subtasks
+   * Lists the checklist items for a todo in display order.
+   */
+  fastify.get<{ Params: { id: string } }>("/:id/subtasks", async (request, reply) => {
+    const workspaceId = getCurrentWorkspaceId(request);
+    const idParseResult = TodoIdSchema.safeParse(request.params.id);
+
+    if (!idParseResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid todo id",
+          details: idParseResult.error.flatten(),
+        },
+      });
+    }
+
+    if (!(await todoExistsInWorkspace(idParseResult.data, workspaceId))) {
+      return reply.status(404).send({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Todo not found",
+        },
+      });
+    }
+
+    const subtasks = await db
+      .selectFrom("todo_subtasks")
+      .selectAll()
+      .where("todo_id", "=", idParseResult.data)
+      .orderBy("position", "asc")
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return reply.send({ success: true, data: subtasks.map(mapSubtask) });
+  });
+
+  /**
+   * POST /todos/:id/subtasks
+   * Appends a checklist item to a todo.
+   */
+  fastify.post<{ Params: { id: string }; Body: CreateSubtaskInput }>(
+    "/:id/subtasks",
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const workspaceId = getCurrentWorkspaceId(request);
+      const idParseResult = TodoIdSchema.safeParse(request.params.id);
+
+      if (!idParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid todo id",
+            details: idParseResult.error.flatten(),
+          },
+        });
+      }
+
+      // Validate input
+      const parseResult = CreateSubtaskSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      if (!(await todoExistsInWorkspace(idParseResult.data, workspaceId))) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Todo not found",
+          },
+        });
+      }
+
+      // New items go to the end of the checklist.
+      const positionResult = await db
+        .selectFrom("todo_subtasks")
+        .select(db.fn.max("position").as("maxPosition"))
+        .where("todo_id", "=", idParseResult.data)
+        .executeTakeFirst();
+
+      const maxPosition = positionResult?.maxPosition;
+      const position = maxPosition === null || maxPosition === undefined ? 0 : Number(maxPosition) + 1;
+
+      const subtask = await db.transaction().execute(async (trx) => {
+        const created = await trx
+          .insertInto("todo_subtasks")
+          .values({
+            todo_id: idParseResult.data,
+            title: parseResult.data.title,
+            position,
+          })
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        await recordTodoEvents(trx, [
+          {
+            todoId: idParseResult.data,
+            actorId: userId,
+            type: "updated",
+            changes: { subtask: { before: null, after: snapshotSubtask(created) } },
+          },
+        ]);
+        await announceTodoChanges(trx, workspaceId, userId, [
+          { type: "todo.updated", todoId: idParseResult.data },
+        ]);
+
+        return created;
+      });
+
+      return reply.status(201).send({ success: true, data: mapSubtask(subtask) });
+    }
+  );
+
+  /**
+   * PATCH /todos/:id/subtasks/:subtaskId
+   * Updates a checklist item. With `completeParent`, finishing the last
+   * open item also marks the parent todo completed.
+   */
+  fastify.patch<{ Params: { id: string; subtaskId: string }; Body: UpdateSubtaskInput }>(
+    "/:id/subtasks/:subtaskId",
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const workspaceId = getCurrentWorkspaceId(request);
+      const paramsParseResult = SubtaskParamsSchema.safeParse(request.params);
+
+      if (!paramsParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid todo or subtask id",
+            details: paramsParseResult.error.flatten(),
+          },
+        });
+      }
+
+      // Validate input
+      const parseResult = UpdateSubtaskSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const { title, completed, position, completeParent } = parseResult.data;
+      if (title === undefined && completed === undefined && position === undefined) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "No fields provided to update",
+          },
+        });
+      }
+
+      const { id: todoId, subtaskId } = paramsParseResult.data;
+      if (!(await todoExistsInWorkspace(todoId, workspaceId))) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Todo not found",
+          },
+        });
+      }
+
+      const updates: Record<string, unknown> = {
+        updated_at: new Date().toISOString(),
+      };
+
+      if (title !== undefined) updates.title = title;
+      if (completed !== undefined) updates.completed = completed;
+      if (position !== undefined) updates.position = position;
+
+      const existing = await db
+        .selectFrom("todo_subtasks")
+        .selectAll()
+        .where("id", "=", subtaskId)
+        .where("todo_id", "=", todoId)
+        .executeTakeFirst();
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Subtask not found",
+          },
+        });
+      }
+
+      const subtask = await db.transaction().execute(async (trx) => {
+        const updated = await trx
+          .updateTable("todo_subtasks")
+          .set(updates)
+          .where("id", "=", subtaskId)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        // Reordering alone isn't worth a history entry.
+        const before = snapshotSubtask(existing);
+        const after = snapshotSubtask(updated);
+        if (JSON.stringify(before) !== JSON.stringify(after)) {
+          await recordTodoEvents(trx, [
+            {
+              todoId,
+              actorId: userId,
+              type: "updated",
+              changes: { subtask: { before, after } },
+            },
+          ]);
+        }
+
+        if (completeParent && updated.completed) {
+          await completeTodoIfChecklistDone(trx, todoId, userId);
+        }
+
+        // Progress counts (and maybe the status) changed.
+        await announceTodoChanges(trx, workspaceId, userId, [{ type: "todo.updated", todoId }]);
+
+        return updated;
+      });
+
+      return reply.send({ success: true, data: mapSubtask(subtask) });
+    }
+  );
+
+  /**
+   * DELETE /todos/:id/subtasks/:subtaskId
+   * Removes a checklist item.
+   */
+  fastify.delete<{ Params: { id: string; subtaskId: string } }>(
+    "/:id/subtasks/:subtaskId",
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const workspaceId = getCurrentWorkspaceId(request);
+      const paramsParseResult = SubtaskParamsSchema.safeParse(request.params);
+
+      if (!paramsParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid todo or subtask id",
+            details: paramsParseResult.error.flatten(),
+          },
+        });
+      }
+
+      const { id: todoId, subtaskId } = paramsParseResult.data;
+      if (!(await todoExistsInWorkspace(todoId, workspaceId))) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Todo not found",
+          },
+        });
+      }
+
+      const removed = await db.transaction().execute(async (trx) => {
+        const deleted = await trx
+          .deleteFrom("todo_subtasks")
+          .where("id", "=", subtaskId)
+          .where("todo_id", "=", todoId)
+          .returningAll()
+          .executeTakeFirst();
+
+        if (deleted) {
+          await recordTodoEvents(trx, [
+            {
+              todoId,
+              actorId: userId,
+              type: "updated",
+              changes: { subtask: { before: snapshotSubtask(deleted), after: null } },
+            },
+          ]);
+          await announceTodoChanges(trx, workspaceId, userId, [{ type: "todo.updated", todoId }]);
+        }
+
+        return deleted;
+      });
+
+      if (!removed) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Subtask not found",
+          },
+        });
+      }
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * GET /todos/:id/comments
+   * Lists a todo's comments, oldest first.
+   */
+  fastify.get<{ Params: { id: string } }>("/:id/comments", async (request, reply) => {
+    const workspaceId = getCurrentWorkspaceId(request);
+    const idParseResult = TodoIdSchema.safeParse(request.params.id);
+
+    if (!idParseResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid todo id",
+          details: idParseResult.error.flatten(),
+        },
+      });
+    }
+
+    if (!(await todoExistsInWorkspace(idParseResult.data, workspaceId))) {
+      return reply.status(404).send({
+        success: false,
         error: {
           code: "NOT_FOUND",
           message: "Todo not found",
@@ -351,8 +1498,504 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
       });
     }
 
-    return reply.status(204).send();
+    const comments = await selectComments(db)
+      .where("todo_comments.todo_id", "=", idParseResult.data)
+      .orderBy("todo_comments.created_at", "asc")
+      .execute();
+
+    return reply.send({ success: true, data: comments.map(mapComment) });
   });
+
+  /**
+   * POST /todos/:id/comments
+   * Adds a comment. Workspace members @mentioned by email are notified.
+   */
+  fastify.post<{ Params: { id: string }; Body: CommentInput }>(
+    "/:id/comments",
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const workspaceId = getCurrentWorkspaceId(request);
+      const idParseResult = TodoIdSchema.safeParse(request.params.id);
+
+      if (!idParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid todo id",
+            details: idParseResult.error.flatten(),
+          },
+        });
+      }
+
+      // Validate input
+      const parseResult = CommentInputSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const todoId = idParseResult.data;
+      if (!(await todoExistsInWorkspace(todoId, workspaceId))) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Todo not found",
+          },
+        });
+      }
+
+      const commentId = await db.transaction().execute(async (trx) => {
+        const created = await trx
+          .insertInto("todo_comments")
+          .values({ todo_id: todoId, author_id: userId, body: parseResult.data.body })
+          .returning("id")
+          .executeTakeFirstOrThrow();
+
+        await recordMentions(trx, {
+          id: created.id,
+          todoId,
+          workspaceId,
+          authorId: userId,
+          body: parseResult.data.body,
+        });
+        // The todo's comment count changed.
+        await announceTodoChanges(trx, workspaceId, userId, [{ type: "todo.updated", todoId }]);
+
+        return created.id;
+      });
+
+      const comment = await selectComments(db)
+        .where("todo_comments.id", "=", commentId)
+        .executeTakeFirstOrThrow();
+
+      return reply.status(201).send({ success: true, data: mapComment(comment) });
+    }
+  );
+
+  /**
+   * PATCH /todos/:id/comments/:commentId
+   * Edits a comment. Only its author may. Newly added mentions notify.
+   */
+  fastify.patch<{ Params: { id: string; commentId: string }; Body: CommentInput }>(
+    "/:id/comments/:commentId",
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const workspaceId = getCurrentWorkspaceId(request);
+      const paramsParseResult = CommentParamsSchema.safeParse(request.params);
+
+      if (!paramsParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid todo or comment id",
+            details: paramsParseResult.error.flatten(),
+          },
+        });
+      }
+
+      // Validate input
+      const parseResult = CommentInputSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const { id: todoId, commentId } = paramsParseResult.data;
+      if (!(await todoExistsInWorkspace(todoId, workspaceId))) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Todo not found",
+          },
+        });
+      }
+
+      const existing = await db
+        .selectFrom("todo_comments")
+        .selectAll()
+        .where("id", "=", commentId)
+        .where("todo_id", "=", todoId)
+        .executeTakeFirst();
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Comment not found",
+          },
+        });
+      }
+
+      if (existing.author_id !== userId) {
+        return reply.status(403).send({
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: "You can only edit your own comments",
+          },
+        });
+      }
+
+      await db.transaction().execute(async (trx) => {
+        await trx
+          .updateTable("todo_comments")
+          .set({ body: parseResult.data.body, updated_at: new Date().toISOString() })
+          .where("id", "=", commentId)
+          .execute();
+
+        await recordMentions(trx, {
+          id: commentId,
+          todoId,
+          workspaceId,
+          authorId: userId,
+          body: parseResult.data.body,
+          previousBody: existing.body,
+        });
+      });
+
+      const comment = await selectComments(db)
+        .where("todo_comments.id", "=", commentId)
+        .executeTakeFirstOrThrow();
+
+      return reply.send({ success: true, data: mapComment(comment) });
+    }
+  );
+
+  /**
+   * DELETE /todos/:id/comments/:commentId
+   * Deletes a comment. Only its author may.
+   */
+  fastify.delete<{ Params: { id: string; commentId: string } }>(
+    "/:id/comments/:commentId",
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+      const workspaceId = getCurrentWorkspaceId(request);
+      const paramsParseResult = CommentParamsSchema.safeParse(request.params);
+
+      if (!paramsParseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid todo or comment id",
+            details: paramsParseResult.error.flatten(),
+          },
+        });
+      }
+
+      const { id: todoId, commentId } = paramsParseResult.data;
+      if (!(await todoExistsInWorkspace(todoId, workspaceId))) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Todo not found",
+          },
+        });
+      }
+
+      const existing = await db
+        .selectFrom("todo_comments")
+        .select("author_id")
+        .where("id", "=", commentId)
+        .where("todo_id", "=", todoId)
+        .executeTakeFirst();
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Comment not found",
+          },
+        });
+      }
+
+      if (existing.author_id !== userId) {
+        return reply.status(403).send({
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: "You can only delete your own comments",
+          },
+        });
+      }
+
+      await db.transaction().execute(async (trx) => {
+        await trx.deleteFrom("todo_comments").where("id", "=", commentId).execute();
+        await announceTodoChanges(trx, workspaceId, userId, [{ type: "todo.updated", todoId }]);
+      });
+
+      return reply.status(204).send();
+    }
+  );
+}
+
+/**
+ * Tells /events subscribers and webhooks about todo changes. Call inside
+ * the transaction making them, after they're written.
+ */
+async function announceTodoChanges(
+  trx: Kysely<Database>,
+  workspaceId: string,
+  actorId: string | null,
+  changes: TodoChange[]
+): Promise<void> {
+  await publishTodoChanges(trx, workspaceId, actorId, changes);
+  await enqueueWebhookDeliveries(trx, workspaceId, actorId, changes);
+}
+
+/**
+ * Checks that a todo exists in the workspace.
+ * Trashed todos only count when includeDeleted is set.
+ */
+async function todoExistsInWorkspace(
+  todoId: string,
+  workspaceId: string,
+  options: { includeDeleted?: boolean } = {}
+): Promise<boolean> {
+  let query = db
+    .selectFrom("todos")
+    .select("id")
+    .where("id", "=", todoId)
+    .where("workspace_id", "=", workspaceId);
+
+  if (!options.includeDeleted) {
+    query = query.where("deleted_at", "is", null);
+  }
+
+  const todo = await query.executeTakeFirst();
+
+  return Boolean(todo);
+}
+
+/**
+ * Checks that a project exists in the workspace.
+ */
+async function projectExistsInWorkspace(projectId: string, workspaceId: string): Promise<boolean> {
+  const project = await db
+    .selectFrom("projects")
+    .select("id")
+    .where("id", "=", projectId)
+    .where("workspace_id", "=", workspaceId)
+    .executeTakeFirst();
+
+  return Boolean(project);
+}
+
+/**
+ * Marks a todo completed once every one of its subtasks is done, scheduling
+ * its next occurrence if it recurs.
+ */
+async function completeTodoIfChecklistDone(
+  trx: Kysely<Database>,
+  todoId: string,
+  actorId: string
+): Promise<void> {
+  const openResult = await trx
+    .selectFrom("todo_subtasks")
+    .select(trx.fn.countAll().as("count"))
+    .where("todo_id", "=", todoId)
+    .where("completed", "=", false)
+    .executeTakeFirst();
+
+  if (Number(openResult?.count || 0) > 0) {
+    return;
+  }
+
+  const todo = await trx
+    .selectFrom("todos")
+    .select("status")
+    .where("id", "=", todoId)
+    .where("status", "!=", "completed")
+    .forUpdate()
+    .executeTakeFirst();
+
+  if (!todo) {
+    return;
+  }
+
+  await trx
+    .updateTable("todos")
+    .set({
+      status: "completed",
+      updated_at: new Date().toISOString(),
+    })
+    .where("id", "=", todoId)
+    .execute();
+
+  await recordTodoEvents(trx, [
+    {
+      todoId,
+      actorId,
+      type: "status_changed",
+      changes: { status: { before: todo.status, after: "completed" } },
+    },
+  ]);
+
+  await scheduleNextOccurrence(trx, todoId, actorId);
+}
+
+/**
+ * Replaces a todo's tags, creating any tag names the workspace hasn't used
+ * yet (credited to the user).
+ */
+async function setTodoTags(
+  trx: Kysely<Database>,
+  workspaceId: string,
+  userId: string,
+  todoId: string,
+  names: string[]
+): Promise<void> {
+  const uniqueNames = Array.from(new Set(names));
+
+  await trx.deleteFrom("todo_tags").where("todo_id", "=", todoId).execute();
+
+  if (uniqueNames.length === 0) {
+    return;
+  }
+
+  await trx
+    .insertInto("tags")
+    .values(uniqueNames.map((name) => ({ workspace_id: workspaceId, user_id: userId, name })))
+    .onConflict((oc) => oc.columns(["workspace_id", "name"]).doNothing())
+    .execute();
+
+  const tags = await trx
+    .selectFrom("tags")
+    .select("id")
+    .where("workspace_id", "=", workspaceId)
+    .where("name", "in", uniqueNames)
+    .execute();
+
+  await trx
+    .insertInto("todo_tags")
+    .values(tags.map((tag) => ({ todo_id: todoId, tag_id: tag.id })))
+    .execute();
+}
+
+/**
+ * Creates the next occurrence of a recurring todo that was just completed.
+ * The new todo carries the rule, tags and (unchecked) checklist forward;
+ * the completed todo drops its rule so re-completing it can't fork the series.
+ */
+async function scheduleNextOccurrence(
+  trx: Kysely<Database>,
+  todoId: string,
+  actorId: string
+): Promise<void> {
+  const current = await trx
+    .selectFrom("todos")
+    .selectAll()
+    .where("id", "=", todoId)
+    .executeTakeFirstOrThrow();
+
+  if (!current.recurrence_rule || !current.due_date) {
+    return;
+  }
+
+  const dueDate = nextOccurrence(
+    parseRecurrenceRule(current.recurrence_rule),
+    current.recurrence_start ?? current.due_date,
+    current.due_date
+  );
+
+  // The series has ended (COUNT reached or past UNTIL).
+  if (!dueDate) {
+    return;
+  }
+
+  const next = await trx
+    .insertInto("todos")
+    .values({
+      workspace_id: current.workspace_id,
+      user_id: current.user_id,
+      title: current.title,
+      description: current.description,
+      priority: current.priority,
+      status: "pending",
+      due_date: dueDate,
+      project_id: current.project_id,
+      assignee_id: current.assignee_id,
+      recurrence_rule: current.recurrence_rule,
+      recurrence_start: current.recurrence_start ?? current.due_date,
+    })
+    .returning("id")
+    .executeTakeFirstOrThrow();
+
+  const tagLinks = await trx
+    .selectFrom("todo_tags")
+    .select("tag_id")
+    .where("todo_id", "=", todoId)
+    .execute();
+
+  if (tagLinks.length > 0) {
+    await trx
+      .insertInto("todo_tags")
+      .values(tagLinks.map((link) => ({ todo_id: next.id, tag_id: link.tag_id })))
+      .execute();
+  }
+
+  const subtasks = await trx
+    .selectFrom("todo_subtasks")
+    .select(["title", "position"])
+    .where("todo_id", "=", todoId)
+    .execute();
+
+  if (subtasks.length > 0) {
+    await trx
+      .insertInto("todo_subtasks")
+      .values(
+        subtasks.map((subtask) => ({
+          todo_id: next.id,
+          title: subtask.title,
+          position: subtask.position,
+        }))
+      )
+      .execute();
+  }
+
+  const created = await trx
+    .selectFrom("todos")
+    .selectAll()
+    .select(selectTodoAggregates)
+    .where("id", "=", next.id)
+    .executeTakeFirstOrThrow();
+
+  await recordTodoEvents(trx, [
+    {
+      todoId: next.id,
+      actorId,
+      type: "created",
+      changes: diffTodoSnapshots(null, snapshotTodo(created)),
+    },
+  ]);
+  await announceTodoChanges(trx, current.workspace_id, actorId, [
+    { type: "todo.created", todoId: next.id },
+  ]);
+
+  await trx
+    .updateTable("todos")
+    .set({ recurrence_rule: null, recurrence_start: null })
+    .where("id", "=", todoId)
+    .execute();
 }
 
 /**
@@ -360,7 +2003,10 @@ export async function todoRoutes(fastify: FastifyInstance): Promise<void> {
  */
 function applyTodoFilters(
   query: SelectQueryBuilder<Database, "todos", {}>,
-  filters: Pick<ListTodosQuery, "status" | "priority" | "search">
+  filters: Pick<
+    ListTodosQuery,
+    "status" | "priority" | "search" | "tag" | "tags" | "tagMatch" | "projectId" | "assignee"
+  >
 ) {
   // Keep filters explicit so we can reuse the query for count + data.
   let filteredQuery = query;
@@ -375,33 +2021,125 @@ function applyTodoFilters(
     filteredQuery = filteredQuery.where("priority", "=", filters.priority);
   }
 
-  // Search matches title or description text (case-insensitive).
+  // Full-text search over title and description (stemmed, GIN-indexed).
   if (filters.search) {
-    const pattern = `%${filters.search}%`;
-    filteredQuery = filteredQuery.where((eb) =>
-      eb.or([
-        eb("title", "ilike", pattern),
-        eb("description", "ilike", pattern),
-      ])
+    filteredQuery = filteredQuery.where(
+      sql<boolean>`search_vector @@ ${websearchQuery(filters.search)}`
     );
   }
 
+  // Project filter; "inbox" selects todos without a project.
+  if (filters.projectId === "inbox") {
+    filteredQuery = filteredQuery.where("project_id", "is", null);
+  } else if (filters.projectId) {
+    filteredQuery = filteredQuery.where("project_id", "=", filters.projectId);
+  }
+
+  // Assignee filter; callers resolve "me" to the user's id first.
+  if (filters.assignee === "unassigned") {
+    filteredQuery = filteredQuery.where("assignee_id", "is", null);
+  } else if (filters.assignee) {
+    filteredQuery = filteredQuery.where("assignee_id", "=", filters.assignee);
+  }
+
+  // Tag filter matches todos carrying any (or all) of the requested tags.
+  const tagNames = Array.from(
+    new Set([...(filters.tag ? [filters.tag] : []), ...(filters.tags ?? [])])
+  );
+  if (tagNames.length > 0) {
+    let taggedTodoIds = db
+      .selectFrom("todo_tags")
+      .innerJoin("tags", "tags.id", "todo_tags.tag_id")
+      .select("todo_tags.todo_id")
+      .where("tags.name", "in", tagNames);
+
+    if (filters.tagMatch === "all") {
+      taggedTodoIds = taggedTodoIds
+        .groupBy("todo_tags.todo_id")
+        .having((eb) => eb.fn.count("tags.id").distinct(), "=", tagNames.length);
+    }
+
+    filteredQuery = filteredQuery.where("id", "in", taggedTodoIds);
+  }
+
   return filteredQuery;
 }
 
 /**
- * Maps database row to API response shape.
+ * The expression a cursor page is ordered by, and its SQL type for
+ * casting cursor values back. Null due dates sort as 'infinity', which
+ * matches Postgres's default NULLS LAST (asc) / NULLS FIRST (desc).
+ */
+function cursorSortKey(
+  sortBy: ListTodosQuery["sortBy"],
+  searchQuery: RawBuilder<unknown> | null
+): { expression: RawBuilder<unknown>; type: string } {
+  switch (sortBy) {
+    case "relevance":
+      // Without a search there is nothing to rank; fall back to newest first.
+      return searchQuery
+        ? { expression: sql`ts_rank(search_vector, ${searchQuery})`, type: "real" }
+        : { expression: sql`todos.created_at`, type: "timestamptz" };
+    case "dueDate":
+      return {
+        expression: sql`coalesce(todos.due_date, 'infinity'::timestamptz)`,
+        type: "timestamptz",
+      };
+    case "priority":
+      return { expression: PRIORITY_RANK, type: "integer" };
+    case "createdAt":
+    case "updatedAt":
+      return { expression: sql.ref(`todos.${SORT_COLUMN_MAP[sortBy]}`), type: "timestamptz" };
+    default:
+      return { expression: sql.ref(`todos.${SORT_COLUMN_MAP[sortBy]}`), type: "text" };
+  }
+}
+
+/**
+ * Encodes a list position as an opaque, URL-safe cursor.
+ */
+function encodeCursor(cursor: TodoCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor, returning null when it is malformed.
+ */
+function decodeCursor(value: string): TodoCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    const parseResult = TodoCursorSchema.safeParse(decoded);
+    return parseResult.success ? parseResult.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses search input with web-search syntax: "quoted phrases", -exclusions
+ * and OR are supported, and malformed input never raises an error.
+ */
+function websearchQuery(search: string): RawBuilder<unknown> {
+  return sql`websearch_to_tsquery('english', ${search})`;
+}
+
+/**
+ * Selects highlighted title and description snippets for a search.
+ */
+function selectSearchHighlights(searchQuery: RawBuilder<unknown>) {
+  return [
+    sql<string>`ts_headline('english', title, ${searchQuery}, ${TITLE_HEADLINE_OPTIONS})`
+      .as("title_highlight"),
+    sql<string | null>`
+      case when description is null then null
+      else ts_headline('english', description, ${searchQuery}, ${DESCRIPTION_HEADLINE_OPTIONS})
+      end`.as("description_highlight"),
+  ];
+}
+
+/**
+ * The parts of a checklist item recorded in todo history.
  */
-function mapTodo(row: any): Todo {
-  return {
-    id: row.id,
-    userId: row.user_id,
-    title: row.title,
-    description: row.description,
-    priority: row.priority,
-    status: row.status,
-    dueDate: row.due_date,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-  };
+function snapshotSubtask(row: { title: string; completed: boolean }) {
+  return { title: row.title, completed: row.completed };
 }
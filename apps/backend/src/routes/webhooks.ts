@@ -0,0 +1,327 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { db } from "../db/database.js";
+import {
+  authenticate,
+  getCurrentUserId,
+  requireSessionToken,
+  requireVerifiedEmailForWrites,
+} from "../middleware/auth.js";
+import {
+  getCurrentWorkspaceId,
+  requireWorkspacePermission,
+  resolveWorkspaceParam,
+} from "../middleware/workspace.js";
+import { encryptSecret } from "../services/tokens.js";
+import {
+  attemptWebhookDelivery,
+  checkWebhookTarget,
+  createTestDelivery,
+  failPendingDeliveries,
+  mapWebhook,
+  mapWebhookDelivery,
+} from "../services/webhooks.js";
+import {
+  CreateWebhookSchema,
+  UpdateWebhookSchema,
+  type CreateWebhookInput,
+  type UpdateWebhookInput,
+} from "@martian-todos/shared";
+
+const WebhookParamsSchema = z.object({
+  id: z.string().uuid(),
+  webhookId: z.string().uuid(),
+});
+
+// The delivery log shows this many of the most recent deliveries.
+const DELIVERY_LOG_LIMIT = 50;
+
+type WebhookParams = { id: string; webhookId: string };
+
+/**
+ * Finds one of the workspace's webhooks.
+ */
+function findWebhook(workspaceId: string, webhookId: string) {
+  return db
+    .selectFrom("webhooks")
+    .selectAll()
+    .where("id", "=", webhookId)
+    .where("workspace_id", "=", workspaceId)
+    .executeTakeFirst();
+}
+
+/**
+ * Webhook routes plugin, mounted under /workspaces/:id/webhooks. Owners
+ * register endpoints that receive the workspace's todo changes.
+ */
+export async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
+  fastify.addHook("preHandler", authenticate);
+  fastify.addHook("preHandler", requireSessionToken);
+  fastify.addHook("preHandler", requireVerifiedEmailForWrites);
+  fastify.addHook("preHandler", resolveWorkspaceParam);
+  fastify.addHook("preHandler", requireWorkspacePermission("webhooks:manage"));
+
+  /**
+   * GET /workspaces/:id/webhooks
+   * Lists the workspace's webhooks, oldest first.
+   */
+  fastify.get("/", async (request, reply) => {
+    const webhooks = await db
+      .selectFrom("webhooks")
+      .selectAll()
+      .where("workspace_id", "=", getCurrentWorkspaceId(request))
+      .orderBy("created_at", "asc")
+      .execute();
+
+    return reply.send({ success: true, data: webhooks.map(mapWebhook) });
+  });
+
+  /**
+   * POST /workspaces/:id/webhooks
+   * Registers a webhook for the chosen todo events.
+   */
+  fastify.post<{ Body: CreateWebhookInput }>("/", async (request, reply) => {
+    const parseResult = CreateWebhookSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid input",
+          details: parseResult.error.flatten(),
+        },
+      });
+    }
+
+    const { url, secret, events } = parseResult.data;
+    const targetError = await checkWebhookTarget(url);
+    if (targetError) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: targetError,
+        },
+      });
+    }
+
+    const webhook = await db
+      .insertInto("webhooks")
+      .values({
+        workspace_id: getCurrentWorkspaceId(request),
+        created_by: getCurrentUserId(request),
+        url,
+        secret: encryptSecret(secret),
+        events,
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return reply.status(201).send({ success: true, data: mapWebhook(webhook) });
+  });
+
+  /**
+   * PATCH /workspaces/:id/webhooks/:webhookId
+   * Changes the URL, secret or events, or turns the webhook on or off.
+   * Turning it back on clears its failure count.
+   */
+  fastify.patch<{ Params: WebhookParams; Body: UpdateWebhookInput }>(
+    "/:webhookId",
+    async (request, reply) => {
+      const paramsResult = WebhookParamsSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid webhook id",
+            details: paramsResult.error.flatten(),
+          },
+        });
+      }
+
+      const parseResult = UpdateWebhookSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const existing = await findWebhook(
+        getCurrentWorkspaceId(request),
+        paramsResult.data.webhookId
+      );
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Webhook not found",
+          },
+        });
+      }
+
+      const { url, secret, events, enabled } = parseResult.data;
+      const targetError = url !== undefined ? await checkWebhookTarget(url) : null;
+      if (targetError) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: targetError,
+          },
+        });
+      }
+
+      const enabling = enabled === true && !existing.enabled;
+      const disabling = enabled === false && existing.enabled;
+
+      const webhook = await db.transaction().execute(async (trx) => {
+        const updated = await trx
+          .updateTable("webhooks")
+          .set({
+            ...(url !== undefined && { url }),
+            ...(secret !== undefined && { secret: encryptSecret(secret) }),
+            ...(events !== undefined && { events }),
+            ...(enabling && { enabled: true, consecutive_failures: 0, disabled_at: null }),
+            ...(disabling && { enabled: false, disabled_at: new Date() }),
+            updated_at: new Date().toISOString(),
+          })
+          .where("id", "=", existing.id)
+          .returningAll()
+          .executeTakeFirstOrThrow();
+
+        if (disabling) {
+          await failPendingDeliveries(trx, existing.id, "Webhook disabled");
+        }
+
+        return updated;
+      });
+
+      return reply.send({ success: true, data: mapWebhook(webhook) });
+    }
+  );
+
+  /**
+   * DELETE /workspaces/:id/webhooks/:webhookId
+   * Deletes a webhook and its delivery log.
+   */
+  fastify.delete<{ Params: WebhookParams }>("/:webhookId", async (request, reply) => {
+    const paramsResult = WebhookParamsSchema.safeParse(request.params);
+    if (!paramsResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid webhook id",
+          details: paramsResult.error.flatten(),
+        },
+      });
+    }
+
+    const result = await db
+      .deleteFrom("webhooks")
+      .where("id", "=", paramsResult.data.webhookId)
+      .where("workspace_id", "=", getCurrentWorkspaceId(request))
+      .executeTakeFirst();
+
+    if (result.numDeletedRows === BigInt(0)) {
+      return reply.status(404).send({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Webhook not found",
+        },
+      });
+    }
+
+    return reply.status(204).send();
+  });
+
+  /**
+   * GET /workspaces/:id/webhooks/:webhookId/deliveries
+   * The most recent deliveries, newest first, with the outcome of their
+   * latest attempt.
+   */
+  fastify.get<{ Params: WebhookParams }>("/:webhookId/deliveries", async (request, reply) => {
+    const paramsResult = WebhookParamsSchema.safeParse(request.params);
+    if (!paramsResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid webhook id",
+          details: paramsResult.error.flatten(),
+        },
+      });
+    }
+
+    const webhook = await findWebhook(getCurrentWorkspaceId(request), paramsResult.data.webhookId);
+    if (!webhook) {
+      return reply.status(404).send({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Webhook not found",
+        },
+      });
+    }
+
+    const deliveries = await db
+      .selectFrom("webhook_deliveries")
+      .selectAll()
+      .where("webhook_id", "=", webhook.id)
+      .orderBy("created_at", "desc")
+      .limit(DELIVERY_LOG_LIMIT)
+      .execute();
+
+    return reply.send({ success: true, data: deliveries.map(mapWebhookDelivery) });
+  });
+
+  /**
+   * POST /workspaces/:id/webhooks/:webhookId/test
+   * Sends a `webhook.test` event right away and returns the delivery.
+   * Works on disabled webhooks too, to check an endpoint before turning
+   * it back on. Test events aren't retried.
+   */
+  fastify.post<{ Params: WebhookParams }>("/:webhookId/test", async (request, reply) => {
+    const paramsResult = WebhookParamsSchema.safeParse(request.params);
+    if (!paramsResult.success) {
+      return reply.status(400).send({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid webhook id",
+          details: paramsResult.error.flatten(),
+        },
+      });
+    }
+
+    const webhook = await findWebhook(getCurrentWorkspaceId(request), paramsResult.data.webhookId);
+    if (!webhook) {
+      return reply.status(404).send({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Webhook not found",
+        },
+      });
+    }
+
+    const deliveryId = await createTestDelivery(db, webhook, getCurrentUserId(request));
+    await attemptWebhookDelivery(deliveryId);
+
+    const delivery = await db
+      .selectFrom("webhook_deliveries")
+      .selectAll()
+      .where("id", "=", deliveryId)
+      .executeTakeFirstOrThrow();
+
+    return reply.send({ success: true, data: mapWebhookDelivery(delivery) });
+  });
+}
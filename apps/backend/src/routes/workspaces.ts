@@ -0,0 +1,684 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { db } from "../db/database.js";
+import {
+  authenticate,
+  getCurrentUserId,
+  requireSessionToken,
+  requireTodoScope,
+  requireVerifiedEmailForWrites,
+} from "../middleware/auth.js";
+import {
+  getCurrentWorkspace,
+  getCurrentWorkspaceId,
+  requireWorkspacePermission,
+  resolveWorkspaceParam,
+} from "../middleware/workspace.js";
+import { can, deniedMessage } from "../services/workspacePolicy.js";
+import { generateToken, hashToken } from "../services/tokens.js";
+import {
+  countOwners,
+  createWorkspace,
+  getInvitationExpiresAt,
+  mapWorkspace,
+  mapWorkspaceInvitation,
+  mapWorkspaceMember,
+  sendInvitationEmail,
+} from "../services/workspaces.js";
+import {
+  AcceptInvitationSchema,
+  InviteMemberSchema,
+  UpdateMemberSchema,
+  WorkspaceInputSchema,
+  type AcceptInvitationInput,
+  type InviteMemberInput,
+  type UpdateMemberInput,
+  type WorkspaceInput,
+} from "@martian-todos/shared";
+
+const MemberParamsSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+});
+
+const InvitationParamsSchema = z.object({
+  id: z.string().uuid(),
+  invitationId: z.string().uuid(),
+});
+
+/**
+ * Selects the workspaces a user belongs to, with their role and the
+ * member count.
+ */
+function selectWorkspacesFor(userId: string) {
+  return db
+    .selectFrom("workspaces")
+    .innerJoin("workspace_members", "workspace_members.workspace_id", "workspaces.id")
+    .selectAll("workspaces")
+    .select((eb) => [
+      "workspace_members.role",
+      eb
+        .selectFrom("workspace_members as members")
+        .select(eb.fn.countAll().as("count"))
+        .whereRef("members.workspace_id", "=", "workspaces.id")
+        .as("member_count"),
+    ])
+    .where("workspace_members.user_id", "=", userId);
+}
+
+/**
+ * Workspace routes plugin: shared workspaces, their members and
+ * invitations. Todos, projects and tags pick a workspace with the
+ * X-Workspace-Id header.
+ */
+export async function workspaceRoutes(fastify: FastifyInstance): Promise<void> {
+  // Apply authentication to all routes in this plugin
+  fastify.addHook("preHandler", authenticate);
+  fastify.addHook("preHandler", requireVerifiedEmailForWrites);
+
+  /**
+   * GET /workspaces
+   * Lists the workspaces the user belongs to, personal one first.
+   * Readable with a todos:read token so scripts can find workspace ids.
+   */
+  fastify.get("/", { preHandler: [requireTodoScope] }, async (request, reply) => {
+    const workspaces = await selectWorkspacesFor(getCurrentUserId(request))
+      .orderBy("workspaces.personal", "desc")
+      .orderBy("workspaces.name", "asc")
+      .execute();
+
+    return reply.send({ success: true, data: workspaces.map(mapWorkspace) });
+  });
+
+  /**
+   * POST /workspaces
+   * Creates a shared workspace with the user as its owner.
+   */
+  fastify.post<{ Body: WorkspaceInput }>(
+    "/",
+    { preHandler: [requireSessionToken] },
+    async (request, reply) => {
+      const userId = getCurrentUserId(request);
+
+      const parseResult = WorkspaceInputSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const workspace = await db.transaction().execute(async (trx) => {
+        const workspaceId = await createWorkspace(trx, userId, parseResult.data.name);
+        return selectWorkspacesFor(userId)
+          .where("workspaces.id", "=", workspaceId)
+          .executeTakeFirstOrThrow();
+      });
+
+      return reply.status(201).send({ success: true, data: mapWorkspace(workspace) });
+    }
+  );
+
+  /**
+   * PATCH /workspaces/:id
+   * Renames a workspace. Owners only.
+   */
+  fastify.patch<{ Params: { id: string }; Body: WorkspaceInput }>(
+    "/:id",
+    {
+      preHandler: [
+        requireSessionToken,
+        resolveWorkspaceParam,
+        requireWorkspacePermission("workspace:rename"),
+      ],
+    },
+    async (request, reply) => {
+      const parseResult = WorkspaceInputSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const workspaceId = getCurrentWorkspaceId(request);
+      await db
+        .updateTable("workspaces")
+        .set({ name: parseResult.data.name, updated_at: new Date().toISOString() })
+        .where("id", "=", workspaceId)
+        .execute();
+
+      const workspace = await selectWorkspacesFor(getCurrentUserId(request))
+        .where("workspaces.id", "=", workspaceId)
+        .executeTakeFirstOrThrow();
+
+      return reply.send({ success: true, data: mapWorkspace(workspace) });
+    }
+  );
+
+  /**
+   * DELETE /workspaces/:id
+   * Deletes a shared workspace with all its todos, projects and tags.
+   * Owners only; personal workspaces can't be deleted.
+   */
+  fastify.delete<{ Params: { id: string } }>(
+    "/:id",
+    {
+      preHandler: [
+        requireSessionToken,
+        resolveWorkspaceParam,
+        requireWorkspacePermission("workspace:delete"),
+      ],
+    },
+    async (request, reply) => {
+      await db.deleteFrom("workspaces").where("id", "=", getCurrentWorkspaceId(request)).execute();
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * GET /workspaces/:id/members
+   * Lists the members, owners first.
+   */
+  fastify.get<{ Params: { id: string } }>(
+    "/:id/members",
+    {
+      preHandler: [
+        requireSessionToken,
+        resolveWorkspaceParam,
+        requireWorkspacePermission("members:read"),
+      ],
+    },
+    async (request, reply) => {
+      const members = await db
+        .selectFrom("workspace_members")
+        .innerJoin("users", "users.id", "workspace_members.user_id")
+        .select([
+          "workspace_members.user_id",
+          "workspace_members.role",
+          "workspace_members.created_at",
+          "users.name",
+          "users.email",
+        ])
+        .where("workspace_members.workspace_id", "=", getCurrentWorkspaceId(request))
+        .orderBy((eb) =>
+          eb.case().when("workspace_members.role", "=", "owner").then(0).else(1).end()
+        )
+        .orderBy("users.name", "asc")
+        .execute();
+
+      return reply.send({ success: true, data: members.map(mapWorkspaceMember) });
+    }
+  );
+
+  /**
+   * PATCH /workspaces/:id/members/:userId
+   * Changes a member's role. Owners only; the last owner can't be
+   * demoted.
+   */
+  fastify.patch<{ Params: { id: string; userId: string }; Body: UpdateMemberInput }>(
+    "/:id/members/:userId",
+    {
+      preHandler: [
+        requireSessionToken,
+        resolveWorkspaceParam,
+        requireWorkspacePermission("members:manage"),
+      ],
+    },
+    async (request, reply) => {
+      const paramsResult = MemberParamsSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid member id",
+            details: paramsResult.error.flatten(),
+          },
+        });
+      }
+
+      const parseResult = UpdateMemberSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const workspaceId = getCurrentWorkspaceId(request);
+      const { userId } = paramsResult.data;
+      const { role } = parseResult.data;
+
+      const outcome = await db.transaction().execute(async (trx) => {
+        const member = await trx
+          .selectFrom("workspace_members")
+          .select("role")
+          .where("workspace_id", "=", workspaceId)
+          .where("user_id", "=", userId)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!member) return "not_found" as const;
+        const demotingOwner = member.role === "owner" && role !== "owner";
+        if (demotingOwner && (await countOwners(trx, workspaceId)) === 1) {
+          return "last_owner" as const;
+        }
+
+        await trx
+          .updateTable("workspace_members")
+          .set({ role })
+          .where("workspace_id", "=", workspaceId)
+          .where("user_id", "=", userId)
+          .execute();
+
+        return "updated" as const;
+      });
+
+      if (outcome === "not_found") {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Member not found",
+          },
+        });
+      }
+
+      if (outcome === "last_owner") {
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: "LAST_OWNER",
+            message: "A workspace needs at least one owner",
+          },
+        });
+      }
+
+      const member = await db
+        .selectFrom("workspace_members")
+        .innerJoin("users", "users.id", "workspace_members.user_id")
+        .select([
+          "workspace_members.user_id",
+          "workspace_members.role",
+          "workspace_members.created_at",
+          "users.name",
+          "users.email",
+        ])
+        .where("workspace_members.workspace_id", "=", workspaceId)
+        .where("workspace_members.user_id", "=", userId)
+        .executeTakeFirstOrThrow();
+
+      return reply.send({ success: true, data: mapWorkspaceMember(member) });
+    }
+  );
+
+  /**
+   * DELETE /workspaces/:id/members/:userId
+   * Removes a member. Owners can remove anyone; everyone else can only
+   * remove themselves, to leave. The last owner can't leave.
+   */
+  fastify.delete<{ Params: { id: string; userId: string } }>(
+    "/:id/members/:userId",
+    { preHandler: [requireSessionToken, resolveWorkspaceParam] },
+    async (request, reply) => {
+      const paramsResult = MemberParamsSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid member id",
+            details: paramsResult.error.flatten(),
+          },
+        });
+      }
+
+      const workspace = getCurrentWorkspace(request);
+      const { userId } = paramsResult.data;
+      const leaving = userId === getCurrentUserId(request);
+
+      if (workspace.personal) {
+        return reply.status(403).send({
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: deniedMessage(workspace, "members:manage"),
+          },
+        });
+      }
+
+      if (!leaving && !can(workspace, "members:manage")) {
+        return reply.status(403).send({
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: deniedMessage(workspace, "members:manage"),
+            details: { role: workspace.role, action: "members:manage" },
+          },
+        });
+      }
+
+      const outcome = await db.transaction().execute(async (trx) => {
+        const member = await trx
+          .selectFrom("workspace_members")
+          .select("role")
+          .where("workspace_id", "=", workspace.workspaceId)
+          .where("user_id", "=", userId)
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!member) return "not_found" as const;
+        if (member.role === "owner" && (await countOwners(trx, workspace.workspaceId)) === 1) {
+          return "last_owner" as const;
+        }
+
+        await trx
+          .deleteFrom("workspace_members")
+          .where("workspace_id", "=", workspace.workspaceId)
+          .where("user_id", "=", userId)
+          .execute();
+
+        // Former members can't be assigned work they no longer see.
+        await trx
+          .updateTable("todos")
+          .set({ assignee_id: null })
+          .where("workspace_id", "=", workspace.workspaceId)
+          .where("assignee_id", "=", userId)
+          .execute();
+
+        return "removed" as const;
+      });
+
+      if (outcome === "not_found") {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Member not found",
+          },
+        });
+      }
+
+      if (outcome === "last_owner") {
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: "LAST_OWNER",
+            message: leaving
+              ? "Make someone else an owner before leaving"
+              : "A workspace needs at least one owner",
+          },
+        });
+      }
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * GET /workspaces/:id/invitations
+   * Lists invitations that haven't been accepted or expired. Owners only.
+   */
+  fastify.get<{ Params: { id: string } }>(
+    "/:id/invitations",
+    {
+      preHandler: [
+        requireSessionToken,
+        resolveWorkspaceParam,
+        requireWorkspacePermission("members:manage"),
+      ],
+    },
+    async (request, reply) => {
+      const invitations = await db
+        .selectFrom("workspace_invitations")
+        .leftJoin("users", "users.id", "workspace_invitations.invited_by")
+        .selectAll("workspace_invitations")
+        .select(["users.id as inviter_id", "users.name as inviter_name"])
+        .where("workspace_invitations.workspace_id", "=", getCurrentWorkspaceId(request))
+        .where("workspace_invitations.expires_at", ">", new Date())
+        .orderBy("workspace_invitations.created_at", "desc")
+        .execute();
+
+      return reply.send({ success: true, data: invitations.map(mapWorkspaceInvitation) });
+    }
+  );
+
+  /**
+   * POST /workspaces/:id/invitations
+   * Emails an invitation to join with the given role. Inviting the same
+   * address again replaces the earlier invitation. Owners only.
+   */
+  fastify.post<{ Params: { id: string }; Body: InviteMemberInput }>(
+    "/:id/invitations",
+    {
+      preHandler: [
+        requireSessionToken,
+        resolveWorkspaceParam,
+        requireWorkspacePermission("members:manage"),
+      ],
+    },
+    async (request, reply) => {
+      const parseResult = InviteMemberSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const userId = getCurrentUserId(request);
+      const workspaceId = getCurrentWorkspaceId(request);
+      const email = parseResult.data.email.toLowerCase();
+      const { role } = parseResult.data;
+
+      const existingMember = await db
+        .selectFrom("workspace_members")
+        .innerJoin("users", "users.id", "workspace_members.user_id")
+        .select("users.id")
+        .where("workspace_members.workspace_id", "=", workspaceId)
+        .where("users.email", "=", email)
+        .executeTakeFirst();
+
+      if (existingMember) {
+        return reply.status(409).send({
+          success: false,
+          error: {
+            code: "ALREADY_MEMBER",
+            message: "This person is already a member",
+          },
+        });
+      }
+
+      const token = generateToken();
+      const values = {
+        role,
+        token_hash: hashToken(token),
+        invited_by: userId,
+        expires_at: getInvitationExpiresAt(),
+      };
+
+      const invitation = await db
+        .insertInto("workspace_invitations")
+        .values({ workspace_id: workspaceId, email, ...values })
+        .onConflict((oc) => oc.columns(["workspace_id", "email"]).doUpdateSet(values))
+        .returningAll()
+        .executeTakeFirstOrThrow();
+
+      const [workspace, inviter] = await Promise.all([
+        db
+          .selectFrom("workspaces")
+          .select("name")
+          .where("id", "=", workspaceId)
+          .executeTakeFirstOrThrow(),
+        db.selectFrom("users").select("name").where("id", "=", userId).executeTakeFirstOrThrow(),
+      ]);
+
+      try {
+        await sendInvitationEmail({
+          email,
+          token,
+          workspaceName: workspace.name,
+          inviterName: inviter.name,
+          role,
+        });
+      } catch (err) {
+        request.log.error(err, "Failed to send invitation email");
+      }
+
+      return reply.status(201).send({
+        success: true,
+        data: mapWorkspaceInvitation({
+          ...invitation,
+          inviter_id: userId,
+          inviter_name: inviter.name,
+        }),
+      });
+    }
+  );
+
+  /**
+   * DELETE /workspaces/:id/invitations/:invitationId
+   * Withdraws an invitation. Owners only.
+   */
+  fastify.delete<{ Params: { id: string; invitationId: string } }>(
+    "/:id/invitations/:invitationId",
+    {
+      preHandler: [
+        requireSessionToken,
+        resolveWorkspaceParam,
+        requireWorkspacePermission("members:manage"),
+      ],
+    },
+    async (request, reply) => {
+      const paramsResult = InvitationParamsSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid invitation id",
+            details: paramsResult.error.flatten(),
+          },
+        });
+      }
+
+      const result = await db
+        .deleteFrom("workspace_invitations")
+        .where("id", "=", paramsResult.data.invitationId)
+        .where("workspace_id", "=", getCurrentWorkspaceId(request))
+        .executeTakeFirst();
+
+      if (Number(result.numDeletedRows) === 0) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: "NOT_FOUND",
+            message: "Invitation not found",
+          },
+        });
+      }
+
+      return reply.status(204).send();
+    }
+  );
+
+  /**
+   * POST /workspaces/invitations/accept
+   * Joins the workspace from an emailed invitation. The invitation must
+   * have been sent to the signed-in user's email address.
+   */
+  fastify.post<{ Body: AcceptInvitationInput }>(
+    "/invitations/accept",
+    { preHandler: [requireSessionToken] },
+    async (request, reply) => {
+      const parseResult = AcceptInvitationSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input",
+            details: parseResult.error.flatten(),
+          },
+        });
+      }
+
+      const userId = getCurrentUserId(request);
+
+      const outcome = await db.transaction().execute(async (trx) => {
+        const invitation = await trx
+          .selectFrom("workspace_invitations")
+          .select(["id", "workspace_id", "email", "role"])
+          .where("token_hash", "=", hashToken(parseResult.data.token))
+          .where("expires_at", ">", new Date())
+          .forUpdate()
+          .executeTakeFirst();
+
+        if (!invitation) return { status: "invalid" as const };
+
+        const user = await trx
+          .selectFrom("users")
+          .select("email")
+          .where("id", "=", userId)
+          .executeTakeFirstOrThrow();
+
+        if (user.email !== invitation.email) return { status: "wrong_user" as const };
+
+        // Joining twice (or already being a member) keeps the current role.
+        await trx
+          .insertInto("workspace_members")
+          .values({ workspace_id: invitation.workspace_id, user_id: userId, role: invitation.role })
+          .onConflict((oc) => oc.columns(["workspace_id", "user_id"]).doNothing())
+          .execute();
+
+        await trx.deleteFrom("workspace_invitations").where("id", "=", invitation.id).execute();
+
+        return { status: "joined" as const, workspaceId: invitation.workspace_id };
+      });
+
+      if (outcome.status === "invalid") {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: "INVALID_TOKEN",
+            message: "This invitation is invalid or has expired",
+          },
+        });
+      }
+
+      if (outcome.status === "wrong_user") {
+        return reply.status(403).send({
+          success: false,
+          error: {
+            code: "INVITATION_EMAIL_MISMATCH",
+            message: "This invitation was sent to a different email address",
+          },
+        });
+      }
+
+      const workspace = await selectWorkspacesFor(userId)
+        .where("workspaces.id", "=", outcome.workspaceId)
+        .executeTakeFirstOrThrow();
+
+      return reply.send({ success: true, data: mapWorkspace(workspace) });
+    }
+  );
+}
@@ -0,0 +1,150 @@
+import type { Kysely } from "kysely";
+import type {
+  AccessToken,
+  CreateAccessTokenInput,
+  CreatedAccessToken,
+  TokenScope,
+} from "@martian-todos/shared";
+import type { Database } from "../db/schema.js";
+import { generateToken, hashToken } from "./tokens.js";
+
+// Lets `authenticate` tell access tokens from JWTs without parsing them,
+// and makes leaked tokens easy to spot in logs and secret scanners.
+export const ACCESS_TOKEN_PREFIX = "mtp_";
+
+// Write last_used_at at most this often per token.
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const ACCESS_TOKEN_COLUMNS = [
+  "id",
+  "name",
+  "scopes",
+  "expires_at",
+  "last_used_at",
+  "created_at",
+] as const;
+
+type AccessTokenRow = {
+  id: string;
+  name: string;
+  scopes: TokenScope[];
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  created_at: Date;
+};
+
+/**
+ * Maps database row to API access token response.
+ */
+function mapAccessToken(row: AccessTokenRow): AccessToken {
+  return {
+    id: row.id,
+    name: row.name,
+    scopes: row.scopes,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Creates a token for the user and returns it with the raw token, which
+ * isn't stored and can't be shown again.
+ */
+export async function issueAccessToken(
+  executor: Kysely<Database>,
+  userId: string,
+  input: CreateAccessTokenInput
+): Promise<CreatedAccessToken> {
+  const token = `${ACCESS_TOKEN_PREFIX}${generateToken()}`;
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const row = await executor
+    .insertInto("access_tokens")
+    .values({
+      user_id: userId,
+      name: input.name,
+      token_hash: hashToken(token),
+      scopes: [...new Set(input.scopes)],
+      expires_at: expiresAt,
+    })
+    .returning(ACCESS_TOKEN_COLUMNS)
+    .executeTakeFirstOrThrow();
+
+  return { ...mapAccessToken(row), token };
+}
+
+/**
+ * Lists the user's tokens, newest first. Expired tokens stay listed until
+ * revoked so the user can see what stopped working.
+ */
+export async function listAccessTokens(
+  executor: Kysely<Database>,
+  userId: string
+): Promise<AccessToken[]> {
+  const rows = await executor
+    .selectFrom("access_tokens")
+    .select(ACCESS_TOKEN_COLUMNS)
+    .where("user_id", "=", userId)
+    .orderBy("created_at", "desc")
+    .execute();
+
+  return rows.map(mapAccessToken);
+}
+
+/**
+ * Deletes one of the user's tokens. Returns false if it doesn't exist.
+ */
+export async function revokeAccessToken(
+  executor: Kysely<Database>,
+  userId: string,
+  tokenId: string
+): Promise<boolean> {
+  const result = await executor
+    .deleteFrom("access_tokens")
+    .where("id", "=", tokenId)
+    .where("user_id", "=", userId)
+    .executeTakeFirst();
+
+  return Number(result.numDeletedRows) > 0;
+}
+
+/**
+ * Looks up a raw token and records that it was used. Returns null for
+ * unknown or expired tokens.
+ */
+export async function resolveAccessToken(
+  executor: Kysely<Database>,
+  token: string
+): Promise<{ id: string; userId: string; email: string; scopes: TokenScope[] } | null> {
+  const row = await executor
+    .selectFrom("access_tokens")
+    .innerJoin("users", "users.id", "access_tokens.user_id")
+    .select([
+      "access_tokens.id",
+      "access_tokens.user_id",
+      "access_tokens.scopes",
+      "access_tokens.expires_at",
+      "access_tokens.last_used_at",
+      "users.email",
+    ])
+    .where("access_tokens.token_hash", "=", hashToken(token))
+    .executeTakeFirst();
+
+  if (!row || (row.expires_at && row.expires_at <= new Date())) {
+    return null;
+  }
+
+  const now = new Date();
+  if (!row.last_used_at || now.getTime() - row.last_used_at.getTime() > LAST_USED_RESOLUTION_MS) {
+    await executor
+      .updateTable("access_tokens")
+      .set({ last_used_at: now })
+      .where("id", "=", row.id)
+      .execute();
+  }
+
+  return { id: row.id, userId: row.user_id, email: row.email, scopes: row.scopes };
+}
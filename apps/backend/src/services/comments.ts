@@ -0,0 +1,99 @@
+import type { Kysely } from "kysely";
+import type { Database } from "../db/schema.js";
+import { extractMentions, type Notification, type TodoComment } from "@martian-todos/shared";
+
+/**
+ * Reads one comment, or a todo's whole thread oldest first, with author
+ * names.
+ */
+export function selectComments(executor: Kysely<Database>) {
+  return executor
+    .selectFrom("todo_comments")
+    .leftJoin("users", "users.id", "todo_comments.author_id")
+    .select([
+      "todo_comments.id",
+      "todo_comments.todo_id",
+      "todo_comments.author_id",
+      "todo_comments.body",
+      "todo_comments.created_at",
+      "todo_comments.updated_at",
+      "users.name as author_name",
+    ]);
+}
+
+/**
+ * Notifies workspace members mentioned in a comment. On edits, pass the
+ * previous body so only newly added mentions notify. Mentions of
+ * non-members and of the author are ignored. Returns how many were sent.
+ */
+export async function recordMentions(
+  executor: Kysely<Database>,
+  comment: {
+    id: string;
+    todoId: string;
+    workspaceId: string;
+    authorId: string;
+    body: string;
+    previousBody?: string;
+  }
+): Promise<number> {
+  const previous = new Set(comment.previousBody ? extractMentions(comment.previousBody) : []);
+  const emails = extractMentions(comment.body).filter((email) => !previous.has(email));
+  if (emails.length === 0) return 0;
+
+  const recipients = await executor
+    .selectFrom("users")
+    .innerJoin("workspace_members", "workspace_members.user_id", "users.id")
+    .select("users.id")
+    .where("workspace_members.workspace_id", "=", comment.workspaceId)
+    .where("users.email", "in", emails)
+    .where("users.id", "!=", comment.authorId)
+    .execute();
+
+  if (recipients.length === 0) return 0;
+
+  await executor
+    .insertInto("notifications")
+    .values(
+      recipients.map((recipient) => ({
+        user_id: recipient.id,
+        type: "mention" as const,
+        actor_id: comment.authorId,
+        todo_id: comment.todoId,
+        comment_id: comment.id,
+      }))
+    )
+    .execute();
+
+  return recipients.length;
+}
+
+/**
+ * Maps comment row (joined with its author) to API response shape.
+ */
+export function mapComment(row: any): TodoComment {
+  return {
+    id: row.id,
+    todoId: row.todo_id,
+    author: row.author_id ? { id: row.author_id, name: row.author_name } : null,
+    body: row.body,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Maps notification row (joined with its todo and actor) to API response
+ * shape.
+ */
+export function mapNotification(row: any): Notification {
+  return {
+    id: row.id,
+    type: row.type,
+    actor: row.actor_id ? { id: row.actor_id, name: row.actor_name } : null,
+    todo: { id: row.todo_id, title: row.todo_title, workspaceId: row.workspace_id },
+    commentId: row.comment_id,
+    readAt: row.read_at,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,357 @@
+import type { FastifyInstance } from "fastify";
+import { db } from "../db/database.js";
+import { config } from "../config.js";
+import { mapComment, selectComments } from "./comments.js";
+import { mapProject } from "./projects.js";
+import { mapTag } from "./tags.js";
+import { mapTodoEvent } from "./todoEvents.js";
+import { mapSubtask, mapTodo, selectTodoAggregates } from "./todos.js";
+import { deriveKey } from "./tokens.js";
+import { mapUser, USER_COLUMNS } from "./users.js";
+import { mapWorkspace } from "./workspaces.js";
+import { createZipArchive } from "./zipArchive.js";
+import type { DataExport } from "@martian-todos/shared";
+
+const DOWNLOAD_KEY = deriveKey("data-export-download");
+
+// Columns selected for building a DataExport response (never the archive).
+export const DATA_EXPORT_COLUMNS = [
+  "id",
+  "status",
+  "size_bytes",
+  "created_at",
+  "completed_at",
+  "expires_at",
+] as const;
+
+type DataExportRow = {
+  id: string;
+  status: DataExport["status"];
+  size_bytes: number | null;
+  created_at: Date;
+  completed_at: Date | null;
+  expires_at: Date | null;
+};
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Formats one CSV cell. Cells that a spreadsheet would run as a formula
+ * are prefixed with a quote.
+ */
+function csvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders rows as CSV with a header line.
+ */
+function toCsv<T>(
+  columns: Array<[header: string, value: (row: T) => CsvValue]>,
+  rows: T[]
+): string {
+  const lines = [columns.map(([header]) => csvCell(header)).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map(([, value]) => csvCell(value(row))).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) + "\n";
+}
+
+/**
+ * Collects everything stored for a user, in the same shapes the API
+ * returns, and packs it as JSON and CSV files in a ZIP archive. Their
+ * personal workspace is exported whole; from shared workspaces only what
+ * they created, were assigned, or wrote, so other members' data stays out.
+ */
+export async function buildDataExportArchive(userId: string): Promise<Buffer> {
+  const userRow = await db
+    .selectFrom("users")
+    .select(USER_COLUMNS)
+    .where("id", "=", userId)
+    .executeTakeFirstOrThrow();
+
+  const memberOf = db
+    .selectFrom("workspace_members")
+    .select("workspace_id")
+    .where("user_id", "=", userId);
+  const personal = db
+    .selectFrom("workspaces")
+    .select("id")
+    .where("personal", "=", true)
+    .where("id", "in", memberOf);
+
+  const workspaceRows = await db
+    .selectFrom("workspaces")
+    .innerJoin("workspace_members", "workspace_members.workspace_id", "workspaces.id")
+    .selectAll("workspaces")
+    .select((eb) => [
+      "workspace_members.role",
+      eb
+        .selectFrom("workspace_members as members")
+        .select(eb.fn.countAll().as("count"))
+        .whereRef("members.workspace_id", "=", "workspaces.id")
+        .as("member_count"),
+    ])
+    .where("workspace_members.user_id", "=", userId)
+    .orderBy("workspaces.personal", "desc")
+    .orderBy("workspaces.name", "asc")
+    .execute();
+
+  // Trashed todos are included; they're still the user's data.
+  const exportedTodos = db
+    .selectFrom("todos")
+    .select("id")
+    .where("workspace_id", "in", memberOf)
+    .where((eb) =>
+      eb.or([
+        eb("workspace_id", "in", personal),
+        eb("user_id", "=", userId),
+        eb("assignee_id", "=", userId),
+      ])
+    );
+
+  const todoRows = await db
+    .selectFrom("todos")
+    .selectAll()
+    .select(selectTodoAggregates)
+    .where("id", "in", exportedTodos)
+    .orderBy("created_at", "asc")
+    .execute();
+
+  const subtaskRows = await db
+    .selectFrom("todo_subtasks")
+    .selectAll()
+    .where("todo_id", "in", exportedTodos)
+    .orderBy("todo_id")
+    .orderBy("position")
+    .execute();
+
+  const projectRows = await db
+    .selectFrom("projects")
+    .selectAll()
+    .select((eb) =>
+      eb
+        .selectFrom("todos")
+        .select(eb.fn.countAll().as("count"))
+        .whereRef("todos.project_id", "=", "projects.id")
+        .where("todos.deleted_at", "is", null)
+        .as("todo_count")
+    )
+    .where("workspace_id", "in", memberOf)
+    .where((eb) => eb.or([eb("workspace_id", "in", personal), eb("user_id", "=", userId)]))
+    .orderBy("sort_order", "asc")
+    .orderBy("created_at", "asc")
+    .execute();
+
+  const tagRows = await db
+    .selectFrom("tags")
+    .leftJoin("todo_tags", "todo_tags.tag_id", "tags.id")
+    .leftJoin("todos", (join) =>
+      join.onRef("todos.id", "=", "todo_tags.todo_id").on("todos.deleted_at", "is", null)
+    )
+    .select(["tags.id", "tags.name", "tags.created_at", db.fn.count("todos.id").as("todo_count")])
+    .where("tags.workspace_id", "in", memberOf)
+    .where((eb) =>
+      eb.or([eb("tags.workspace_id", "in", personal), eb("tags.user_id", "=", userId)])
+    )
+    .groupBy(["tags.id", "tags.name", "tags.created_at"])
+    .orderBy("tags.name", "asc")
+    .execute();
+
+  const eventRows = await db
+    .selectFrom("todo_events")
+    .innerJoin("todos", "todos.id", "todo_events.todo_id")
+    .leftJoin("users", "users.id", "todo_events.actor_id")
+    .select([
+      "todo_events.id",
+      "todo_events.todo_id",
+      "todo_events.event_type",
+      "todo_events.changes",
+      "todo_events.created_at",
+      "users.id as actor_id",
+      "users.name as actor_name",
+    ])
+    .where("todos.workspace_id", "in", memberOf)
+    .where((eb) =>
+      eb.or([eb("todos.workspace_id", "in", personal), eb("todo_events.actor_id", "=", userId)])
+    )
+    .orderBy("todo_events.created_at", "asc")
+    .execute();
+
+  const commentRows = await selectComments(db)
+    .innerJoin("todos", "todos.id", "todo_comments.todo_id")
+    .where("todos.workspace_id", "in", memberOf)
+    .where((eb) =>
+      eb.or([eb("todos.workspace_id", "in", personal), eb("todo_comments.author_id", "=", userId)])
+    )
+    .orderBy("todo_comments.created_at", "asc")
+    .execute();
+
+  const profile = mapUser(userRow);
+  const workspaces = workspaceRows.map(mapWorkspace);
+  const todos = todoRows.map(mapTodo);
+  const subtasks = subtaskRows.map(mapSubtask);
+  const projects = projectRows.map(mapProject);
+  const tags = tagRows.map(mapTag);
+  const history = eventRows.map(mapTodoEvent);
+  const comments = commentRows.map(mapComment);
+
+  const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+  const workspaceNames = new Map(workspaces.map((workspace) => [workspace.id, workspace.name]));
+
+  return createZipArchive([
+    { name: "json/profile.json", content: toJson(profile) },
+    { name: "json/workspaces.json", content: toJson(workspaces) },
+    { name: "json/todos.json", content: toJson(todos) },
+    { name: "json/subtasks.json", content: toJson(subtasks) },
+    { name: "json/projects.json", content: toJson(projects) },
+    { name: "json/tags.json", content: toJson(tags) },
+    { name: "json/history.json", content: toJson(history) },
+    { name: "json/comments.json", content: toJson(comments) },
+    {
+      name: "csv/todos.csv",
+      content: toCsv(
+        [
+          ["id", (todo) => todo.id],
+          ["workspace", (todo) => workspaceNames.get(todo.workspaceId)],
+          ["title", (todo) => todo.title],
+          ["description", (todo) => todo.description],
+          ["status", (todo) => todo.status],
+          ["priority", (todo) => todo.priority],
+          ["due_date", (todo) => todo.dueDate],
+          ["project", (todo) => (todo.projectId ? projectNames.get(todo.projectId) : null)],
+          ["tags", (todo) => todo.tags.join(" ")],
+          ["recurrence_rule", (todo) => todo.recurrenceRule],
+          ["subtasks_done", (todo) => todo.subtaskProgress.done],
+          ["subtasks_total", (todo) => todo.subtaskProgress.total],
+          ["deleted_at", (todo) => todo.deletedAt],
+          ["created_at", (todo) => todo.createdAt],
+          ["updated_at", (todo) => todo.updatedAt],
+        ],
+        todos
+      ),
+    },
+    {
+      name: "csv/subtasks.csv",
+      content: toCsv(
+        [
+          ["id", (subtask) => subtask.id],
+          ["todo_id", (subtask) => subtask.todoId],
+          ["title", (subtask) => subtask.title],
+          ["completed", (subtask) => subtask.completed],
+          ["position", (subtask) => subtask.position],
+          ["created_at", (subtask) => subtask.createdAt],
+          ["updated_at", (subtask) => subtask.updatedAt],
+        ],
+        subtasks
+      ),
+    },
+    {
+      name: "csv/projects.csv",
+      content: toCsv(
+        [
+          ["id", (project) => project.id],
+          ["name", (project) => project.name],
+          ["color", (project) => project.color],
+          ["archived", (project) => project.archived],
+          ["todo_count", (project) => project.todoCount],
+          ["created_at", (project) => project.createdAt],
+          ["updated_at", (project) => project.updatedAt],
+        ],
+        projects
+      ),
+    },
+    {
+      name: "csv/tags.csv",
+      content: toCsv(
+        [
+          ["id", (tag) => tag.id],
+          ["name", (tag) => tag.name],
+          ["todo_count", (tag) => tag.todoCount],
+          ["created_at", (tag) => tag.createdAt],
+        ],
+        tags
+      ),
+    },
+    {
+      name: "csv/history.csv",
+      content: toCsv(
+        [
+          ["id", (event) => event.id],
+          ["todo_id", (event) => event.todoId],
+          ["type", (event) => event.type],
+          ["actor", (event) => event.actor?.name],
+          ["changes", (event) => JSON.stringify(event.changes)],
+          ["created_at", (event) => event.createdAt],
+        ],
+        history
+      ),
+    },
+    {
+      name: "csv/comments.csv",
+      content: toCsv(
+        [
+          ["id", (comment) => comment.id],
+          ["todo_id", (comment) => comment.todoId],
+          ["author", (comment) => comment.author?.name],
+          ["body", (comment) => comment.body],
+          ["created_at", (comment) => comment.createdAt],
+          ["updated_at", (comment) => comment.updatedAt],
+        ],
+        comments
+      ),
+    },
+  ]);
+}
+
+/**
+ * Signs a download link that works until the export expires. The link
+ * carries its own credentials so it can be opened directly in a browser.
+ */
+function createDownloadUrl(fastify: FastifyInstance, exportId: string, expiresAt: Date): string {
+  const secondsLeft = Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+  const token = fastify.jwt.sign({ sub: exportId }, { key: DOWNLOAD_KEY, expiresIn: secondsLeft });
+
+  return `${config.APP_URL.replace(/\/$/, "")}/api/me/export/${exportId}/download?token=${token}`;
+}
+
+/**
+ * Returns the export id from a valid, unexpired download token, or null.
+ */
+export function readDownloadToken(fastify: FastifyInstance, token: string): string | null {
+  try {
+    const claims = fastify.jwt.verify<{ sub?: string }>(token, { key: DOWNLOAD_KEY });
+    return claims.sub ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Maps export row to API response shape.
+ */
+export function mapDataExport(fastify: FastifyInstance, row: DataExportRow): DataExport {
+  const downloadable =
+    row.status === "ready" && row.expires_at !== null && row.expires_at > new Date();
+
+  return {
+    id: row.id,
+    status: row.status,
+    sizeBytes: row.size_bytes,
+    downloadUrl: downloadable ? createDownloadUrl(fastify, row.id, row.expires_at!) : null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+    expiresAt: row.expires_at,
+  };
+}
@@ -0,0 +1,85 @@
+import type { FastifyInstance } from "fastify";
+import { config } from "../config.js";
+import { db } from "../db/database.js";
+import { mailer } from "./mailer.js";
+import { deriveKey } from "./tokens.js";
+
+const VERIFICATION_KEY = deriveKey("email-verification");
+
+interface VerificationClaims {
+  sub: string;
+  email: string;
+}
+
+/**
+ * Signs a verification token for the user's current address. Changing the
+ * address later invalidates tokens issued for the old one.
+ */
+function createVerificationToken(
+  fastify: FastifyInstance,
+  user: { id: string; email: string }
+): string {
+  return fastify.jwt.sign(
+    { sub: user.id, email: user.email },
+    { key: VERIFICATION_KEY, expiresIn: `${config.EMAIL_VERIFICATION_TTL_HOURS}h` }
+  );
+}
+
+/**
+ * Checks a verification token's signature and expiry. Returns its claims,
+ * or null if it isn't valid.
+ */
+export function readVerificationToken(
+  fastify: FastifyInstance,
+  token: string
+): VerificationClaims | null {
+  try {
+    const claims = fastify.jwt.verify<Partial<VerificationClaims>>(token, {
+      key: VERIFICATION_KEY,
+    });
+    return claims.sub && claims.email ? { sub: claims.sub, email: claims.email } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Seconds until the user may request another verification email, or 0.
+ */
+export function verificationCooldownRemaining(sentAt: Date | null): number {
+  if (!sentAt) return 0;
+
+  const readyAt = sentAt.getTime() + config.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS * 1000;
+  return Math.max(0, Math.ceil((readyAt - Date.now()) / 1000));
+}
+
+/**
+ * Emails the user a verification link and records when it was sent.
+ */
+export async function sendVerificationEmail(
+  fastify: FastifyInstance,
+  user: { id: string; email: string; name: string }
+): Promise<void> {
+  const link = new URL("/", config.APP_URL);
+  link.searchParams.set("verify_token", createVerificationToken(fastify, user));
+
+  await mailer.send({
+    to: user.email,
+    subject: "Confirm your Martian Todos email",
+    text: [
+      `Hi ${user.name},`,
+      "",
+      "Confirm this address for your Martian Todos account by opening:",
+      "",
+      link.toString(),
+      "",
+      `The link expires in ${config.EMAIL_VERIFICATION_TTL_HOURS} hours.`,
+    ].join("\n"),
+  });
+
+  await db
+    .updateTable("users")
+    .set({ verification_sent_at: new Date() })
+    .where("id", "=", user.id)
+    .execute();
+}
@@ -0,0 +1,72 @@
+import { sql, type Kysely } from "kysely";
+import { config } from "../config.js";
+import type { Database } from "../db/schema.js";
+
+/**
+ * Seconds until a locked account can sign in again, or 0 if it isn't
+ * locked.
+ */
+export function lockoutRemaining(lockedUntil: Date | null): number {
+  if (!lockedUntil) return 0;
+
+  const remainingMs = lockedUntil.getTime() - Date.now();
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+}
+
+/**
+ * Counts a failed password or second-factor attempt. Once the count reaches
+ * LOGIN_LOCKOUT_THRESHOLD the account locks, for twice as long with each
+ * further failure (capped at LOGIN_LOCKOUT_MAX_SECONDS). The count starts
+ * over when the previous failure is older than LOGIN_FAILURE_RESET_HOURS.
+ *
+ * Returns the new lock expiry, or null if the account isn't locked.
+ */
+export async function recordFailedLogin(
+  executor: Kysely<Database>,
+  userId: string
+): Promise<Date | null> {
+  const attempts = sql<number>`CASE
+    WHEN last_failed_login_at IS NULL
+      OR last_failed_login_at < now() - make_interval(hours => ${config.LOGIN_FAILURE_RESET_HOURS})
+    THEN 1
+    ELSE failed_login_attempts + 1
+  END`;
+  const lockSeconds = sql`LEAST(
+    ${config.LOGIN_LOCKOUT_BASE_SECONDS} * power(2, ${attempts} - ${config.LOGIN_LOCKOUT_THRESHOLD}),
+    ${config.LOGIN_LOCKOUT_MAX_SECONDS}
+  )`;
+
+  const row = await executor
+    .updateTable("users")
+    .set({
+      failed_login_attempts: attempts,
+      last_failed_login_at: new Date(),
+      locked_until: sql`CASE
+        WHEN ${attempts} >= ${config.LOGIN_LOCKOUT_THRESHOLD}
+        THEN now() + make_interval(secs => ${lockSeconds})
+        ELSE NULL
+      END`,
+    })
+    .where("id", "=", userId)
+    .returning("locked_until")
+    .executeTakeFirst();
+
+  return row?.locked_until ?? null;
+}
+
+/**
+ * Forgets failed attempts after a successful sign-in or password reset.
+ */
+export async function clearFailedLogins(
+  executor: Kysely<Database>,
+  userId: string
+): Promise<void> {
+  await executor
+    .updateTable("users")
+    .set({ failed_login_attempts: 0, last_failed_login_at: null, locked_until: null })
+    .where("id", "=", userId)
+    .where((eb) =>
+      eb.or([eb("failed_login_attempts", ">", 0), eb("locked_until", "is not", null)])
+    )
+    .execute();
+}
@@ -0,0 +1,297 @@
+import { createHash, createPublicKey, randomBytes, verify, type JsonWebKey } from "crypto";
+import { config } from "../config.js";
+
+/**
+ * OpenID Connect relying party: authorization code flow with PKCE,
+ * provider discovery, and ID token validation against the provider's JWKS.
+ */
+
+// Tolerate small clock differences with the provider.
+const CLOCK_SKEW_SECONDS = 60;
+// Refetch keys at most this often when a token names an unknown key.
+const JWKS_REFRESH_INTERVAL_MS = 60 * 1000;
+
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; ecdsa: boolean }> = {
+  RS256: { hash: "sha256", ecdsa: false },
+  RS384: { hash: "sha384", ecdsa: false },
+  RS512: { hash: "sha512", ecdsa: false },
+  ES256: { hash: "sha256", ecdsa: true },
+  ES384: { hash: "sha384", ecdsa: true },
+  ES512: { hash: "sha512", ecdsa: true },
+};
+
+export interface OidcSettings {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface JwksKey extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+}
+
+export interface OidcClient {
+  /** Builds the provider URL to send the browser to. */
+  authorizationUrl(params: { state: string; nonce: string; codeVerifier: string }): Promise<string>;
+  /** Redeems an authorization code and returns the validated ID token claims. */
+  exchangeCode(code: string, codeVerifier: string, nonce: string): Promise<IdTokenClaims>;
+}
+
+/**
+ * Generates a random URL-safe value for state, nonce or a PKCE verifier.
+ */
+export function generateOidcSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Derives the S256 PKCE challenge for a verifier.
+ */
+function codeChallengeFor(codeVerifier: string): string {
+  return createHash("sha256").update(codeVerifier).digest("base64url");
+}
+
+/**
+ * Fetches a JSON document from the provider, failing on HTTP errors.
+ */
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || body === null) {
+    const detail = body?.error_description ?? body?.error ?? `HTTP ${response.status}`;
+    throw new Error(`OIDC request to ${url} failed: ${detail}`);
+  }
+
+  return body as T;
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+}
+
+/**
+ * Checks the signature, issuer, audience, lifetime and nonce of an ID
+ * token.
+ */
+function validateIdToken(
+  idToken: string,
+  keys: JwksKey[],
+  settings: OidcSettings,
+  metadata: ProviderMetadata,
+  nonce: string
+): IdTokenClaims {
+  const segments = idToken.split(".");
+  if (segments.length !== 3) {
+    throw new Error("ID token is not a signed JWT");
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment<{ alg?: string; kid?: string }>(encodedHeader);
+  const algorithm = header.alg ? SIGNATURE_ALGORITHMS[header.alg] : undefined;
+  // Only asymmetric algorithms: "none" and HS* would let anyone mint tokens.
+  if (!algorithm) {
+    throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+
+  const jwk = findKey(keys, header.kid);
+  if (!jwk) {
+    throw new Error(`No JWKS key matches ID token key id ${header.kid}`);
+  }
+
+  const valid = verify(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    {
+      key: createPublicKey({ key: jwk, format: "jwk" }),
+      dsaEncoding: algorithm.ecdsa ? "ieee-p1363" : undefined,
+    },
+    Buffer.from(encodedSignature, "base64url")
+  );
+  if (!valid) {
+    throw new Error("ID token signature is invalid");
+  }
+
+  const claims = decodeSegment<IdTokenClaims>(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== metadata.issuer) {
+    throw new Error(`ID token issuer ${claims.iss} doesn't match ${metadata.issuer}`);
+  }
+  if (!audiences.includes(settings.clientId)) {
+    throw new Error("ID token wasn't issued for this client");
+  }
+  if (audiences.length > 1 && claims.azp !== settings.clientId) {
+    throw new Error("ID token authorized party doesn't match this client");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error("ID token has expired");
+  }
+  if (typeof claims.iat !== "number" || claims.iat - CLOCK_SKEW_SECONDS > now) {
+    throw new Error("ID token was issued in the future");
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error("ID token nonce doesn't match the login attempt");
+  }
+  if (!claims.sub) {
+    throw new Error("ID token has no subject");
+  }
+
+  return claims;
+}
+
+/**
+ * Picks the signing key named by `kid`, or the only signing key when the
+ * token doesn't name one.
+ */
+function findKey(keys: JwksKey[], kid: string | undefined): JwksKey | undefined {
+  const signingKeys = keys.filter((key) => key.use === undefined || key.use === "sig");
+  if (kid) {
+    return signingKeys.find((key) => key.kid === kid);
+  }
+  return signingKeys.length === 1 ? signingKeys[0] : undefined;
+}
+
+/**
+ * Creates a client for one provider. Discovery and keys are fetched on
+ * first use and cached; keys are refetched when the provider rotates them.
+ */
+export function createOidcClient(settings: OidcSettings): OidcClient {
+  let metadata: Promise<ProviderMetadata> | null = null;
+  let keys: JwksKey[] = [];
+  let keysFetchedAt = 0;
+
+  function discover(): Promise<ProviderMetadata> {
+    if (!metadata) {
+      const url = `${settings.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+      metadata = fetchJson<ProviderMetadata>(url).then((document) => {
+        // The document must describe the issuer we were configured with.
+        if (document.issuer.replace(/\/$/, "") !== settings.issuer.replace(/\/$/, "")) {
+          throw new Error(`Discovery issuer ${document.issuer} doesn't match ${settings.issuer}`);
+        }
+        return document;
+      });
+      // Let a failed discovery be retried on the next login.
+      metadata.catch(() => {
+        metadata = null;
+      });
+    }
+    return metadata;
+  }
+
+  async function loadKeys(provider: ProviderMetadata, kid: string | undefined): Promise<JwksKey[]> {
+    const known = kid ? keys.some((key) => key.kid === kid) : keys.length > 0;
+    if (!known && Date.now() - keysFetchedAt > JWKS_REFRESH_INTERVAL_MS) {
+      const jwks = await fetchJson<{ keys: JwksKey[] }>(provider.jwks_uri);
+      keys = jwks.keys;
+      keysFetchedAt = Date.now();
+    }
+    return keys;
+  }
+
+  return {
+    async authorizationUrl({ state, nonce, codeVerifier }) {
+      const provider = await discover();
+      const url = new URL(provider.authorization_endpoint);
+
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("client_id", settings.clientId);
+      url.searchParams.set("redirect_uri", settings.redirectUri);
+      url.searchParams.set("scope", settings.scopes);
+      url.searchParams.set("state", state);
+      url.searchParams.set("nonce", nonce);
+      url.searchParams.set("code_challenge", codeChallengeFor(codeVerifier));
+      url.searchParams.set("code_challenge_method", "S256");
+
+      return url.toString();
+    },
+
+    async exchangeCode(code, codeVerifier, nonce) {
+      const provider = await discover();
+      const body = new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: settings.redirectUri,
+        code_verifier: codeVerifier,
+        client_id: settings.clientId,
+      });
+      const headers: Record<string, string> = {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      };
+
+      // Confidential clients authenticate with client_secret_basic.
+      if (settings.clientSecret) {
+        const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(
+          settings.clientSecret
+        )}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+      }
+
+      const tokens = await fetchJson<{ id_token?: string }>(provider.token_endpoint, {
+        method: "POST",
+        headers,
+        body,
+      });
+      if (!tokens.id_token) {
+        throw new Error("Token response has no ID token");
+      }
+
+      const header = decodeSegment<{ kid?: string }>(tokens.id_token.split(".")[0]);
+      const jwks = await loadKeys(provider, header.kid);
+
+      return validateIdToken(tokens.id_token, jwks, settings, provider, nonce);
+    },
+  };
+}
+
+/**
+ * Builds the client for the configured provider, or null when single
+ * sign-on is off.
+ */
+function createConfiguredOidcClient(): OidcClient | null {
+  if (!config.OIDC_ISSUER) {
+    return null;
+  }
+  if (!config.OIDC_CLIENT_ID) {
+    throw new Error("OIDC_CLIENT_ID is required when OIDC_ISSUER is set");
+  }
+
+  return createOidcClient({
+    issuer: config.OIDC_ISSUER,
+    clientId: config.OIDC_CLIENT_ID,
+    clientSecret: config.OIDC_CLIENT_SECRET,
+    redirectUri:
+      config.OIDC_REDIRECT_URI ?? `${config.APP_URL.replace(/\/$/, "")}/api/auth/oidc/callback`,
+    scopes: config.OIDC_SCOPES,
+  });
+}
+
+/**
+ * Shared client for the configured provider; null when SSO is off.
+ */
+export const oidcClient = createConfiguredOidcClient();
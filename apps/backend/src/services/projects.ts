@@ -0,0 +1,17 @@
+import type { Project } from "@martian-todos/shared";
+
+/**
+ * Maps database row to API response shape.
+ */
+export function mapProject(row: any): Project {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    archived: row.archived,
+    sortOrder: row.sort_order,
+    todoCount: Number(row.todo_count ?? 0),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,134 @@
+import { sql, type Kysely } from "kysely";
+import { config } from "../config.js";
+import { db } from "../db/database.js";
+import type { Database } from "../db/schema.js";
+
+export interface RateLimitWindow {
+  hits: number;
+  resetAt: Date;
+}
+
+/**
+ * Counts hits per key in fixed windows. Pick an implementation with
+ * RATE_LIMIT_STORE.
+ */
+export interface RateLimitStore {
+  /** Records a hit and returns the key's current window. */
+  hit(key: string, windowMs: number): Promise<RateLimitWindow>;
+  /** Drops expired windows. Returns how many were removed. */
+  prune(): Promise<number>;
+}
+
+/**
+ * Keeps counters in process memory. Fine for tests and single-instance
+ * development; counters reset on restart and aren't shared.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, RateLimitWindow>();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      const current = windows.get(key);
+
+      if (!current || current.resetAt.getTime() <= now) {
+        const fresh = { hits: 1, resetAt: new Date(now + windowMs) };
+        windows.set(key, fresh);
+        return { ...fresh };
+      }
+
+      current.hits += 1;
+      return { ...current };
+    },
+
+    async prune() {
+      const now = Date.now();
+      let removed = 0;
+
+      for (const [key, window] of windows) {
+        if (window.resetAt.getTime() <= now) {
+          windows.delete(key);
+          removed++;
+        }
+      }
+
+      return removed;
+    },
+  };
+}
+
+/**
+ * Keeps counters in the `rate_limits` table so every API instance shares
+ * them. Each hit is a single upsert.
+ */
+export function createPostgresRateLimitStore(executor: Kysely<Database>): RateLimitStore {
+  return {
+    async hit(key, windowMs) {
+      const resetAt = new Date(Date.now() + windowMs);
+      // An expired window restarts at one hit instead of counting on.
+      const expired = sql<boolean>`rate_limits.reset_at <= now()`;
+
+      const row = await executor
+        .insertInto("rate_limits")
+        .values({ key, hits: 1, reset_at: resetAt })
+        .onConflict((oc) =>
+          oc.column("key").doUpdateSet({
+            hits: sql`CASE WHEN ${expired} THEN 1 ELSE rate_limits.hits + 1 END`,
+            reset_at: sql`CASE WHEN ${expired} THEN excluded.reset_at ELSE rate_limits.reset_at END`,
+          })
+        )
+        .returning(["hits", "reset_at"])
+        .executeTakeFirstOrThrow();
+
+      return { hits: row.hits, resetAt: row.reset_at };
+    },
+
+    async prune() {
+      const result = await executor
+        .deleteFrom("rate_limits")
+        .where("reset_at", "<=", new Date())
+        .executeTakeFirst();
+
+      return Number(result.numDeletedRows ?? 0);
+    },
+  };
+}
+
+/**
+ * Builds the store selected by configuration.
+ */
+function createRateLimitStore(): RateLimitStore {
+  switch (config.RATE_LIMIT_STORE) {
+    case "postgres":
+      return createPostgresRateLimitStore(db);
+    case "memory":
+      return createMemoryRateLimitStore();
+  }
+}
+
+/**
+ * Shared rate limit store.
+ */
+export const rateLimitStore = createRateLimitStore();
+
+/**
+ * Records a hit against each limit and returns how many seconds the caller
+ * must wait, or 0 when every limit still has room.
+ */
+export async function consumeRateLimits(
+  store: RateLimitStore,
+  limits: { key: string; max: number }[],
+  windowMs: number
+): Promise<number> {
+  let retryAfter = 0;
+
+  for (const limit of limits) {
+    const window = await store.hit(limit.key, windowMs);
+    if (window.hits > limit.max) {
+      const seconds = Math.ceil((window.resetAt.getTime() - Date.now()) / 1000);
+      retryAfter = Math.max(retryAfter, seconds, 1);
+    }
+  }
+
+  return retryAfter;
+}
@@ -0,0 +1,177 @@
+import type { FastifyRequest } from "fastify";
+import type { Kysely } from "kysely";
+import type { UserSession } from "@martian-todos/shared";
+import { config } from "../config.js";
+import type { Database } from "../db/schema.js";
+import { generateToken, hashToken } from "./tokens.js";
+
+/**
+ * Calculates refresh token expiration date.
+ */
+function getRefreshTokenExpiresAt(): Date {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + config.JWT_REFRESH_EXPIRES_IN_DAYS);
+  return expiresAt;
+}
+
+/**
+ * Stores a new refresh token for the device making the request and returns
+ * the raw token. Pass the family of the token being rotated; omit it to
+ * start a new session.
+ */
+export async function issueRefreshToken(
+  executor: Kysely<Database>,
+  request: FastifyRequest,
+  userId: string,
+  familyId?: string
+): Promise<{ id: string; familyId: string; token: string }> {
+  const token = generateToken();
+  const row = await executor
+    .insertInto("refresh_tokens")
+    .values({
+      user_id: userId,
+      token_hash: hashToken(token),
+      expires_at: getRefreshTokenExpiresAt(),
+      family_id: familyId,
+      user_agent: request.headers["user-agent"] ?? null,
+      ip_address: request.ip,
+      last_used_at: new Date(),
+    })
+    .returning(["id", "family_id"])
+    .executeTakeFirstOrThrow();
+
+  return { id: row.id, familyId: row.family_id, token };
+}
+
+/**
+ * Lists the user's live sessions, most recently used first. Each session
+ * is a token family; its live row is the one not yet rotated.
+ */
+export async function listSessions(
+  executor: Kysely<Database>,
+  userId: string,
+  currentSessionId: string | undefined
+): Promise<UserSession[]> {
+  const rows = await executor
+    .selectFrom("refresh_tokens as live")
+    .select((eb) => [
+      "live.family_id",
+      "live.user_agent",
+      "live.ip_address",
+      "live.last_used_at",
+      // The family started when its first token was issued.
+      eb
+        .selectFrom("refresh_tokens as first")
+        .select((sub) => sub.fn.min("first.created_at").as("created_at"))
+        .whereRef("first.family_id", "=", "live.family_id")
+        .as("created_at"),
+    ])
+    .where("live.user_id", "=", userId)
+    .where("live.revoked_at", "is", null)
+    .where("live.expires_at", ">", new Date())
+    .orderBy("live.last_used_at", "desc")
+    .execute();
+
+  return rows.map((row) => ({
+    id: row.family_id,
+    userAgent: row.user_agent,
+    ipAddress: row.ip_address,
+    createdAt: row.created_at ?? row.last_used_at,
+    lastUsedAt: row.last_used_at,
+    current: row.family_id === currentSessionId,
+  }));
+}
+
+/**
+ * Whether the session still has an unrevoked, unexpired refresh token.
+ * Access tokens of ended sessions are turned away with this.
+ */
+export async function isSessionLive(
+  executor: Kysely<Database>,
+  userId: string,
+  sessionId: string
+): Promise<boolean> {
+  const live = await executor
+    .selectFrom("refresh_tokens")
+    .select("id")
+    .where("user_id", "=", userId)
+    .where("family_id", "=", sessionId)
+    .where("revoked_at", "is", null)
+    .where("expires_at", ">", new Date())
+    .executeTakeFirst();
+
+  return live !== undefined;
+}
+
+/**
+ * When the session's first token was issued, i.e. when the user signed
+ * in. Null if the session doesn't exist.
+ */
+export async function getSessionStartedAt(
+  executor: Kysely<Database>,
+  userId: string,
+  sessionId: string
+): Promise<Date | null> {
+  const row = await executor
+    .selectFrom("refresh_tokens")
+    .select((eb) => eb.fn.min("created_at").as("started_at"))
+    .where("user_id", "=", userId)
+    .where("family_id", "=", sessionId)
+    .executeTakeFirst();
+
+  return row?.started_at ?? null;
+}
+
+/**
+ * Ends one of the user's sessions. Returns false if it wasn't live.
+ */
+export async function revokeSession(
+  executor: Kysely<Database>,
+  userId: string,
+  sessionId: string
+): Promise<boolean> {
+  const result = await executor
+    .updateTable("refresh_tokens")
+    .set({ revoked_at: new Date() })
+    .where("user_id", "=", userId)
+    .where("family_id", "=", sessionId)
+    .where("revoked_at", "is", null)
+    .executeTakeFirst();
+
+  return Number(result.numUpdatedRows) > 0;
+}
+
+/**
+ * Ends every session of the user except `currentSessionId`. Returns how
+ * many were ended.
+ */
+export async function revokeOtherSessions(
+  executor: Kysely<Database>,
+  userId: string,
+  currentSessionId: string
+): Promise<number> {
+  const result = await executor
+    .updateTable("refresh_tokens")
+    .set({ revoked_at: new Date() })
+    .where("user_id", "=", userId)
+    .where("family_id", "!=", currentSessionId)
+    .where("revoked_at", "is", null)
+    .executeTakeFirst();
+
+  return Number(result.numUpdatedRows);
+}
+
+/**
+ * Ends every session of the user, e.g. after a password reset.
+ */
+export async function revokeAllSessions(
+  executor: Kysely<Database>,
+  userId: string
+): Promise<void> {
+  await executor
+    .updateTable("refresh_tokens")
+    .set({ revoked_at: new Date() })
+    .where("user_id", "=", userId)
+    .where("revoked_at", "is", null)
+    .execute();
+}
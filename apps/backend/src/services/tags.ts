@@ -0,0 +1,13 @@
+import type { Tag } from "@martian-todos/shared";
+
+/**
+ * Maps database row to API response shape.
+ */
+export function mapTag(row: any): Tag {
+  return {
+    id: row.id,
+    name: row.name,
+    todoCount: Number(row.todo_count ?? 0),
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,139 @@
+import type { Kysely } from "kysely";
+import type { Database } from "../db/schema.js";
+import type { TodoChanges, TodoEvent, TodoEventType } from "@martian-todos/shared";
+
+/**
+ * The fields of a todo tracked in its history, in API naming.
+ */
+export interface TodoSnapshot {
+  title: string;
+  description: string | null;
+  priority: string;
+  status: string;
+  dueDate: string | null;
+  projectId: string | null;
+  assigneeId: string | null;
+  recurrenceRule: string | null;
+  tags: string[];
+}
+
+export interface NewTodoEvent {
+  todoId: string;
+  actorId: string | null;
+  type: TodoEventType;
+  changes: TodoChanges;
+}
+
+/**
+ * Builds a snapshot from a todo row selected with its tag names.
+ */
+export function snapshotTodo(row: any): TodoSnapshot {
+  return {
+    title: row.title,
+    description: row.description,
+    priority: row.priority,
+    status: row.status,
+    dueDate: row.due_date ? new Date(row.due_date).toISOString() : null,
+    projectId: row.project_id,
+    assigneeId: row.assignee_id ?? null,
+    recurrenceRule: row.recurrence_rule,
+    tags: [...(row.tag_names ?? [])].sort(),
+  };
+}
+
+/**
+ * Lists the fields that differ between two snapshots. A null `before`
+ * records every non-empty field of `after` (i.e. a creation).
+ */
+export function diffTodoSnapshots(
+  before: TodoSnapshot | null,
+  after: TodoSnapshot
+): TodoChanges {
+  const changes: TodoChanges = {};
+
+  for (const key of Object.keys(after) as Array<keyof TodoSnapshot>) {
+    const previous = before ? before[key] : null;
+    const next = after[key];
+
+    // Compare by value so reordered-but-equal tag lists aren't reported.
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+    if (!before && (next === null || (Array.isArray(next) && next.length === 0))) continue;
+
+    changes[key] = { before: previous, after: next };
+  }
+
+  return changes;
+}
+
+/**
+ * Picks the event type for an update: status changes are called out so
+ * the timeline can show them distinctly.
+ */
+export function updateEventType(changes: TodoChanges): TodoEventType {
+  return "status" in changes ? "status_changed" : "updated";
+}
+
+/**
+ * Writes history entries. Pass the surrounding transaction so events are
+ * only kept when the change itself commits.
+ */
+export async function recordTodoEvents(
+  executor: Kysely<Database>,
+  events: NewTodoEvent[]
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  await executor
+    .insertInto("todo_events")
+    .values(
+      events.map((event) => ({
+        todo_id: event.todoId,
+        actor_id: event.actorId,
+        event_type: event.type,
+        changes: JSON.stringify(event.changes),
+      }))
+    )
+    .execute();
+}
+
+/**
+ * Reads a todo's history, newest first.
+ */
+export async function listTodoEvents(
+  executor: Kysely<Database>,
+  todoId: string
+): Promise<TodoEvent[]> {
+  const rows = await executor
+    .selectFrom("todo_events")
+    .leftJoin("users", "users.id", "todo_events.actor_id")
+    .select([
+      "todo_events.id",
+      "todo_events.todo_id",
+      "todo_events.event_type",
+      "todo_events.changes",
+      "todo_events.created_at",
+      "users.id as actor_id",
+      "users.name as actor_name",
+    ])
+    .where("todo_events.todo_id", "=", todoId)
+    .orderBy("todo_events.created_at", "desc")
+    .execute();
+
+  return rows.map(mapTodoEvent);
+}
+
+/**
+ * Maps event row to API response shape.
+ */
+export function mapTodoEvent(row: any): TodoEvent {
+  return {
+    id: row.id,
+    todoId: row.todo_id,
+    type: row.event_type,
+    actor: row.actor_id ? { id: row.actor_id, name: row.actor_name } : null,
+    changes: row.changes ?? {},
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,159 @@
+import type { FastifyInstance } from "fastify";
+import { sql, type Kysely } from "kysely";
+import pg from "pg";
+import { config } from "../config.js";
+import { db } from "../db/database.js";
+import type { Database } from "../db/schema.js";
+import { mapTodo, selectTodoAggregates } from "./todos.js";
+import type { TodoStreamEvent, TodoStreamEventType } from "@martian-todos/shared";
+
+// Postgres channel every backend instance listens on.
+const CHANNEL = "todo_changes";
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * A change to publish. Only ids go through NOTIFY (payloads are capped
+ * at 8000 bytes); each instance loads the todo once before fanning out.
+ */
+export interface TodoChange {
+  type: TodoStreamEventType;
+  todoId: string;
+}
+
+type NotifyPayload = TodoChange & { workspaceId: string; actorId: string | null };
+type StreamListener = (event: TodoStreamEvent) => void;
+
+// Open /events connections on this instance, by workspace.
+const listeners = new Map<string, Set<StreamListener>>();
+
+/**
+ * Publishes todo changes to every instance. Pass the transaction making
+ * the change: Postgres only delivers the notifications once it commits,
+ * and drops them if it rolls back.
+ */
+export async function publishTodoChanges(
+  executor: Kysely<Database>,
+  workspaceId: string,
+  actorId: string | null,
+  changes: TodoChange[]
+): Promise<void> {
+  if (changes.length === 0) return;
+
+  const payloads = changes.map((change) =>
+    JSON.stringify({ ...change, workspaceId, actorId } satisfies NotifyPayload)
+  );
+
+  await sql`select pg_notify(${CHANNEL}, payload) from unnest(${payloads}::text[]) as payload`
+    .execute(executor);
+}
+
+/**
+ * Calls `listener` with every change to the workspace's todos until the
+ * returned function is called.
+ */
+export function subscribeToWorkspace(workspaceId: string, listener: StreamListener): () => void {
+  let workspaceListeners = listeners.get(workspaceId);
+  if (!workspaceListeners) {
+    workspaceListeners = new Set();
+    listeners.set(workspaceId, workspaceListeners);
+  }
+  workspaceListeners.add(listener);
+
+  return () => {
+    workspaceListeners.delete(listener);
+    if (workspaceListeners.size === 0) listeners.delete(workspaceId);
+  };
+}
+
+/**
+ * Turns a notification into the event sent to clients, loading the todo
+ * for creates and updates. A todo that is gone (or trashed) by the time
+ * it's loaded is reported as deleted.
+ */
+async function buildEvent(payload: NotifyPayload): Promise<TodoStreamEvent> {
+  const base = {
+    todoId: payload.todoId,
+    workspaceId: payload.workspaceId,
+    actorId: payload.actorId,
+  };
+
+  if (payload.type === "todo.deleted") {
+    return { ...base, type: payload.type, todo: null };
+  }
+
+  const row = await db
+    .selectFrom("todos")
+    .selectAll()
+    .select(selectTodoAggregates)
+    .where("id", "=", payload.todoId)
+    .where("deleted_at", "is", null)
+    .executeTakeFirst();
+
+  return row
+    ? { ...base, type: payload.type, todo: mapTodo(row) }
+    : { ...base, type: "todo.deleted", todo: null };
+}
+
+/**
+ * Listens for todo changes on a dedicated connection (LISTEN can't share
+ * the query pool) and forwards them to this instance's subscribers.
+ * Reconnects after connection errors until the server closes.
+ */
+export function startTodoStream(fastify: FastifyInstance): void {
+  let client: pg.Client | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let closing = false;
+
+  const handleNotification = async (message: pg.Notification) => {
+    if (message.channel !== CHANNEL || !message.payload) return;
+
+    try {
+      const payload = JSON.parse(message.payload) as NotifyPayload;
+      const subscribers = listeners.get(payload.workspaceId);
+      if (!subscribers || subscribers.size === 0) return;
+
+      const event = await buildEvent(payload);
+      for (const listener of subscribers) {
+        listener(event);
+      }
+    } catch (err) {
+      fastify.log.error(err, "Failed to forward todo change");
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (closing || reconnectTimer) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      void connect();
+    }, RECONNECT_DELAY_MS);
+  };
+
+  const connect = async () => {
+    const next = new pg.Client({ connectionString: config.DATABASE_URL });
+    next.on("notification", (message) => void handleNotification(message));
+    next.on("error", (err) => {
+      fastify.log.error(err, "Todo stream connection failed");
+      if (client === next) client = null;
+      void next.end().catch(() => undefined);
+      scheduleReconnect();
+    });
+
+    try {
+      await next.connect();
+      await next.query(`LISTEN ${CHANNEL}`);
+      client = next;
+    } catch (err) {
+      fastify.log.error(err, "Todo stream connection failed");
+      void next.end().catch(() => undefined);
+      scheduleReconnect();
+    }
+  };
+
+  fastify.addHook("onReady", connect);
+  fastify.addHook("onClose", async () => {
+    closing = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    await client?.end();
+  });
+}
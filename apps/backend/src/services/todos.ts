@@ -0,0 +1,91 @@
+import { sql, type ExpressionBuilder } from "kysely";
+import type { Database } from "../db/schema.js";
+import type { Subtask, Todo } from "@martian-todos/shared";
+
+/**
+ * Selects subtask and comment counts, tag names and the assignee's name
+ * alongside each todo row.
+ */
+export function selectTodoAggregates(eb: ExpressionBuilder<Database, "todos">) {
+  return [
+    eb
+      .selectFrom("todo_tags")
+      .innerJoin("tags", "tags.id", "todo_tags.tag_id")
+      .select(
+        sql<string[]>`coalesce(array_agg(tags.name order by tags.name), '{}')`.as("names")
+      )
+      .whereRef("todo_tags.todo_id", "=", "todos.id")
+      .as("tag_names"),
+    eb
+      .selectFrom("todo_subtasks")
+      .select(eb.fn.countAll().as("count"))
+      .whereRef("todo_subtasks.todo_id", "=", "todos.id")
+      .where("todo_subtasks.completed", "=", true)
+      .as("subtask_done"),
+    eb
+      .selectFrom("todo_subtasks")
+      .select(eb.fn.countAll().as("count"))
+      .whereRef("todo_subtasks.todo_id", "=", "todos.id")
+      .as("subtask_total"),
+    eb
+      .selectFrom("todo_comments")
+      .select(eb.fn.countAll().as("count"))
+      .whereRef("todo_comments.todo_id", "=", "todos.id")
+      .as("comment_count"),
+    eb
+      .selectFrom("users")
+      .select("users.name")
+      .whereRef("users.id", "=", "todos.assignee_id")
+      .as("assignee_name"),
+  ];
+}
+
+/**
+ * Maps database row to API response shape.
+ */
+export function mapTodo(row: any): Todo {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    userId: row.user_id,
+    title: row.title,
+    description: row.description,
+    priority: row.priority,
+    status: row.status,
+    dueDate: row.due_date,
+    projectId: row.project_id,
+    assigneeId: row.assignee_id ?? null,
+    assignee: row.assignee_id ? { id: row.assignee_id, name: row.assignee_name } : null,
+    recurrenceRule: row.recurrence_rule,
+    subtaskProgress: {
+      done: Number(row.subtask_done ?? 0),
+      total: Number(row.subtask_total ?? 0),
+    },
+    commentCount: Number(row.comment_count ?? 0),
+    tags: row.tag_names ?? [],
+    deletedAt: row.deleted_at ?? null,
+    ...(row.title_highlight !== undefined && {
+      highlight: {
+        title: row.title_highlight,
+        description: row.description_highlight,
+      },
+    }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Maps subtask row to API response shape.
+ */
+export function mapSubtask(row: any): Subtask {
+  return {
+    id: row.id,
+    todoId: row.todo_id,
+    title: row.title,
+    completed: row.completed,
+    position: row.position,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
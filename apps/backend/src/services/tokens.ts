@@ -0,0 +1,55 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from "crypto";
+import { config } from "../config.js";
+
+const TOKEN_BYTES = 32;
+const CIPHER = "aes-256-gcm";
+const CIPHER_IV_BYTES = 12;
+
+/**
+ * Generates a cryptographically secure opaque token.
+ */
+export function generateToken(): string {
+  return randomBytes(TOKEN_BYTES).toString("hex");
+}
+
+/**
+ * Hashes an opaque token for storage, so a database leak doesn't leak
+ * usable tokens.
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Derives a key from JWT_SECRET for one purpose. Signing each kind of
+ * token with its own key keeps them from being accepted in place of one
+ * another (e.g. a verification link as an access token).
+ */
+export function deriveKey(purpose: string): Buffer {
+  return createHmac("sha256", config.JWT_SECRET).update(purpose).digest();
+}
+
+const SECRET_BOX_KEY = deriveKey("secret-box");
+
+/**
+ * Encrypts a secret we must be able to read back (unlike tokens, which
+ * are only hashed).
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(CIPHER_IV_BYTES);
+  const cipher = createCipheriv(CIPHER, SECRET_BOX_KEY, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64url")).join(".");
+}
+
+/**
+ * Decrypts a value produced by `encryptSecret`.
+ */
+export function decryptSecret(encrypted: string): string {
+  const [iv, tag, ciphertext] = encrypted.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv(CIPHER, SECRET_BOX_KEY, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,125 @@
+import type { FastifyInstance } from "fastify";
+import type { Kysely } from "kysely";
+import { randomBytes } from "crypto";
+import type { Database } from "../db/schema.js";
+import { matchTotp } from "./totp.js";
+import { decryptSecret, deriveKey, hashToken } from "./tokens.js";
+
+const CHALLENGE_KEY = deriveKey("two-factor-challenge");
+const CHALLENGE_TTL = "5m";
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_BYTES = 8;
+
+/**
+ * Signs the token a client exchanges, together with a code, at
+ * `/auth/login/2fa` after the password step succeeded.
+ */
+export function createLoginChallenge(fastify: FastifyInstance, userId: string): string {
+  return fastify.jwt.sign({ sub: userId }, { key: CHALLENGE_KEY, expiresIn: CHALLENGE_TTL });
+}
+
+/**
+ * Returns the user id from a valid, unexpired login challenge, or null.
+ */
+export function readLoginChallenge(fastify: FastifyInstance, token: string): string | null {
+  try {
+    const claims = fastify.jwt.verify<{ sub?: string }>(token, { key: CHALLENGE_KEY });
+    return claims.sub ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Strips formatting so "ABCD-1234" and "abcd 1234" hash the same.
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Replaces the user's recovery codes with a fresh set and returns them.
+ * This is the only time the plain codes are available.
+ */
+export async function replaceRecoveryCodes(
+  executor: Kysely<Database>,
+  userId: string
+): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    randomBytes(RECOVERY_CODE_BYTES)
+      .toString("hex")
+      .match(/.{4}/g)!
+      .join("-")
+  );
+
+  await executor.deleteFrom("recovery_codes").where("user_id", "=", userId).execute();
+  await executor
+    .insertInto("recovery_codes")
+    .values(
+      codes.map((code) => ({
+        user_id: userId,
+        code_hash: hashToken(normalizeRecoveryCode(code)),
+      }))
+    )
+    .execute();
+
+  return codes;
+}
+
+/**
+ * Accepts a time step for the user unless it (or a later one) was already
+ * used, which would mean the code is being replayed.
+ */
+async function consumeTotpStep(
+  executor: Kysely<Database>,
+  userId: string,
+  step: number
+): Promise<boolean> {
+  const result = await executor
+    .updateTable("users")
+    .set({ totp_last_step: step })
+    .where("id", "=", userId)
+    .where((eb) => eb.or([eb("totp_last_step", "is", null), eb("totp_last_step", "<", step)]))
+    .executeTakeFirst();
+
+  return Number(result.numUpdatedRows) > 0;
+}
+
+/**
+ * Checks an authenticator code against the user's (possibly pending)
+ * secret, without falling back to recovery codes.
+ */
+export async function verifyTotpCode(
+  executor: Kysely<Database>,
+  user: { id: string; totp_secret: string | null },
+  code: string
+): Promise<boolean> {
+  if (!user.totp_secret) return false;
+
+  const step = matchTotp(decryptSecret(user.totp_secret), code);
+  return step !== null && consumeTotpStep(executor, user.id, step);
+}
+
+/**
+ * Checks a second factor: an authenticator code, or else an unused
+ * recovery code, which is spent.
+ */
+export async function verifySecondFactor(
+  executor: Kysely<Database>,
+  user: { id: string; totp_secret: string | null },
+  code: string
+): Promise<boolean> {
+  if (await verifyTotpCode(executor, user, code)) {
+    return true;
+  }
+
+  const spent = await executor
+    .updateTable("recovery_codes")
+    .set({ used_at: new Date() })
+    .where("user_id", "=", user.id)
+    .where("code_hash", "=", hashToken(normalizeRecoveryCode(code)))
+    .where("used_at", "is", null)
+    .executeTakeFirst();
+
+  return Number(spent.numUpdatedRows) > 0;
+}
@@ -0,0 +1,49 @@
+import bcrypt from "bcrypt";
+import type { User } from "@martian-todos/shared";
+
+export type UserRow = {
+  id: string;
+  email: string;
+  name: string;
+  email_verified_at: Date | null;
+  totp_enabled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+};
+
+// Columns selected for building a User response.
+export const USER_COLUMNS = [
+  "id",
+  "email",
+  "name",
+  "email_verified_at",
+  "totp_enabled_at",
+  "created_at",
+  "updated_at",
+] as const;
+
+/**
+ * Compares a password with the stored hash. Accounts created through
+ * single sign-on have no password, so nothing matches.
+ */
+export async function checkPassword(
+  password: string,
+  passwordHash: string | null
+): Promise<boolean> {
+  return passwordHash !== null && bcrypt.compare(password, passwordHash);
+}
+
+/**
+ * Maps database row to API user response.
+ */
+export function mapUser(row: UserRow): User {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    emailVerifiedAt: row.email_verified_at,
+    twoFactorEnabled: row.totp_enabled_at !== null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,391 @@
+import { createHmac, randomUUID } from "crypto";
+import dns from "dns";
+import { BlockList, type LookupFunction } from "net";
+import type { Kysely } from "kysely";
+import { Agent, fetch } from "undici";
+import { config } from "../config.js";
+import { db } from "../db/database.js";
+import type { Database } from "../db/schema.js";
+import { decryptSecret } from "./tokens.js";
+import type { TodoChange } from "./todoStream.js";
+import { mapTodo, selectTodoAggregates } from "./todos.js";
+import type { Webhook, WebhookDelivery, WebhookPayload } from "@martian-todos/shared";
+
+// Attempts per delivery before giving up on it. Retries back off
+// exponentially from RETRY_BASE_DELAY_MS: 30s, 1m, 2m, ... about 1h total.
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+// Failed attempts in a row (across deliveries) that disable a webhook.
+export const DISABLE_AFTER_FAILURES = 15;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+export const SIGNATURE_HEADER = "X-Signature";
+
+// Addresses webhooks may not reach unless WEBHOOK_ALLOW_PRIVATE_TARGETS is
+// set: this host, private networks, link-local (including cloud metadata
+// endpoints), and other special-purpose ranges. BlockList checks
+// IPv4-mapped IPv6 addresses against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Signs a request body with the webhook's secret, as sent in X-Signature.
+ */
+export function signPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * How long to wait before retrying after the given number of attempts.
+ */
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+}
+
+const PRIVATE_TARGET_ERROR = "Webhook URL must point to a public address";
+
+function isPrivateAddress({ address, family }: dns.LookupAddress): boolean {
+  return PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Resolves hosts for delivery connections, failing if any address is
+ * private. Checking the addresses actually connected to, rather than an
+ * earlier lookup, stops hosts that re-resolve elsewhere (DNS rebinding).
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (addresses.some(isPrivateAddress)) {
+      return callback(new Error(PRIVATE_TARGET_ERROR), "");
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const deliveryAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * Resolves a webhook URL's host and returns why it can't receive
+ * deliveries, or null when every address it resolves to is public.
+ */
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  if (config.WEBHOOK_ALLOW_PRIVATE_TARGETS) return null;
+
+  // IPv6 literals keep their brackets in URL.hostname.
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `Could not resolve ${host}`;
+  }
+
+  return addresses.some(isPrivateAddress) ? PRIVATE_TARGET_ERROR : null;
+}
+
+/**
+ * Maps webhook row to API response shape. The secret is never returned.
+ */
+export function mapWebhook(row: any): Webhook {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    url: row.url,
+    events: row.events,
+    enabled: row.enabled,
+    consecutiveFailures: row.consecutive_failures,
+    disabledAt: row.disabled_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Maps webhook delivery row to API response shape.
+ */
+export function mapWebhookDelivery(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventType: row.event_type,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    error: row.error,
+    nextAttemptAt: row.next_attempt_at,
+    lastAttemptAt: row.last_attempt_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Queues deliveries of todo changes to the workspace's enabled webhooks
+ * that subscribe to them. Pass the transaction making the change, after
+ * it's written, so payloads carry the new state and nothing is sent for
+ * changes that roll back. Deleted todos must still exist (trashed, or not
+ * yet purged) to be included in their payload.
+ */
+export async function enqueueWebhookDeliveries(
+  executor: Kysely<Database>,
+  workspaceId: string,
+  actorId: string | null,
+  changes: TodoChange[]
+): Promise<void> {
+  if (changes.length === 0) return;
+
+  const webhooks = await executor
+    .selectFrom("webhooks")
+    .select(["id", "events"])
+    .where("workspace_id", "=", workspaceId)
+    .where("enabled", "=", true)
+    .execute();
+
+  const subscribed = changes.filter((change) =>
+    webhooks.some((webhook) => webhook.events.includes(change.type))
+  );
+  if (subscribed.length === 0) return;
+
+  const rows = await executor
+    .selectFrom("todos")
+    .selectAll()
+    .select(selectTodoAggregates)
+    .where("id", "in", [...new Set(subscribed.map((change) => change.todoId))])
+    .execute();
+  const todos = new Map(rows.map((row) => [row.id, mapTodo(row)]));
+
+  const now = new Date();
+  const deliveries = subscribed.flatMap((change) =>
+    webhooks
+      .filter((webhook) => webhook.events.includes(change.type))
+      .map((webhook) => {
+        const id = randomUUID();
+        const payload: WebhookPayload = {
+          id,
+          type: change.type,
+          workspaceId,
+          actorId,
+          createdAt: now.toISOString(),
+          todo: todos.get(change.todoId) ?? null,
+        };
+
+        return {
+          id,
+          webhook_id: webhook.id,
+          event_type: change.type,
+          payload: JSON.stringify(payload),
+          next_attempt_at: now,
+        };
+      })
+  );
+
+  await executor.insertInto("webhook_deliveries").values(deliveries).execute();
+}
+
+/**
+ * Records a test event for a webhook, already claimed so the worker
+ * leaves it alone. Send it with `attemptWebhookDelivery`.
+ */
+export async function createTestDelivery(
+  executor: Kysely<Database>,
+  webhook: { id: string; workspace_id: string },
+  actorId: string
+): Promise<string> {
+  const id = randomUUID();
+  const payload: WebhookPayload = {
+    id,
+    type: "webhook.test",
+    workspaceId: webhook.workspace_id,
+    actorId,
+    createdAt: new Date().toISOString(),
+    todo: null,
+  };
+
+  await executor
+    .insertInto("webhook_deliveries")
+    .values({
+      id,
+      webhook_id: webhook.id,
+      event_type: "webhook.test",
+      payload: JSON.stringify(payload),
+      status: "processing",
+      last_attempt_at: new Date(),
+    })
+    .execute();
+
+  return id;
+}
+
+/**
+ * Marks a webhook's queued deliveries failed, once it's disabled.
+ */
+export async function failPendingDeliveries(
+  executor: Kysely<Database>,
+  webhookId: string,
+  reason: string
+): Promise<void> {
+  await executor
+    .updateTable("webhook_deliveries")
+    .set({ status: "failed", error: reason, next_attempt_at: null })
+    .where("webhook_id", "=", webhookId)
+    .where("status", "=", "pending")
+    .execute();
+}
+
+/**
+ * POSTs the payload. Resolves with the response status; rejects on
+ * network errors, timeouts and private targets. Redirects aren't
+ * followed.
+ */
+async function postPayload(
+  url: string,
+  secret: string,
+  delivery: { id: string; event_type: string; payload: unknown }
+): Promise<number> {
+  // Catches IP literals, which connect without a lookup; hostnames are
+  // checked again as the connection resolves them.
+  const targetError = await checkWebhookTarget(url);
+  if (targetError) {
+    throw new Error(targetError);
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "Martian-Todos-Webhooks/1.0",
+      "X-Webhook-Event": delivery.event_type,
+      "X-Webhook-Delivery": delivery.id,
+      [SIGNATURE_HEADER]: signPayload(secret, body),
+    },
+    body,
+    redirect: "manual",
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    ...(!config.WEBHOOK_ALLOW_PRIVATE_TARGETS && { dispatcher: deliveryAgent }),
+  });
+
+  // We only need the status; don't hold the connection open for the body.
+  await response.body?.cancel();
+  return response.status;
+}
+
+/**
+ * Sends a claimed delivery once and records the outcome. Failed event
+ * deliveries are rescheduled with backoff until MAX_DELIVERY_ATTEMPTS,
+ * and count toward disabling the webhook; test events are sent once and
+ * don't.
+ */
+export async function attemptWebhookDelivery(deliveryId: string): Promise<void> {
+  const delivery = await db
+    .selectFrom("webhook_deliveries")
+    .innerJoin("webhooks", "webhooks.id", "webhook_deliveries.webhook_id")
+    .select([
+      "webhook_deliveries.id",
+      "webhook_deliveries.webhook_id",
+      "webhook_deliveries.event_type",
+      "webhook_deliveries.payload",
+      "webhook_deliveries.attempts",
+      "webhooks.url",
+      "webhooks.secret",
+    ])
+    .where("webhook_deliveries.id", "=", deliveryId)
+    .executeTakeFirst();
+
+  if (!delivery) return;
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    responseStatus = await postPayload(delivery.url, decryptSecret(delivery.secret), delivery);
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `Responded with HTTP ${responseStatus}`;
+    }
+  } catch (err) {
+    // fetch wraps connection errors ("fetch failed"); the cause says why.
+    const reason = err instanceof Error && err.cause instanceof Error ? err.cause : err;
+    error = (reason instanceof Error ? reason.message : String(reason)).slice(0, MAX_ERROR_LENGTH);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const isTest = delivery.event_type === "webhook.test";
+  const retry = error !== null && !isTest && attempts < MAX_DELIVERY_ATTEMPTS;
+  const now = new Date();
+
+  await db.transaction().execute(async (trx) => {
+    await trx
+      .updateTable("webhook_deliveries")
+      .set({
+        status: error === null ? "succeeded" : retry ? "pending" : "failed",
+        attempts,
+        response_status: responseStatus,
+        error,
+        last_attempt_at: now,
+        next_attempt_at: retry ? new Date(now.getTime() + retryDelayMs(attempts)) : null,
+      })
+      .where("id", "=", delivery.id)
+      .execute();
+
+    if (isTest) return;
+
+    if (error === null) {
+      await trx
+        .updateTable("webhooks")
+        .set({ consecutive_failures: 0 })
+        .where("id", "=", delivery.webhook_id)
+        .where("consecutive_failures", ">", 0)
+        .execute();
+      return;
+    }
+
+    const webhook = await trx
+      .updateTable("webhooks")
+      .set((eb) => ({ consecutive_failures: eb("consecutive_failures", "+", 1) }))
+      .where("id", "=", delivery.webhook_id)
+      .returning(["consecutive_failures", "enabled"])
+      .executeTakeFirst();
+
+    if (webhook?.enabled && webhook.consecutive_failures >= DISABLE_AFTER_FAILURES) {
+      await trx
+        .updateTable("webhooks")
+        .set({ enabled: false, disabled_at: now, updated_at: now.toISOString() })
+        .where("id", "=", delivery.webhook_id)
+        .execute();
+      await failPendingDeliveries(
+        trx,
+        delivery.webhook_id,
+        "Webhook disabled after repeated failures"
+      );
+    }
+  });
+}
@@ -0,0 +1,67 @@
+import type { WorkspaceRole } from "@martian-todos/shared";
+
+/**
+ * Who may do what in a workspace. Route handlers ask `can()` instead of
+ * comparing roles themselves, so the rules live in one place.
+ */
+
+export type WorkspaceAction =
+  // Todos, projects, tags and everything hanging off them
+  | "content:read"
+  | "content:write"
+  | "workspace:rename"
+  | "workspace:delete"
+  | "members:read"
+  | "members:manage"
+  // Webhooks send every todo change to an outside URL
+  | "webhooks:manage";
+
+/**
+ * The caller's membership in the workspace a request acts on.
+ */
+export interface WorkspaceAccess {
+  workspaceId: string;
+  role: WorkspaceRole;
+  personal: boolean;
+}
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, readonly WorkspaceAction[]> = {
+  owner: [
+    "content:read",
+    "content:write",
+    "workspace:rename",
+    "workspace:delete",
+    "members:read",
+    "members:manage",
+    "webhooks:manage",
+  ],
+  editor: ["content:read", "content:write", "members:read"],
+  viewer: ["content:read", "members:read"],
+};
+
+// A personal workspace belongs to one user for good: it can't be shared
+// or deleted.
+const PERSONAL_WORKSPACE_EXCLUDED: readonly WorkspaceAction[] = [
+  "workspace:delete",
+  "members:manage",
+];
+
+/**
+ * Whether the member may perform the action.
+ */
+export function can(access: WorkspaceAccess, action: WorkspaceAction): boolean {
+  if (access.personal && PERSONAL_WORKSPACE_EXCLUDED.includes(action)) {
+    return false;
+  }
+  return ROLE_PERMISSIONS[access.role].includes(action);
+}
+
+/**
+ * Explains a denied action, for the 403 response.
+ */
+export function deniedMessage(access: WorkspaceAccess, action: WorkspaceAction): string {
+  if (access.personal && PERSONAL_WORKSPACE_EXCLUDED.includes(action)) {
+    return "Personal workspaces can't be shared or deleted";
+  }
+  return `Your role (${access.role}) doesn't allow this in the workspace`;
+}
@@ -0,0 +1,236 @@
+import type { Kysely } from "kysely";
+import type { Database } from "../db/schema.js";
+import { config } from "../config.js";
+import { mailer } from "./mailer.js";
+import type { WorkspaceAccess } from "./workspacePolicy.js";
+import type {
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+} from "@martian-todos/shared";
+
+export const PERSONAL_WORKSPACE_NAME = "Personal";
+export const INVITATION_TTL_DAYS = 7;
+
+/**
+ * Creates a workspace with the user as its owner. Returns its id.
+ */
+export async function createWorkspace(
+  executor: Kysely<Database>,
+  ownerId: string,
+  name: string,
+  options: { personal?: boolean } = {}
+): Promise<string> {
+  const workspace = await executor
+    .insertInto("workspaces")
+    .values({ name, personal: options.personal ?? false })
+    .returning("id")
+    .executeTakeFirstOrThrow();
+
+  await executor
+    .insertInto("workspace_members")
+    .values({ workspace_id: workspace.id, user_id: ownerId, role: "owner" })
+    .execute();
+
+  return workspace.id;
+}
+
+/**
+ * Gives a new user the personal workspace their todos go to by default.
+ */
+export async function createPersonalWorkspace(
+  executor: Kysely<Database>,
+  userId: string
+): Promise<string> {
+  return createWorkspace(executor, userId, PERSONAL_WORKSPACE_NAME, { personal: true });
+}
+
+/**
+ * Looks up the user's membership in a workspace, or in their personal
+ * workspace when no id is given. Undefined when they aren't a member.
+ */
+export async function findWorkspaceAccess(
+  executor: Kysely<Database>,
+  userId: string,
+  workspaceId: string | null
+): Promise<WorkspaceAccess | undefined> {
+  let query = executor
+    .selectFrom("workspace_members")
+    .innerJoin("workspaces", "workspaces.id", "workspace_members.workspace_id")
+    .select(["workspaces.id", "workspaces.personal", "workspace_members.role"])
+    .where("workspace_members.user_id", "=", userId);
+
+  query = workspaceId
+    ? query.where("workspaces.id", "=", workspaceId)
+    : query.where("workspaces.personal", "=", true);
+
+  const row = await query.executeTakeFirst();
+
+  return row ? { workspaceId: row.id, role: row.role, personal: row.personal } : undefined;
+}
+
+/**
+ * Whether the user belongs to the workspace, e.g. before assigning them a
+ * todo there.
+ */
+export async function isWorkspaceMember(
+  executor: Kysely<Database>,
+  workspaceId: string,
+  userId: string
+): Promise<boolean> {
+  const member = await executor
+    .selectFrom("workspace_members")
+    .select("user_id")
+    .where("workspace_id", "=", workspaceId)
+    .where("user_id", "=", userId)
+    .executeTakeFirst();
+
+  return Boolean(member);
+}
+
+/**
+ * Counts a workspace's owners, so the last one can't leave or be demoted.
+ */
+export async function countOwners(
+  executor: Kysely<Database>,
+  workspaceId: string
+): Promise<number> {
+  const result = await executor
+    .selectFrom("workspace_members")
+    .select(executor.fn.countAll().as("count"))
+    .where("workspace_id", "=", workspaceId)
+    .where("role", "=", "owner")
+    .executeTakeFirst();
+
+  return Number(result?.count ?? 0);
+}
+
+export interface MembershipCounts {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+  ownerCount: number;
+}
+
+/**
+ * Lists the user's workspaces with how many members and owners each has,
+ * so account deletion can tell which ones would be orphaned.
+ */
+export async function listMembershipCounts(
+  executor: Kysely<Database>,
+  userId: string
+): Promise<MembershipCounts[]> {
+  const rows = await executor
+    .selectFrom("workspace_members as membership")
+    .innerJoin("workspaces", "workspaces.id", "membership.workspace_id")
+    .select((eb) => [
+      "workspaces.id",
+      "workspaces.name",
+      "membership.role",
+      eb
+        .selectFrom("workspace_members")
+        .select(eb.fn.countAll().as("count"))
+        .whereRef("workspace_members.workspace_id", "=", "workspaces.id")
+        .as("member_count"),
+      eb
+        .selectFrom("workspace_members")
+        .select(eb.fn.countAll().as("count"))
+        .whereRef("workspace_members.workspace_id", "=", "workspaces.id")
+        .where("workspace_members.role", "=", "owner")
+        .as("owner_count"),
+    ])
+    .where("membership.user_id", "=", userId)
+    .execute();
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    memberCount: Number(row.member_count ?? 0),
+    ownerCount: Number(row.owner_count ?? 0),
+  }));
+}
+
+/**
+ * Returns when an invitation created now expires.
+ */
+export function getInvitationExpiresAt(): Date {
+  return new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Emails an invitation link. Opening it signs the invitee in (or lets
+ * them register) and then joins the workspace.
+ */
+export async function sendInvitationEmail(invitation: {
+  email: string;
+  token: string;
+  workspaceName: string;
+  inviterName: string;
+  role: WorkspaceRole;
+}): Promise<void> {
+  const link = new URL("/", config.APP_URL);
+  link.searchParams.set("invitation", invitation.token);
+  const article = invitation.role === "viewer" ? "a" : "an";
+
+  await mailer.send({
+    to: invitation.email,
+    subject: `${invitation.inviterName} invited you to ${invitation.workspaceName} on Martian Todos`,
+    text: [
+      "Hi,",
+      "",
+      `${invitation.inviterName} invited you to join the "${invitation.workspaceName}" workspace ` +
+        `on Martian Todos as ${article} ${invitation.role}.`,
+      "Sign in or create an account with this email address, then open:",
+      "",
+      link.toString(),
+      "",
+      `The invitation expires in ${INVITATION_TTL_DAYS} days.`,
+    ].join("\n"),
+  });
+}
+
+/**
+ * Maps workspace row (joined with the caller's membership) to API
+ * response shape.
+ */
+export function mapWorkspace(row: any): Workspace {
+  return {
+    id: row.id,
+    name: row.name,
+    personal: row.personal,
+    role: row.role,
+    memberCount: Number(row.member_count ?? 1),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Maps member row (joined with users) to API response shape.
+ */
+export function mapWorkspaceMember(row: any): WorkspaceMember {
+  return {
+    userId: row.user_id,
+    name: row.name,
+    email: row.email,
+    role: row.role,
+    joinedAt: row.created_at,
+  };
+}
+
+/**
+ * Maps invitation row to API response shape.
+ */
+export function mapWorkspaceInvitation(row: any): WorkspaceInvitation {
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    invitedBy: row.inviter_id ? { id: row.inviter_id, name: row.inviter_name } : null,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+  };
+}
@@ -1,18 +1,63 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from "react";
-import type { CreateTodoInput, Todo, TodoStatus } from "@martian-todos/shared";
-import { isOverdue } from "@martian-todos/shared";
+import type {
+  CreateProjectInput,
+  CreateTodoInput,
+  Project,
+  ProjectDeleteMode,
+  Tag,
+  Todo,
+  TodoStats,
+  TodoStatus,
+  TodoStreamEvent,
+  Workspace,
+  WorkspaceMember,
+} from "@martian-todos/shared";
+import { AccountPage } from "./components/AccountPage";
 import { AddTodoForm } from "./components/AddTodoForm";
+import { AssignedView } from "./components/AssignedView";
 import { ErrorBoundary } from "./components/ErrorBoundary";
 import {
   FilterBar,
   DEFAULT_FILTERS,
   type FilterState,
+  type SortOption,
 } from "./components/FilterBar";
 import { KeyboardShortcuts } from "./components/KeyboardShortcuts";
 import { LoginForm } from "./components/LoginForm";
+import { ProjectSidebar, type ProjectFilter } from "./components/ProjectSidebar";
+import { ResetPasswordForm } from "./components/ResetPasswordForm";
 import { TodoList } from "./components/TodoList";
+import { TrashView } from "./components/TrashView";
+import { UndoToast } from "./components/UndoToast";
+import { VerifyEmailBanner } from "./components/VerifyEmailBanner";
+import { WorkspacePage } from "./components/WorkspacePage";
 import { useAuth } from "./hooks/useAuth";
-import { createTodo, deleteTodo, fetchTodos, updateTodo } from "./api/todos";
+import { useTodoStream } from "./hooks/useTodoStream";
+import {
+  createTodo,
+  deleteTodo,
+  fetchTodo,
+  fetchTodoStats,
+  fetchTodos,
+  restoreTodo,
+  updateTodo,
+  type TodoListQuery,
+} from "./api/todos";
+import { fetchTags } from "./api/tags";
+import { exchangeSsoCode, verifyEmail } from "./api/auth";
+import {
+  readSession,
+  readWorkspaceId,
+  saveWorkspaceId,
+  updateSessionUser,
+} from "./api/session";
+import {
+  createProject,
+  deleteProject,
+  fetchProjects,
+  updateProject,
+} from "./api/projects";
+import { acceptInvitation, fetchMembers, fetchWorkspaces } from "./api/workspaces";
 
 const SHORTCUTS = [
   { keys: "N", label: "Focus new todo" },
@@ -20,82 +65,108 @@ const SHORTCUTS = [
   { keys: "Esc", label: "Clear search" },
 ];
 
+const PAGE_SIZE = 20;
+const FILTER_DEBOUNCE_MS = 250;
+
+const SORT_PARAMS: Record<SortOption, Pick<TodoListQuery, "sortBy" | "sortOrder">> = {
+  created_desc: { sortBy: "createdAt", sortOrder: "desc" },
+  created_asc: { sortBy: "createdAt", sortOrder: "asc" },
+  priority_desc: { sortBy: "priority", sortOrder: "desc" },
+  priority_asc: { sortBy: "priority", sortOrder: "asc" },
+  due_asc: { sortBy: "dueDate", sortOrder: "asc" },
+  due_desc: { sortBy: "dueDate", sortOrder: "desc" },
+  relevance: { sortBy: "relevance", sortOrder: "desc" },
+};
+
 /**
- * Normalizes date-like values to numeric timestamps for sorting.
+ * Translates the filter bar and sidebar selection into a list query,
+ * so filtering and sorting happen on the server across every page.
  */
-function normalizeDate(value: Date | string | null): number {
-  if (!value) return 0;
-  const parsed = typeof value === "string" ? new Date(value) : value;
-  return parsed.getTime();
+function buildTodoQuery(filters: FilterState, project: ProjectFilter): TodoListQuery {
+  const search = filters.search.trim();
+
+  return {
+    search: search || undefined,
+    status: filters.status === "all" ? undefined : filters.status,
+    priority: filters.priority === "all" ? undefined : filters.priority,
+    tags: filters.tags.length > 0 ? filters.tags : undefined,
+    tagMatch: filters.tags.length > 1 ? filters.tagMatch : undefined,
+    assignee: filters.assignee === "all" ? undefined : filters.assignee,
+    projectId:
+      project === "all" || project === "assigned" || project === "trash" ? undefined : project,
+    ...SORT_PARAMS[filters.sort],
+    pageSize: PAGE_SIZE,
+  };
 }
 
 /**
- * Maps priority strings to numeric ranks for sorting.
+ * Whether a todo belongs in the list for a query, so live changes from
+ * other users can be placed without refetching. Search relevance is
+ * ranked on the server and isn't checked here.
  */
-function priorityRank(priority: Todo["priority"]): number {
-  if (priority === "high") return 3;
-  if (priority === "medium") return 2;
-  return 1;
+function matchesQuery(todo: Todo, query: TodoListQuery, userId: string | null): boolean {
+  if (query.status && todo.status !== query.status) return false;
+  if (query.priority && todo.priority !== query.priority) return false;
+
+  if (query.projectId === "inbox") {
+    if (todo.projectId !== null) return false;
+  } else if (query.projectId && todo.projectId !== query.projectId) {
+    return false;
+  }
+
+  if (query.assignee === "me") {
+    if (!userId || todo.assigneeId !== userId) return false;
+  } else if (query.assignee === "unassigned") {
+    if (todo.assigneeId !== null) return false;
+  } else if (query.assignee && todo.assigneeId !== query.assignee) {
+    return false;
+  }
+
+  if (query.tags) {
+    const hasTag = (tag: string) => todo.tags.includes(tag);
+    const tagsMatch =
+      query.tagMatch === "all" ? query.tags.every(hasTag) : query.tags.some(hasTag);
+    if (!tagsMatch) return false;
+  }
+
+  return true;
 }
 
+// Query parameters carried by links in emails and the SSO redirect.
+const RESET_TOKEN_PARAM = "reset_token";
+const VERIFY_TOKEN_PARAM = "verify_token";
+const SSO_CODE_PARAM = "sso_code";
+const SSO_ERROR_PARAM = "sso_error";
+const INVITATION_PARAM = "invitation";
+
+// What went wrong when single sign-on sends the user back with an error.
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  cancelled: "Single sign-on was cancelled.",
+  email_unverified: "Your identity provider hasn't verified your email address.",
+  invalid_state: "That sign-in attempt expired. Please try again.",
+};
+
 /**
- * Checks whether a todo matches the current search query.
+ * Reads a token from an emailed link, if present.
  */
-function matchesSearch(todo: Todo, query: string): boolean {
-  if (!query) return true;
-  const needle = query.toLowerCase();
-  return (
-    todo.title.toLowerCase().includes(needle) ||
-    todo.description?.toLowerCase().includes(needle)
-  );
+function readUrlParam(name: string): string | null {
+  return new URLSearchParams(window.location.search).get(name);
 }
 
 /**
- * Filters todos based on the active filter state.
+ * Drops a token from the address bar once it has been used.
  */
-function applyFilters(todos: Todo[], filters: FilterState): Todo[] {
-  return todos.filter((todo) => {
-    // Match text search across title and description.
-    if (!matchesSearch(todo, filters.search.trim())) return false;
-
-    // Match status when a specific status filter is selected.
-    if (filters.status !== "all" && todo.status !== filters.status) return false;
-
-    // Match priority when a specific priority filter is selected.
-    if (filters.priority !== "all" && todo.priority !== filters.priority) {
-      return false;
-    }
-
-    return true;
-  });
+function clearUrlParam(name: string): void {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(name);
+  window.history.replaceState(null, "", url);
 }
 
 /**
- * Sorts todos based on the selected sort option.
+ * Checks whether a request failed only because we cancelled it.
  */
-function sortTodos(todos: Todo[], sort: FilterState["sort"]): Todo[] {
-  const sorted = [...todos];
-
-  sorted.sort((a, b) => {
-    // Keep the most recently updated items prominent by default.
-    switch (sort) {
-      case "created_asc":
-        return normalizeDate(a.createdAt) - normalizeDate(b.createdAt);
-      case "priority_desc":
-        return priorityRank(b.priority) - priorityRank(a.priority);
-      case "priority_asc":
-        return priorityRank(a.priority) - priorityRank(b.priority);
-      case "due_asc":
-        return normalizeDate(a.dueDate) - normalizeDate(b.dueDate);
-      case "due_desc":
-        return normalizeDate(b.dueDate) - normalizeDate(a.dueDate);
-      case "created_desc":
-      default:
-        return normalizeDate(b.createdAt) - normalizeDate(a.createdAt);
-    }
-  });
-
-  return sorted;
+function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
 }
 
 /**
@@ -120,12 +191,53 @@ function isEditableTarget(event: KeyboardEvent): boolean {
 function App() {
   const { token, user, login, logout } = useAuth();
   const [todos, setTodos] = useState<Todo[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProject, setActiveProject] = useState<ProjectFilter>("all");
+  const [showAccount, setShowAccount] = useState(false);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(() => readWorkspaceId());
+  const [showWorkspace, setShowWorkspace] = useState(false);
+  const [resetToken, setResetToken] = useState<string | null>(() =>
+    readUrlParam(RESET_TOKEN_PARAM)
+  );
+  // Kept in the URL until the invitee has signed in.
+  const [invitationToken, setInvitationToken] = useState<string | null>(() =>
+    readUrlParam(INVITATION_PARAM)
+  );
+  const [authNotice, setAuthNotice] = useState<string | null>(() =>
+    readUrlParam(INVITATION_PARAM)
+      ? "Sign in or create an account to accept your workspace invitation."
+      : null
+  );
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [matchingCount, setMatchingCount] = useState(0);
+  const [stats, setStats] = useState<TodoStats>({ total: 0, completed: 0, overdue: 0 });
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS);
   const [pendingTodoIds, setPendingTodoIds] = useState<string[]>([]);
+  const [lastDeleted, setLastDeleted] = useState<{ todo: Todo; index: number } | null>(
+    null
+  );
   const searchInputRef = useRef<HTMLInputElement>(null);
   const titleInputRef = useRef<HTMLInputElement>(null);
+  // The in-flight list request, cancelled whenever the query changes.
+  const listRequestRef = useRef<AbortController | null>(null);
+
+  const todoQuery = useMemo(
+    () => buildTodoQuery(filters, activeProject),
+    [filters, activeProject]
+  );
+
+  // Without a stored choice (or before the list loads), requests go to the
+  // personal workspace.
+  const currentWorkspace =
+    workspaces.find((workspace) => workspace.id === workspaceId) ??
+    workspaces.find((workspace) => workspace.personal);
+  const canEdit = currentWorkspace?.role !== "viewer";
 
   // Track optimistic operations so we can show syncing UI per todo.
   const addPendingId = useCallback((id: string) => {
@@ -138,29 +250,281 @@ function App() {
   }, []);
 
   /**
-   * Loads todos from the API for the current user session.
+   * Loads the first page of todos for the current filters, replacing the
+   * list. Any request still running for an older query is cancelled.
    */
   const loadTodos = useCallback(async () => {
-    if (!token) return;
+    if (!token || activeProject === "assigned" || activeProject === "trash") return;
+
+    listRequestRef.current?.abort();
+    const controller = new AbortController();
+    listRequestRef.current = controller;
+
     setLoading(true);
     setError(null);
 
     try {
-      const data = await fetchTodos(token);
+      const data = await fetchTodos(token, todoQuery, controller.signal);
       setTodos(data.items);
+      setNextCursor(data.nextCursor);
+      setMatchingCount(data.total);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : "Failed to load todos");
     } finally {
-      setLoading(false);
+      if (listRequestRef.current === controller) setLoading(false);
+    }
+  }, [activeProject, todoQuery, token, workspaceId]);
+
+  /**
+   * Appends the next page of todos as the user scrolls. Like `loadTodos`,
+   * it cancels any list request still running so stale results can't land.
+   */
+  const loadMoreTodos = useCallback(async () => {
+    if (!token || !nextCursor || loading || loadingMore) return;
+
+    listRequestRef.current?.abort();
+    const controller = new AbortController();
+    listRequestRef.current = controller;
+    setLoadingMore(true);
+
+    try {
+      const data = await fetchTodos(
+        token,
+        { ...todoQuery, cursor: nextCursor },
+        controller.signal
+      );
+      // Skip rows we already hold (e.g. optimistic inserts that synced).
+      setTodos((prev) => {
+        const seen = new Set(prev.map((todo) => todo.id));
+        return [...prev, ...data.items.filter((todo) => !seen.has(todo.id))];
+      });
+      setNextCursor(data.nextCursor);
+      setMatchingCount(data.total);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : "Failed to load more todos");
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [loading, loadingMore, nextCursor, todoQuery, token]);
+
+  /**
+   * Loads dashboard counts, which span every todo rather than loaded pages.
+   */
+  const loadStats = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      setStats(await fetchTodoStats(token));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load stats");
     }
-  }, [token]);
+  }, [token, workspaceId]);
 
-  // Load todos when authenticated.
+  /**
+   * Loads the user's tags for the filter picker.
+   */
+  const loadTags = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      setTags(await fetchTags(token));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load tags");
+    }
+  }, [token, workspaceId]);
+
+  /**
+   * Loads the user's projects for the sidebar.
+   */
+  const loadProjects = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      setProjects(await fetchProjects(token));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load projects");
+    }
+  }, [token, workspaceId]);
+
+  /**
+   * Switches the workspace todos, projects and tags come from. Null goes
+   * back to the personal workspace.
+   */
+  const selectWorkspace = useCallback((id: string | null) => {
+    saveWorkspaceId(id);
+    setWorkspaceId(id);
+    // Projects and tags differ between workspaces.
+    setActiveProject("all");
+    setFilters(DEFAULT_FILTERS);
+    setLastDeleted(null);
+  }, []);
+
+  /**
+   * Loads the workspaces the user belongs to for the switcher.
+   */
+  const loadWorkspaces = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const items = await fetchWorkspaces(token);
+      setWorkspaces(items);
+      // The selected workspace may have been deleted, or we were removed.
+      const selected = readWorkspaceId();
+      if (selected && !items.some((workspace) => workspace.id === selected)) {
+        selectWorkspace(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load workspaces");
+    }
+  }, [selectWorkspace, token]);
+
+  // Finish single sign-on when the provider sends the user back.
+  useEffect(() => {
+    const ssoError = readUrlParam(SSO_ERROR_PARAM);
+    if (ssoError) {
+      clearUrlParam(SSO_ERROR_PARAM);
+      setAuthNotice(SSO_ERROR_MESSAGES[ssoError] ?? "Single sign-on failed. Please try again.");
+      return;
+    }
+
+    const ssoCode = readUrlParam(SSO_CODE_PARAM);
+    if (!ssoCode) return;
+    clearUrlParam(SSO_CODE_PARAM);
+
+    exchangeSsoCode(ssoCode)
+      .then(login)
+      .catch((err) => {
+        setAuthNotice(err instanceof Error ? err.message : "Single sign-on failed");
+      });
+  }, [login]);
+
+  // Confirm the email address when opened from a verification link.
+  useEffect(() => {
+    const verifyToken = readUrlParam(VERIFY_TOKEN_PARAM);
+    if (!verifyToken) return;
+    clearUrlParam(VERIFY_TOKEN_PARAM);
+
+    verifyEmail(verifyToken)
+      .then((verified) => {
+        // Refresh the stored user if the link was for this account.
+        if (readSession()?.user?.id === verified.id) {
+          updateSessionUser(verified);
+        } else {
+          setAuthNotice("Email confirmed. Sign in to continue.");
+        }
+      })
+      .catch((err) => {
+        const message = err instanceof Error ? err.message : "Email verification failed";
+        setError(message);
+        setAuthNotice(message);
+      });
+  }, []);
+
+  // Join the workspace from an invitation link once signed in.
+  useEffect(() => {
+    if (!token || !invitationToken) return;
+    clearUrlParam(INVITATION_PARAM);
+
+    acceptInvitation(token, invitationToken)
+      .then((workspace) => selectWorkspace(workspace.id))
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Failed to accept invitation");
+      })
+      .finally(() => setInvitationToken(null));
+  }, [invitationToken, selectWorkspace, token]);
+
+  // Load the workspace list, after any pending invitation is accepted.
+  useEffect(() => {
+    if (token && !invitationToken) {
+      void loadWorkspaces();
+    }
+  }, [invitationToken, loadWorkspaces, token]);
+
+  // Load the current workspace's members for assigning todos.
+  useEffect(() => {
+    if (!token || !currentWorkspace) return;
+    let cancelled = false;
+
+    fetchMembers(token, currentWorkspace.id)
+      .then((items) => {
+        if (!cancelled) setMembers(items);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load members");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentWorkspace?.id, token]);
+
+  // Load sidebar data and stats when authenticated.
   useEffect(() => {
     if (token) {
-      void loadTodos();
+      void loadTags();
+      void loadProjects();
+      void loadStats();
     }
-  }, [token, loadTodos]);
+  }, [token, loadTags, loadProjects, loadStats]);
+
+  // Refetch from the first page whenever the query changes. Debounced so
+  // typing in search doesn't fire a request per keystroke.
+  useEffect(() => {
+    const timer = window.setTimeout(() => void loadTodos(), FILTER_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      listRequestRef.current?.abort();
+    };
+  }, [loadTodos]);
+
+  /**
+   * Merges a change made elsewhere into the loaded list. Todos with an
+   * optimistic change in flight are left alone; the request settles them.
+   */
+  const handleStreamEvent = useCallback(
+    (event: TodoStreamEvent) => {
+      if (activeProject === "assigned" || activeProject === "trash") return;
+      if (pendingTodoIds.includes(event.todoId)) return;
+
+      const listed = todos.some((todo) => todo.id === event.todoId);
+      const todo = event.todo;
+      // Search results are ranked by the server, so only refresh rows
+      // already shown rather than guessing whether new ones match.
+      const belongs =
+        todo !== null &&
+        (todoQuery.search ? listed : matchesQuery(todo, todoQuery, user?.id ?? null));
+
+      if (belongs) {
+        setTodos((prev) =>
+          listed
+            ? prev.map((item) => (item.id === todo.id ? todo : item))
+            : [todo, ...prev]
+        );
+        if (!listed) setMatchingCount((prev) => prev + 1);
+      } else if (listed) {
+        setTodos((prev) => prev.filter((item) => item.id !== event.todoId));
+        setMatchingCount((prev) => Math.max(0, prev - 1));
+      }
+
+      void loadStats();
+    },
+    [activeProject, loadStats, pendingTodoIds, todoQuery, todos, user?.id]
+  );
+
+  // Follow changes made by teammates (and other tabs) as they happen.
+  // Anything missed while disconnected is picked up by refetching.
+  useTodoStream(token, workspaceId, {
+    onEvent: handleStreamEvent,
+    onReconnect: () => {
+      void loadTodos();
+      void loadStats();
+    },
+  });
 
   // Wire up keyboard shortcuts for quick navigation.
   useEffect(() => {
@@ -196,19 +560,34 @@ function App() {
    * Creates a todo with optimistic UI updates.
    */
   const handleCreateTodo = useCallback(
-    async (input: CreateTodoInput) => {
+    async (formInput: CreateTodoInput) => {
       if (!token) return;
 
+      // New todos land in the project currently open in the sidebar.
+      const input: CreateTodoInput =
+        activeProject === "all" || activeProject === "inbox" || activeProject === "trash"
+          ? formInput
+          : { ...formInput, projectId: activeProject };
+
       // Stage a local todo to keep the UI responsive.
       const optimisticId = `optimistic-${Date.now()}`;
       const optimisticTodo: Todo = {
         id: optimisticId,
+        workspaceId: currentWorkspace?.id ?? "pending",
         userId: user?.id ?? "pending",
         title: input.title,
         description: input.description ?? null,
         priority: input.priority ?? "medium",
         status: "pending",
         dueDate: input.dueDate ? new Date(input.dueDate) : null,
+        projectId: input.projectId ?? null,
+        recurrenceRule: input.recurrenceRule ?? null,
+        assigneeId: null,
+        assignee: null,
+        subtaskProgress: { done: 0, total: 0 },
+        commentCount: 0,
+        tags: input.tags ?? [],
+        deletedAt: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -219,10 +598,17 @@ function App() {
 
       try {
         const created = await createTodo(token, input);
-        // Replace the optimistic record with the API response.
+        // Replace the optimistic record with the API response. The live
+        // stream may have delivered the new todo first, so drop that copy.
         setTodos((prev) =>
-          prev.map((todo) => (todo.id === optimisticId ? created : todo))
+          prev
+            .filter((todo) => todo.id !== created.id)
+            .map((todo) => (todo.id === optimisticId ? created : todo))
         );
+        // New tag names may have been created alongside the todo.
+        if (created.tags.length > 0) void loadTags();
+        if (created.projectId) void loadProjects();
+        void loadStats();
       } catch (err) {
         // Roll back optimistic changes and surface the error.
         setTodos((prev) => prev.filter((todo) => todo.id !== optimisticId));
@@ -232,7 +618,17 @@ function App() {
         removePendingId(optimisticId);
       }
     },
-    [addPendingId, removePendingId, token, user?.id]
+    [
+      activeProject,
+      addPendingId,
+      currentWorkspace?.id,
+      loadProjects,
+      loadStats,
+      loadTags,
+      removePendingId,
+      token,
+      user?.id,
+    ]
   );
 
   /**
@@ -259,6 +655,9 @@ function App() {
         setTodos((prev) =>
           prev.map((item) => (item.id === todo.id ? updated : item))
         );
+        // Completing a recurring todo schedules its next occurrence.
+        if (status === "completed" && todo.recurrenceRule) void loadTodos();
+        void loadStats();
       } catch (err) {
         // Restore the prior todo state on failure.
         setTodos((prev) =>
@@ -269,19 +668,53 @@ function App() {
         removePendingId(todo.id);
       }
     },
-    [addPendingId, removePendingId, token]
+    [addPendingId, loadStats, loadTodos, removePendingId, token]
+  );
+
+  /**
+   * Assigns a todo to a workspace member, or unassigns it, with optimistic
+   * UI updates.
+   */
+  const handleAssign = useCallback(
+    async (todo: Todo, assigneeId: string | null) => {
+      if (!token) return;
+
+      const previous = { ...todo };
+      const member = members.find((item) => item.userId === assigneeId);
+
+      addPendingId(todo.id);
+      setTodos((prev) =>
+        prev.map((item) =>
+          item.id === todo.id
+            ? {
+                ...item,
+                assigneeId,
+                assignee: member ? { id: member.userId, name: member.name } : null,
+              }
+            : item
+        )
+      );
+
+      try {
+        const updated = await updateTodo(token, todo.id, { assigneeId });
+        setTodos((prev) => prev.map((item) => (item.id === todo.id ? updated : item)));
+      } catch (err) {
+        setTodos((prev) => prev.map((item) => (item.id === todo.id ? previous : item)));
+        setError(err instanceof Error ? err.message : "Failed to assign todo");
+      } finally {
+        removePendingId(todo.id);
+      }
+    },
+    [addPendingId, members, removePendingId, token]
   );
 
   /**
-   * Deletes a todo with optimistic UI updates.
+   * Moves a todo to the trash with optimistic UI updates.
    */
   const handleDeleteTodo = useCallback(
     async (todo: Todo) => {
       if (!token) return;
 
-      // Confirm destructive actions before removing from the list.
-      if (!window.confirm("Delete this todo?")) return;
-
       const previousIndex = todos.findIndex((item) => item.id === todo.id);
 
       // Remove the item immediately while we sync the delete.
@@ -290,6 +723,9 @@ function App() {
 
       try {
         await deleteTodo(token, todo.id);
+        // Deletes are recoverable, so offer Undo instead of confirming up front.
+        setLastDeleted({ todo, index: previousIndex });
+        void loadStats();
       } catch (err) {
         // Restore the item in its original position.
         setTodos((prev) => {
@@ -303,33 +739,148 @@ function App() {
         removePendingId(todo.id);
       }
     },
-    [addPendingId, removePendingId, token, todos]
+    [addPendingId, loadStats, removePendingId, token, todos]
+  );
+
+  /**
+   * Restores the most recently deleted todo to its previous position.
+   */
+  const handleUndoDelete = useCallback(async () => {
+    if (!token || !lastDeleted) return;
+
+    const { todo, index } = lastDeleted;
+    setLastDeleted(null);
+    addPendingId(todo.id);
+
+    try {
+      const restored = await restoreTodo(token, todo.id);
+      setTodos((prev) => {
+        const next = [...prev];
+        const insertIndex = index < 0 ? next.length : Math.min(index, next.length);
+        next.splice(insertIndex, 0, restored);
+        return next;
+      });
+      void loadStats();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore todo");
+    } finally {
+      removePendingId(todo.id);
+    }
+  }, [addPendingId, lastDeleted, loadStats, removePendingId, token]);
+
+  const dismissUndo = useCallback(() => setLastDeleted(null), []);
+
+  /**
+   * Adds a todo restored from the Trash view back into the list.
+   */
+  const handleRestoredFromTrash = useCallback(
+    (todo: Todo) => {
+      setTodos((prev) => [todo, ...prev.filter((item) => item.id !== todo.id)]);
+      if (todo.projectId) void loadProjects();
+      void loadStats();
+    },
+    [loadProjects, loadStats]
   );
 
-  // Apply filters and sorting to the list before rendering.
-  const filteredTodos = useMemo(() => {
-    const filtered = applyFilters(todos, filters);
-    return sortTodos(filtered, filters.sort);
-  }, [todos, filters]);
+  /**
+   * Re-reads a single todo after nested changes (e.g. checklist edits).
+   */
+  const handleRefreshTodo = useCallback(
+    async (todoId: string) => {
+      if (!token) return;
+
+      try {
+        const fresh = await fetchTodo(token, todoId);
+        setTodos((prev) =>
+          prev.map((item) => (item.id === todoId ? fresh : item))
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to refresh todo");
+      }
+    },
+    [token]
+  );
+
+  /**
+   * Opens a sidebar entry, leaving the account page if it is showing.
+   */
+  const handleSelectProject = useCallback((project: ProjectFilter) => {
+    setActiveProject(project);
+    setShowAccount(false);
+    setShowWorkspace(false);
+  }, []);
+
+  /**
+   * Creates a project and opens it.
+   */
+  const handleCreateProject = useCallback(
+    async (input: CreateProjectInput) => {
+      if (!token) return;
+
+      const created = await createProject(token, input);
+      setProjects((prev) => [...prev, created]);
+      setActiveProject(created.id);
+    },
+    [token]
+  );
+
+  /**
+   * Archives a project, hiding it from the sidebar.
+   */
+  const handleArchiveProject = useCallback(
+    async (project: Project) => {
+      if (!token) return;
+
+      try {
+        await updateProject(token, project.id, { archived: true });
+        setProjects((prev) => prev.filter((item) => item.id !== project.id));
+        setActiveProject("all");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to archive project");
+      }
+    },
+    [token]
+  );
+
+  /**
+   * Deletes a project, moving its todos to the Inbox or the trash.
+   */
+  const handleDeleteProject = useCallback(
+    async (project: Project, mode: ProjectDeleteMode) => {
+      if (!token) return;
+
+      try {
+        await deleteProject(token, project.id, mode);
+        setProjects((prev) => prev.filter((item) => item.id !== project.id));
+        setActiveProject("all");
+        if (mode === "cascade") void loadStats();
+        // Mirror the server-side outcome for the project's todos.
+        setTodos((prev) =>
+          mode === "cascade"
+            ? prev.filter((todo) => todo.projectId !== project.id)
+            : prev.map((todo) =>
+                todo.projectId === project.id ? { ...todo, projectId: null } : todo
+              )
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to delete project");
+      }
+    },
+    [loadStats, token]
+  );
 
   // Determine empty state messaging based on active filters.
   const isFiltered =
     filters.search.trim().length > 0 ||
     filters.status !== "all" ||
-    filters.priority !== "all";
+    filters.priority !== "all" ||
+    filters.assignee !== "all" ||
+    filters.tags.length > 0;
 
   const emptyMessage = isFiltered
     ? "No todos match the current filters."
     : "No todos yet. Add one above!";
 
-  // Build summary stats for quick glance dashboard.
-  const totalCount = todos.length;
-  const visibleCount = filteredTodos.length;
-  const completedCount = todos.filter((todo) => todo.status === "completed").length;
-  const overdueCount = todos.filter(
-    (todo) => todo.status !== "completed" && isOverdue(todo.dueDate)
-  ).length;
-
   // Track the total number of operations still syncing.
   const pendingCount = pendingTodoIds.length;
 
@@ -347,7 +898,22 @@ function App() {
         </header>
 
         <main className="auth-layout">
-          <LoginForm onLogin={login} />
+          {resetToken ? (
+            <ResetPasswordForm
+              resetToken={resetToken}
+              onReset={() => {
+                clearUrlParam(RESET_TOKEN_PARAM);
+                setResetToken(null);
+                setAuthNotice("Password updated. Sign in with your new password.");
+              }}
+              onCancel={() => {
+                clearUrlParam(RESET_TOKEN_PARAM);
+                setResetToken(null);
+              }}
+            />
+          ) : (
+            <LoginForm key={authNotice} onLogin={login} notice={authNotice} />
+          )}
           <div className="card card--soft">
             <h2>Mission ready</h2>
             <ul className="feature-list">
@@ -378,72 +944,181 @@ function App() {
               Syncing {pendingCount} change{pendingCount === 1 ? "" : "s"}
             </div>
           )}
-          <button className="button-ghost" onClick={logout}>
+          {workspaces.length > 0 && (
+            <select
+              className="select workspace-switcher"
+              aria-label="Workspace"
+              value={currentWorkspace?.id ?? ""}
+              onChange={(e) => {
+                const selected = workspaces.find((workspace) => workspace.id === e.target.value);
+                selectWorkspace(selected && !selected.personal ? selected.id : null);
+              }}
+            >
+              {workspaces.map((workspace) => (
+                <option key={workspace.id} value={workspace.id}>
+                  {workspace.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            className="button-ghost"
+            onClick={() => {
+              setShowWorkspace((prev) => !prev);
+              setShowAccount(false);
+            }}
+            aria-pressed={showWorkspace}
+          >
+            Workspace
+          </button>
+          <button
+            className="button-ghost"
+            onClick={() => {
+              setShowAccount((prev) => !prev);
+              setShowWorkspace(false);
+            }}
+            aria-pressed={showAccount}
+          >
+            Account
+          </button>
+          <button className="button-ghost" onClick={() => void logout()}>
             Sign Out
           </button>
         </div>
       </header>
 
-      <main className="app__content">
-        <AddTodoForm onCreate={handleCreateTodo} titleInputRef={titleInputRef} />
-
-        <section className="card card--soft">
-          <FilterBar
-            filters={filters}
-            onChange={setFilters}
-            onReset={() => setFilters(DEFAULT_FILTERS)}
-            resultsCount={visibleCount}
-            totalCount={totalCount}
-            searchInputRef={searchInputRef}
-          />
-
-          <div className="stats">
-            <div>
-              <span className="stats__label">Total</span>
-              <strong>{totalCount}</strong>
-            </div>
-            <div>
-              <span className="stats__label">Completed</span>
-              <strong>{completedCount}</strong>
-            </div>
-            <div>
-              <span className="stats__label">Overdue</span>
-              <strong>{overdueCount}</strong>
-            </div>
-          </div>
+      <div className="app__body">
+        <ProjectSidebar
+          projects={projects}
+          selected={activeProject}
+          onSelect={handleSelectProject}
+          onCreate={handleCreateProject}
+          onArchive={handleArchiveProject}
+          onDelete={handleDeleteProject}
+        />
 
-          {error && (
-            <div className="alert alert--error" role="alert">
-              <div>
-                <strong>Heads up.</strong>
-                <p>{error}</p>
-              </div>
-              <div className="alert__actions">
-                <button className="button-secondary" onClick={() => void loadTodos()}>
-                  Retry
-                </button>
-                <button
-                  className="button-ghost"
-                  onClick={() => setError(null)}
-                >
-                  Dismiss
-                </button>
-              </div>
-            </div>
+        <main className="app__content">
+          {user && user.emailVerifiedAt === null && (
+            <VerifyEmailBanner token={token} user={user} />
           )}
-
-          <ErrorBoundary>
-            <TodoList
-              todos={filteredTodos}
-              isLoading={loading}
-              pendingIds={pendingTodoIds}
-              emptyMessage={emptyMessage}
-              onStatusChange={handleStatusChange}
-              onDelete={handleDeleteTodo}
+          {showWorkspace && currentWorkspace ? (
+            <WorkspacePage
+              token={token}
+              user={user}
+              workspace={currentWorkspace}
+              onUpdated={(updated) =>
+                setWorkspaces((prev) =>
+                  prev.map((workspace) => (workspace.id === updated.id ? updated : workspace))
+                )
+              }
+              onCreated={(created) => {
+                setWorkspaces((prev) => [...prev, created]);
+                selectWorkspace(created.id);
+              }}
+              onLeft={() => {
+                selectWorkspace(null);
+                void loadWorkspaces();
+              }}
             />
-          </ErrorBoundary>
-        </section>
-      </main>
+          ) : showAccount ? (
+            <AccountPage token={token} user={user} onSignedOut={() => void logout()} />
+          ) : activeProject === "assigned" ? (
+            <AssignedView
+              token={token}
+              workspaces={workspaces}
+              onOpen={(todo) => {
+                const target = workspaces.find((workspace) => workspace.id === todo.workspaceId);
+                selectWorkspace(target && !target.personal ? target.id : null);
+              }}
+            />
+          ) : activeProject === "trash" ? (
+            <TrashView token={token} onRestore={handleRestoredFromTrash} />
+          ) : (
+            <>
+              {canEdit && (
+                <AddTodoForm onCreate={handleCreateTodo} titleInputRef={titleInputRef} />
+              )}
+
+              <section className="card card--soft">
+                <FilterBar
+                  filters={filters}
+                  onChange={setFilters}
+                  onReset={() => setFilters(DEFAULT_FILTERS)}
+                  resultsCount={matchingCount}
+                  totalCount={stats.total}
+                  availableTags={tags}
+                  searchMatches={filters.search.trim() ? todos : null}
+                  searchInputRef={searchInputRef}
+                  members={members}
+                  currentUserId={user?.id ?? null}
+                />
+
+                <div className="stats">
+                  <div>
+                    <span className="stats__label">Total</span>
+                    <strong>{stats.total}</strong>
+                  </div>
+                  <div>
+                    <span className="stats__label">Completed</span>
+                    <strong>{stats.completed}</strong>
+                  </div>
+                  <div>
+                    <span className="stats__label">Overdue</span>
+                    <strong>{stats.overdue}</strong>
+                  </div>
+                </div>
+
+                {error && (
+                  <div className="alert alert--error" role="alert">
+                    <div>
+                      <strong>Heads up.</strong>
+                      <p>{error}</p>
+                    </div>
+                    <div className="alert__actions">
+                      <button className="button-secondary" onClick={() => void loadTodos()}>
+                        Retry
+                      </button>
+                      <button
+                        className="button-ghost"
+                        onClick={() => setError(null)}
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <ErrorBoundary>
+                  <TodoList
+                    token={token}
+                    todos={todos}
+                    isLoading={loading}
+                    isLoadingMore={loadingMore}
+                    hasMore={nextCursor !== null}
+                    onLoadMore={loadMoreTodos}
+                    pendingIds={pendingTodoIds}
+                    emptyMessage={emptyMessage}
+                    members={members}
+                    currentUserId={user?.id ?? null}
+                    onStatusChange={handleStatusChange}
+                    onAssign={handleAssign}
+                    onDelete={handleDeleteTodo}
+                    onRefresh={handleRefreshTodo}
+                  />
+                </ErrorBoundary>
+              </section>
+            </>
+          )}
+        </main>
+      </div>
+
+      {lastDeleted && (
+        <UndoToast
+          message={`Moved “${lastDeleted.todo.title}” to the trash.`}
+          onUndo={() => void handleUndoDelete()}
+          onDismiss={dismissUndo}
+        />
+      )}
 
       <KeyboardShortcuts shortcuts={SHORTCUTS} />
     </div>
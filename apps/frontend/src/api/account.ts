@@ -0,0 +1,160 @@
+import type {
+  AccessToken,
+  ChangePasswordInput,
+  CreateAccessTokenInput,
+  CreatedAccessToken,
+  DataExport,
+  DeleteAccountInput,
+  DisableTwoFactorInput,
+  TwoFactorSetup,
+  UpdateProfileInput,
+  User,
+  UserSession,
+} from "@martian-todos/shared";
+import { apiFetch } from "./client";
+
+/**
+ * Fetches the signed-in user.
+ */
+export async function fetchMe(token: string): Promise<User> {
+  return apiFetch<User>("/me", token);
+}
+
+/**
+ * Updates the name and/or email. A new email needs the current password.
+ */
+export async function updateProfile(token: string, input: UpdateProfileInput): Promise<User> {
+  return apiFetch<User>("/me", token, {
+    method: "PATCH",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Changes the password; every other device is signed out.
+ */
+export async function changePassword(token: string, input: ChangePasswordInput): Promise<void> {
+  return apiFetch<void>("/me/password", token, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Permanently deletes the account and all of its data.
+ */
+export async function deleteAccount(token: string, input: DeleteAccountInput): Promise<void> {
+  return apiFetch<void>("/me", token, {
+    method: "DELETE",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Queues an archive of all account data, or returns the one in progress.
+ */
+export async function requestDataExport(token: string): Promise<DataExport> {
+  return apiFetch<DataExport>("/me/export", token, { method: "POST" });
+}
+
+/**
+ * Fetches the most recent data export, if any.
+ */
+export async function fetchLatestDataExport(token: string): Promise<DataExport | null> {
+  return apiFetch<DataExport | null>("/me/export", token);
+}
+
+/**
+ * Fetches one data export's status.
+ */
+export async function fetchDataExport(token: string, id: string): Promise<DataExport> {
+  return apiFetch<DataExport>(`/me/export/${id}`, token);
+}
+
+/**
+ * Fetches the devices the user is signed in on.
+ */
+export async function fetchSessions(token: string): Promise<UserSession[]> {
+  return apiFetch<UserSession[]>("/auth/sessions", token);
+}
+
+/**
+ * Signs out one device.
+ */
+export async function revokeSession(token: string, id: string): Promise<void> {
+  return apiFetch<void>(`/auth/sessions/${id}`, token, { method: "DELETE" });
+}
+
+/**
+ * Signs out every device except this one.
+ */
+export async function revokeOtherSessions(token: string): Promise<{ revoked: number }> {
+  return apiFetch<{ revoked: number }>("/auth/sessions/revoke-others", token, { method: "POST" });
+}
+
+/**
+ * Sends a new email verification link.
+ */
+export async function resendVerification(token: string): Promise<void> {
+  return apiFetch<void>("/auth/resend-verification", token, { method: "POST" });
+}
+
+/**
+ * Starts authenticator enrollment, returning the secret to add to an app.
+ */
+export async function setupTwoFactor(token: string): Promise<TwoFactorSetup> {
+  return apiFetch<TwoFactorSetup>("/auth/2fa/setup", token, { method: "POST" });
+}
+
+/**
+ * Turns two-factor authentication on with a first code from the app.
+ */
+export async function enableTwoFactor(
+  token: string,
+  code: string
+): Promise<{ recoveryCodes: string[] }> {
+  return apiFetch<{ recoveryCodes: string[] }>("/auth/2fa/enable", token, {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  });
+}
+
+/**
+ * Turns two-factor authentication off.
+ */
+export async function disableTwoFactor(
+  token: string,
+  input: DisableTwoFactorInput
+): Promise<void> {
+  return apiFetch<void>("/auth/2fa/disable", token, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Fetches the user's personal access tokens.
+ */
+export async function fetchAccessTokens(token: string): Promise<AccessToken[]> {
+  return apiFetch<AccessToken[]>("/auth/tokens", token);
+}
+
+/**
+ * Creates a personal access token. The raw token is only returned here.
+ */
+export async function createAccessToken(
+  token: string,
+  input: CreateAccessTokenInput
+): Promise<CreatedAccessToken> {
+  return apiFetch<CreatedAccessToken>("/auth/tokens", token, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Revokes a personal access token.
+ */
+export async function revokeAccessToken(token: string, id: string): Promise<void> {
+  return apiFetch<void>(`/auth/tokens/${id}`, token, { method: "DELETE" });
+}
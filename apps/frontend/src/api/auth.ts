@@ -1,11 +1,61 @@
-import type { AuthResponse, LoginInput, CreateUserInput } from "@martian-todos/shared";
+import type {
+  AuthOptions,
+  AuthResponse,
+  LoginInput,
+  CreateUserInput,
+  ForgotPasswordInput,
+  LoginResponse,
+  ResetPasswordInput,
+  TwoFactorLoginInput,
+  User,
+} from "@martian-todos/shared";
 
 const API_BASE = "/api";
 
 /**
- * Logs in a user.
+ * Fetches the sign-in methods the server offers.
  */
-export async function login(input: LoginInput): Promise<AuthResponse> {
+export async function fetchAuthOptions(): Promise<AuthOptions> {
+  const response = await fetch(`${API_BASE}/auth/options`);
+  const json = await response.json();
+
+  if (!response.ok) {
+    throw new Error(json.error?.message || "Could not load sign-in options");
+  }
+
+  return json.data;
+}
+
+/**
+ * URL that starts single sign-on. Navigate the whole page there; the
+ * provider redirects back to the app with an `sso_code`.
+ */
+export const SSO_LOGIN_URL = `${API_BASE}/auth/oidc/login`;
+
+/**
+ * Trades the one-time code from the single sign-on redirect for a session.
+ */
+export async function exchangeSsoCode(code: string): Promise<AuthResponse> {
+  const response = await fetch(`${API_BASE}/auth/oidc/exchange`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ code }),
+  });
+
+  const json = await response.json();
+
+  if (!response.ok) {
+    throw new Error(json.error?.message || "Single sign-on failed");
+  }
+
+  return json.data;
+}
+
+/**
+ * Logs in a user. Accounts with two-factor authentication get a challenge
+ * to complete with `loginWithTwoFactor`.
+ */
+export async function login(input: LoginInput): Promise<LoginResponse> {
   const response = await fetch(`${API_BASE}/auth/login`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -21,6 +71,25 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
   return json.data;
 }
 
+/**
+ * Completes a two-factor login with an authenticator or recovery code.
+ */
+export async function loginWithTwoFactor(input: TwoFactorLoginInput): Promise<AuthResponse> {
+  const response = await fetch(`${API_BASE}/auth/login/2fa`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  const json = await response.json();
+
+  if (!response.ok) {
+    throw new Error(json.error?.message || "Login failed");
+  }
+
+  return json.data;
+}
+
 /**
  * Registers a new user.
  */
@@ -39,3 +108,93 @@ export async function register(input: CreateUserInput): Promise<AuthResponse> {
 
   return json.data;
 }
+
+/**
+ * Asks for a password reset email. Succeeds whether or not the account
+ * exists.
+ */
+export async function forgotPassword(input: ForgotPasswordInput): Promise<void> {
+  const response = await fetch(`${API_BASE}/auth/forgot-password`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const json = await response.json().catch(() => ({}));
+    throw new Error(json.error?.message || "Could not send reset email");
+  }
+}
+
+/**
+ * Sets a new password using an emailed reset token.
+ */
+export async function resetPassword(input: ResetPasswordInput): Promise<void> {
+  const response = await fetch(`${API_BASE}/auth/reset-password`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const json = await response.json().catch(() => ({}));
+    throw new Error(json.error?.message || "Password reset failed");
+  }
+}
+
+/**
+ * Confirms an email address with the token from a verification link.
+ */
+export async function verifyEmail(token: string): Promise<User> {
+  const params = new URLSearchParams({ token });
+  const response = await fetch(`${API_BASE}/auth/verify-email?${params.toString()}`);
+  const json = await response.json();
+
+  if (!response.ok) {
+    throw new Error(json.error?.message || "Email verification failed");
+  }
+
+  return json.data;
+}
+
+/**
+ * Exchanges a refresh token for a new access token. Resolves to null when
+ * the server rejects the refresh token, so callers can tell an ended
+ * session apart from a network failure.
+ */
+export async function refreshSession(refreshToken: string): Promise<AuthResponse | null> {
+  const response = await fetch(`${API_BASE}/auth/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  if (response.status === 401) {
+    return null;
+  }
+
+  const json = await response.json();
+
+  if (!response.ok) {
+    throw new Error(json.error?.message || "Session refresh failed");
+  }
+
+  return json.data;
+}
+
+/**
+ * Revokes a refresh token, ending its session on the server.
+ */
+export async function logout(refreshToken: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/auth/logout`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  // An already revoked token means the session is over either way.
+  if (!response.ok && response.status !== 401) {
+    const json = await response.json().catch(() => ({}));
+    throw new Error(json.error?.message || "Logout failed");
+  }
+}
@@ -0,0 +1,150 @@
+import { refreshSession } from "./auth";
+import { clearSession, readSession, readWorkspaceId, saveSession } from "./session";
+
+const API_BASE = "/api";
+const REFRESH_LOCK_NAME = "martian_todos_refresh";
+
+// Shared by every request that hits a 401 while a refresh is running.
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Base fetch wrapper with auth header. An expired access token is
+ * refreshed once and the request retried with the new token.
+ */
+export async function apiFetch<T>(
+  endpoint: string,
+  token: string,
+  options: RequestInit = {}
+): Promise<T> {
+  let response = await send(endpoint, token, options);
+
+  if (response.status === 401) {
+    const freshToken = await refreshAccessToken(token);
+    if (freshToken) {
+      response = await send(endpoint, freshToken, options);
+    }
+  }
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: { message: "Request failed" } }));
+    throw new Error(error.error?.message || `HTTP ${response.status}`);
+  }
+
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  const json = await response.json();
+  return json.data;
+}
+
+/**
+ * Opens a long-lived streaming response, refreshing an expired access
+ * token once like apiFetch. The caller reads (and eventually aborts) the
+ * body.
+ */
+export async function openStream(
+  endpoint: string,
+  token: string,
+  signal: AbortSignal
+): Promise<Response> {
+  const options: RequestInit = { signal, headers: { Accept: "text/event-stream" } };
+  let response = await send(endpoint, token, options);
+
+  if (response.status === 401) {
+    const freshToken = await refreshAccessToken(token);
+    if (freshToken) {
+      response = await send(endpoint, freshToken, options);
+    }
+  }
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({ error: { message: "Request failed" } }));
+    throw new Error(error.error?.message || `HTTP ${response.status}`);
+  }
+
+  return response;
+}
+
+/**
+ * Headers that send one request to a workspace other than the selected
+ * one, e.g. for a todo listed under "Assigned to me".
+ */
+export function inWorkspace(workspaceId: string): Record<string, string> {
+  return { "X-Workspace-Id": workspaceId };
+}
+
+/**
+ * Sends one request with the given access token, in the selected
+ * workspace. Only requests with a body are marked as JSON: Fastify
+ * rejects an empty body sent as application/json.
+ */
+function send(endpoint: string, token: string, options: RequestInit): Promise<Response> {
+  const workspaceId = readWorkspaceId();
+
+  return fetch(`${API_BASE}${endpoint}`, {
+    ...options,
+    headers: {
+      ...(options.body ? { "Content-Type": "application/json" } : {}),
+      Authorization: `Bearer ${token}`,
+      ...(workspaceId ? inWorkspace(workspaceId) : {}),
+      ...options.headers,
+    },
+  });
+}
+
+/**
+ * Returns a usable access token after `staleToken` was rejected, or null
+ * when the session has ended. Concurrent callers share one refresh call.
+ */
+function refreshAccessToken(staleToken: string): Promise<string | null> {
+  // Another request (or tab) may already have replaced the token.
+  const current = readSession();
+  if (current && current.token !== staleToken) {
+    return Promise.resolve(current.token);
+  }
+
+  if (!refreshInFlight) {
+    refreshInFlight = withRefreshLock(async () => {
+      // Re-check under the lock: another tab may have rotated the token
+      // while we waited, and the old refresh token is now spent.
+      const latest = readSession();
+      if (latest && latest.token !== staleToken) {
+        return latest.token;
+      }
+
+      const refreshToken = latest?.refreshToken;
+      if (!refreshToken) {
+        clearSession();
+        return null;
+      }
+
+      const auth = await refreshSession(refreshToken);
+      if (!auth) {
+        clearSession();
+        return null;
+      }
+
+      saveSession(auth);
+      return auth.token;
+    }).finally(() => {
+      refreshInFlight = null;
+    });
+  }
+
+  return refreshInFlight;
+}
+
+/**
+ * Runs a refresh while holding a lock shared by every tab. Refresh tokens
+ * are single-use, so two tabs spending the same one would look like theft
+ * to the server and end the session.
+ */
+async function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  if (!navigator.locks) {
+    return task();
+  }
+
+  return await navigator.locks.request(REFRESH_LOCK_NAME, task);
+}
@@ -0,0 +1,39 @@
+import type { TodoStreamEvent } from "@martian-todos/shared";
+import { openStream } from "./client";
+
+/**
+ * Streams todo changes in the selected workspace. Calls `onOpen` once
+ * connected and resolves when the server ends the stream; rejects when
+ * `signal` aborts it or the connection fails.
+ */
+export async function streamTodoEvents(
+  token: string,
+  handlers: { onOpen: () => void; onEvent: (event: TodoStreamEvent) => void },
+  signal: AbortSignal
+): Promise<void> {
+  const response = await openStream("/events", token, signal);
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  handlers.onOpen();
+
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    // Server-Sent Events are separated by a blank line.
+    buffer += value;
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() ?? "";
+
+    for (const frame of frames) {
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice("data:".length).trimStart())
+        .join("\n");
+
+      // Comments (heartbeats) and retry hints carry no data.
+      if (data) handlers.onEvent(JSON.parse(data) as TodoStreamEvent);
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import type {
+  CreateProjectInput,
+  Project,
+  ProjectDeleteMode,
+  UpdateProjectInput,
+} from "@martian-todos/shared";
+import { apiFetch } from "./client";
+
+/**
+ * Fetches the user's active projects in sidebar order.
+ */
+export async function fetchProjects(token: string): Promise<Project[]> {
+  return apiFetch<Project[]>("/projects", token);
+}
+
+/**
+ * Creates a new project.
+ */
+export async function createProject(
+  token: string,
+  input: CreateProjectInput
+): Promise<Project> {
+  return apiFetch<Project>("/projects", token, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Updates an existing project.
+ */
+export async function updateProject(
+  token: string,
+  id: string,
+  input: UpdateProjectInput
+): Promise<Project> {
+  return apiFetch<Project>(`/projects/${id}`, token, {
+    method: "PATCH",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Deletes a project, either moving its todos to the Inbox or deleting them.
+ */
+export async function deleteProject(
+  token: string,
+  id: string,
+  mode: ProjectDeleteMode
+): Promise<void> {
+  return apiFetch<void>(`/projects/${id}?mode=${mode}`, token, {
+    method: "DELETE",
+  });
+}
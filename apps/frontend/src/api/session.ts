@@ -0,0 +1,114 @@
+import type { AuthResponse, User } from "@martian-todos/shared";
+
+const TOKEN_KEY = "martian_todos_token";
+const REFRESH_TOKEN_KEY = "martian_todos_refresh_token";
+const USER_KEY = "martian_todos_user";
+const SESSION_KEYS = [TOKEN_KEY, REFRESH_TOKEN_KEY, USER_KEY];
+// The workspace todos, projects and tags are read from and written to.
+const WORKSPACE_KEY = "martian_todos_workspace";
+
+export interface Session {
+  token: string;
+  refreshToken: string | null;
+  user: User | null;
+}
+
+type SessionListener = (session: Session | null) => void;
+
+const listeners = new Set<SessionListener>();
+
+/**
+ * Reads the persisted session, if any.
+ */
+export function readSession(): Session | null {
+  const token = localStorage.getItem(TOKEN_KEY);
+  if (!token) return null;
+
+  const storedUser = localStorage.getItem(USER_KEY);
+  return {
+    token,
+    refreshToken: localStorage.getItem(REFRESH_TOKEN_KEY),
+    user: storedUser ? JSON.parse(storedUser) : null,
+  };
+}
+
+/**
+ * Persists tokens and user from a login or refresh response.
+ */
+export function saveSession(auth: AuthResponse): void {
+  localStorage.setItem(TOKEN_KEY, auth.token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, auth.refreshToken);
+  localStorage.setItem(USER_KEY, JSON.stringify(auth.user));
+  notify();
+}
+
+/**
+ * Replaces the stored user, e.g. after the profile changes on the server.
+ */
+export function updateSessionUser(user: User): void {
+  if (!localStorage.getItem(TOKEN_KEY)) return;
+
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  notify();
+}
+
+/**
+ * Forgets the persisted session.
+ */
+export function clearSession(): void {
+  for (const key of SESSION_KEYS) {
+    localStorage.removeItem(key);
+  }
+  localStorage.removeItem(WORKSPACE_KEY);
+  notify();
+}
+
+/**
+ * Reads the selected workspace id. Null means the personal workspace.
+ */
+export function readWorkspaceId(): string | null {
+  return localStorage.getItem(WORKSPACE_KEY);
+}
+
+/**
+ * Remembers the selected workspace, or goes back to the personal one.
+ */
+export function saveWorkspaceId(workspaceId: string | null): void {
+  if (workspaceId) {
+    localStorage.setItem(WORKSPACE_KEY, workspaceId);
+  } else {
+    localStorage.removeItem(WORKSPACE_KEY);
+  }
+}
+
+/**
+ * Subscribes to session changes from this tab and, via `storage` events,
+ * from other tabs. Returns an unsubscribe function.
+ */
+export function subscribeToSession(listener: SessionListener): () => void {
+  function handleStorage(event: StorageEvent) {
+    // `key` is null when another tab clears all of localStorage.
+    if (event.key === null || SESSION_KEYS.includes(event.key)) {
+      listener(readSession());
+    }
+  }
+
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+/**
+ * Tells same-tab subscribers about a change; `storage` events only reach
+ * other tabs.
+ */
+function notify(): void {
+  const session = readSession();
+  for (const listener of listeners) {
+    listener(session);
+  }
+}
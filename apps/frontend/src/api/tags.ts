@@ -0,0 +1,9 @@
+import type { Tag } from "@martian-todos/shared";
+import { apiFetch } from "./client";
+
+/**
+ * Fetches the user's tags with usage counts.
+ */
+export async function fetchTags(token: string): Promise<Tag[]> {
+  return apiFetch<Tag[]>("/tags", token);
+}
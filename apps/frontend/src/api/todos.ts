@@ -1,82 +1,264 @@
-import type { Todo, PaginatedResponse, CreateTodoInput, UpdateTodoInput } from "@martian-todos/shared";
+import type {
+  Todo,
+  TodoPriority,
+  TodoStats,
+  TodoStatus,
+  Subtask,
+  TodoEvent,
+  PaginatedResponse,
+  CursorPaginatedResponse,
+  CreateTodoInput,
+  UpdateTodoInput,
+  CreateSubtaskInput,
+  UpdateSubtaskInput,
+  CommentInput,
+  TodoComment,
+} from "@martian-todos/shared";
+import { apiFetch, inWorkspace } from "./client";
 
-const API_BASE = "/api";
+/**
+ * Filters, sort and paging accepted by GET /todos.
+ */
+export interface TodoListQuery {
+  search?: string;
+  status?: TodoStatus;
+  priority?: TodoPriority;
+  tags?: string[];
+  tagMatch?: "any" | "all";
+  projectId?: string;
+  /** "me", "unassigned" or a member's user id. */
+  assignee?: string;
+  sortBy?: "createdAt" | "updatedAt" | "dueDate" | "priority" | "status" | "title" | "relevance";
+  sortOrder?: "asc" | "desc";
+  pageSize?: number;
+  cursor?: string;
+}
 
 /**
- * Base fetch wrapper with auth header.
+ * Fetches one cursor page of todos matching the query.
+ * Pass the previous response's nextCursor as `cursor` to continue.
  */
-async function apiFetch<T>(
-  endpoint: string,
+export async function fetchTodos(
   token: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const response = await fetch(`${API_BASE}${endpoint}`, {
-    ...options,
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-      ...options.headers,
-    },
+  query: TodoListQuery = {},
+  signal?: AbortSignal
+): Promise<CursorPaginatedResponse<Todo>> {
+  const params = new URLSearchParams({ pagination: "cursor" });
+  if (query.search) params.set("search", query.search);
+  if (query.status) params.set("status", query.status);
+  if (query.priority) params.set("priority", query.priority);
+  if (query.tags && query.tags.length > 0) params.set("tags", query.tags.join(","));
+  if (query.tagMatch) params.set("tagMatch", query.tagMatch);
+  if (query.projectId) params.set("projectId", query.projectId);
+  if (query.assignee) params.set("assignee", query.assignee);
+  if (query.sortBy) params.set("sortBy", query.sortBy);
+  if (query.sortOrder) params.set("sortOrder", query.sortOrder);
+  if (query.pageSize) params.set("pageSize", String(query.pageSize));
+  if (query.cursor) params.set("cursor", query.cursor);
+
+  return apiFetch<CursorPaginatedResponse<Todo>>(`/todos?${params.toString()}`, token, {
+    signal,
   });
+}
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: "Request failed" } }));
-    throw new Error(error.error?.message || `HTTP ${response.status}`);
-  }
+/**
+ * Fetches dashboard counts across all todos.
+ */
+export async function fetchTodoStats(token: string): Promise<TodoStats> {
+  return apiFetch<TodoStats>("/todos/stats", token);
+}
 
-  // Handle 204 No Content
-  if (response.status === 204) {
-    return undefined as T;
-  }
+/**
+ * Fetches a single todo.
+ */
+export async function fetchTodo(token: string, id: string): Promise<Todo> {
+  return apiFetch<Todo>(`/todos/${id}`, token);
+}
 
-  const json = await response.json();
-  return json.data;
+/**
+ * Creates a new todo.
+ */
+export async function createTodo(token: string, input: CreateTodoInput): Promise<Todo> {
+  return apiFetch<Todo>("/todos", token, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
 }
 
 /**
- * Fetches paginated todos.
+ * Updates an existing todo. Pass `workspaceId` for a todo outside the
+ * selected workspace.
  */
-export async function fetchTodos(
+export async function updateTodo(
+  token: string,
+  id: string,
+  input: UpdateTodoInput,
+  options?: { workspaceId?: string }
+): Promise<Todo> {
+  return apiFetch<Todo>(`/todos/${id}`, token, {
+    method: "PATCH",
+    body: JSON.stringify(input),
+    headers: options?.workspaceId ? inWorkspace(options.workspaceId) : undefined,
+  });
+}
+
+/**
+ * Moves a todo to the trash, or deletes it outright when permanent is set.
+ */
+export async function deleteTodo(
   token: string,
-  options?: { page?: number; status?: string }
+  id: string,
+  options?: { permanent?: boolean }
+): Promise<void> {
+  const query = options?.permanent ? "?permanent=true" : "";
+  return apiFetch<void>(`/todos/${id}${query}`, token, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Fetches trashed todos, most recently deleted first.
+ */
+export async function fetchTrash(
+  token: string,
+  options?: { page?: number }
 ): Promise<PaginatedResponse<Todo>> {
   const params = new URLSearchParams();
   if (options?.page) params.set("page", String(options.page));
-  if (options?.status) params.set("status", options.status);
 
   const query = params.toString();
-  return apiFetch<PaginatedResponse<Todo>>(`/todos${query ? `?${query}` : ""}`, token);
+  return apiFetch<PaginatedResponse<Todo>>(
+    `/todos/trash${query ? `?${query}` : ""}`,
+    token
+  );
 }
 
 /**
- * Creates a new todo.
+ * Fetches open todos assigned to the user in every workspace, soonest due
+ * first.
  */
-export async function createTodo(token: string, input: CreateTodoInput): Promise<Todo> {
-  return apiFetch<Todo>("/todos", token, {
+export async function fetchAssignedTodos(
+  token: string,
+  options?: { page?: number }
+): Promise<PaginatedResponse<Todo>> {
+  const params = new URLSearchParams();
+  if (options?.page) params.set("page", String(options.page));
+
+  const query = params.toString();
+  return apiFetch<PaginatedResponse<Todo>>(
+    `/todos/assigned${query ? `?${query}` : ""}`,
+    token
+  );
+}
+
+/**
+ * Restores a todo from the trash.
+ */
+export async function restoreTodo(token: string, id: string): Promise<Todo> {
+  return apiFetch<Todo>(`/todos/${id}/restore`, token, { method: "POST" });
+}
+
+/**
+ * Fetches a todo's activity history, newest first.
+ */
+export async function fetchTodoHistory(token: string, id: string): Promise<TodoEvent[]> {
+  return apiFetch<TodoEvent[]>(`/todos/${id}/history`, token);
+}
+
+/**
+ * Fetches the checklist items for a todo.
+ */
+export async function fetchSubtasks(token: string, todoId: string): Promise<Subtask[]> {
+  return apiFetch<Subtask[]>(`/todos/${todoId}/subtasks`, token);
+}
+
+/**
+ * Adds a checklist item to a todo.
+ */
+export async function createSubtask(
+  token: string,
+  todoId: string,
+  input: CreateSubtaskInput
+): Promise<Subtask> {
+  return apiFetch<Subtask>(`/todos/${todoId}/subtasks`, token, {
     method: "POST",
     body: JSON.stringify(input),
   });
 }
 
 /**
- * Updates an existing todo.
+ * Updates a checklist item.
  */
-export async function updateTodo(
+export async function updateSubtask(
   token: string,
-  id: string,
-  input: UpdateTodoInput
-): Promise<Todo> {
-  return apiFetch<Todo>(`/todos/${id}`, token, {
+  todoId: string,
+  subtaskId: string,
+  input: UpdateSubtaskInput
+): Promise<Subtask> {
+  return apiFetch<Subtask>(`/todos/${todoId}/subtasks/${subtaskId}`, token, {
     method: "PATCH",
     body: JSON.stringify(input),
   });
 }
 
 /**
- * Deletes a todo.
+ * Deletes a checklist item.
  */
-export async function deleteTodo(token: string, id: string): Promise<void> {
-  return apiFetch<void>(`/todos/${id}`, token, {
+export async function deleteSubtask(
+  token: string,
+  todoId: string,
+  subtaskId: string
+): Promise<void> {
+  return apiFetch<void>(`/todos/${todoId}/subtasks/${subtaskId}`, token, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Fetches a todo's comments, oldest first.
+ */
+export async function fetchComments(token: string, todoId: string): Promise<TodoComment[]> {
+  return apiFetch<TodoComment[]>(`/todos/${todoId}/comments`, token);
+}
+
+/**
+ * Adds a comment to a todo.
+ */
+export async function createComment(
+  token: string,
+  todoId: string,
+  input: CommentInput
+): Promise<TodoComment> {
+  return apiFetch<TodoComment>(`/todos/${todoId}/comments`, token, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Edits one of the user's own comments.
+ */
+export async function updateComment(
+  token: string,
+  todoId: string,
+  commentId: string,
+  input: CommentInput
+): Promise<TodoComment> {
+  return apiFetch<TodoComment>(`/todos/${todoId}/comments/${commentId}`, token, {
+    method: "PATCH",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Deletes one of the user's own comments.
+ */
+export async function deleteComment(
+  token: string,
+  todoId: string,
+  commentId: string
+): Promise<void> {
+  return apiFetch<void>(`/todos/${todoId}/comments/${commentId}`, token, {
     method: "DELETE",
   });
 }
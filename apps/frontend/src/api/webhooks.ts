@@ -0,0 +1,83 @@
+import type {
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  Webhook,
+  WebhookDelivery,
+} from "@martian-todos/shared";
+import { apiFetch } from "./client";
+
+/**
+ * Fetches a workspace's webhooks.
+ */
+export async function fetchWebhooks(token: string, workspaceId: string): Promise<Webhook[]> {
+  return apiFetch<Webhook[]>(`/workspaces/${workspaceId}/webhooks`, token);
+}
+
+/**
+ * Registers a webhook.
+ */
+export async function createWebhook(
+  token: string,
+  workspaceId: string,
+  input: CreateWebhookInput
+): Promise<Webhook> {
+  return apiFetch<Webhook>(`/workspaces/${workspaceId}/webhooks`, token, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Changes a webhook, or turns it on or off.
+ */
+export async function updateWebhook(
+  token: string,
+  workspaceId: string,
+  webhookId: string,
+  input: UpdateWebhookInput
+): Promise<Webhook> {
+  return apiFetch<Webhook>(`/workspaces/${workspaceId}/webhooks/${webhookId}`, token, {
+    method: "PATCH",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Deletes a webhook and its delivery log.
+ */
+export async function deleteWebhook(
+  token: string,
+  workspaceId: string,
+  webhookId: string
+): Promise<void> {
+  return apiFetch<void>(`/workspaces/${workspaceId}/webhooks/${webhookId}`, token, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Fetches a webhook's most recent deliveries, newest first.
+ */
+export async function fetchWebhookDeliveries(
+  token: string,
+  workspaceId: string,
+  webhookId: string
+): Promise<WebhookDelivery[]> {
+  return apiFetch<WebhookDelivery[]>(
+    `/workspaces/${workspaceId}/webhooks/${webhookId}/deliveries`,
+    token
+  );
+}
+
+/**
+ * Sends a test event to a webhook and returns the delivery.
+ */
+export async function sendTestWebhook(
+  token: string,
+  workspaceId: string,
+  webhookId: string
+): Promise<WebhookDelivery> {
+  return apiFetch<WebhookDelivery>(`/workspaces/${workspaceId}/webhooks/${webhookId}/test`, token, {
+    method: "POST",
+  });
+}
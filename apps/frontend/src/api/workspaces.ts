@@ -0,0 +1,127 @@
+import type {
+  InviteMemberInput,
+  Workspace,
+  WorkspaceInput,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+} from "@martian-todos/shared";
+import { apiFetch } from "./client";
+
+/**
+ * Fetches the workspaces the user belongs to, personal one first.
+ */
+export async function fetchWorkspaces(token: string): Promise<Workspace[]> {
+  return apiFetch<Workspace[]>("/workspaces", token);
+}
+
+/**
+ * Creates a shared workspace owned by the user.
+ */
+export async function createWorkspace(token: string, input: WorkspaceInput): Promise<Workspace> {
+  return apiFetch<Workspace>("/workspaces", token, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Renames a workspace.
+ */
+export async function renameWorkspace(
+  token: string,
+  id: string,
+  input: WorkspaceInput
+): Promise<Workspace> {
+  return apiFetch<Workspace>(`/workspaces/${id}`, token, {
+    method: "PATCH",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Deletes a shared workspace and everything in it.
+ */
+export async function deleteWorkspace(token: string, id: string): Promise<void> {
+  return apiFetch<void>(`/workspaces/${id}`, token, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Fetches a workspace's members.
+ */
+export async function fetchMembers(token: string, id: string): Promise<WorkspaceMember[]> {
+  return apiFetch<WorkspaceMember[]>(`/workspaces/${id}/members`, token);
+}
+
+/**
+ * Changes a member's role.
+ */
+export async function updateMemberRole(
+  token: string,
+  id: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMember> {
+  return apiFetch<WorkspaceMember>(`/workspaces/${id}/members/${userId}`, token, {
+    method: "PATCH",
+    body: JSON.stringify({ role }),
+  });
+}
+
+/**
+ * Removes a member, or leaves the workspace when given the user's own id.
+ */
+export async function removeMember(token: string, id: string, userId: string): Promise<void> {
+  return apiFetch<void>(`/workspaces/${id}/members/${userId}`, token, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Fetches a workspace's open invitations.
+ */
+export async function fetchInvitations(
+  token: string,
+  id: string
+): Promise<WorkspaceInvitation[]> {
+  return apiFetch<WorkspaceInvitation[]>(`/workspaces/${id}/invitations`, token);
+}
+
+/**
+ * Emails an invitation to join a workspace.
+ */
+export async function inviteMember(
+  token: string,
+  id: string,
+  input: InviteMemberInput
+): Promise<WorkspaceInvitation> {
+  return apiFetch<WorkspaceInvitation>(`/workspaces/${id}/invitations`, token, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Withdraws an invitation.
+ */
+export async function revokeInvitation(
+  token: string,
+  id: string,
+  invitationId: string
+): Promise<void> {
+  return apiFetch<void>(`/workspaces/${id}/invitations/${invitationId}`, token, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Joins a workspace from an emailed invitation token.
+ */
+export async function acceptInvitation(token: string, invitationToken: string): Promise<Workspace> {
+  return apiFetch<Workspace>("/workspaces/invitations/accept", token, {
+    method: "POST",
+    body: JSON.stringify({ token: invitationToken }),
+  });
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState, type FormEvent } from "react";
+import type { AccessToken, CreatedAccessToken, TokenScope } from "@martian-todos/shared";
+import { createAccessToken, fetchAccessTokens, revokeAccessToken } from "../api/account";
+
+interface AccessTokenSettingsProps {
+  token: string;
+}
+
+const SCOPE_OPTIONS: { scope: TokenScope; label: string }[] = [
+  { scope: "todos:read", label: "Read todos, projects and tags" },
+  { scope: "todos:write", label: "Change todos, projects and tags" },
+  { scope: "account:read", label: "Read account details" },
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+  { days: null, label: "Never" },
+];
+
+/**
+ * Formats a token date without the time.
+ */
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function isExpired(accessToken: AccessToken): boolean {
+  return accessToken.expiresAt !== null && new Date(accessToken.expiresAt) <= new Date();
+}
+
+/**
+ * Creates, lists and revokes personal access tokens for scripts.
+ */
+export function AccessTokenSettings({ token }: AccessTokenSettingsProps) {
+  const [accessTokens, setAccessTokens] = useState<AccessToken[]>([]);
+  const [created, setCreated] = useState<CreatedAccessToken | null>(null);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<TokenScope[]>(["todos:read"]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchAccessTokens(token)
+      .then((items) => {
+        if (!cancelled) setAccessTokens(items);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load tokens");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  function toggleScope(scope: TokenScope) {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((item) => item !== scope) : [...prev, scope]
+    );
+  }
+
+  async function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setSaving(true);
+
+    try {
+      const result = await createAccessToken(token, { name, scopes, expiresInDays });
+      setCreated(result);
+      setAccessTokens((prev) => [result, ...prev]);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create token");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRevoke(accessToken: AccessToken) {
+    setBusyIds((prev) => [...prev, accessToken.id]);
+    setError(null);
+
+    try {
+      await revokeAccessToken(token, accessToken.id);
+      setAccessTokens((prev) => prev.filter((item) => item.id !== accessToken.id));
+      if (created?.id === accessToken.id) setCreated(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke token");
+    } finally {
+      setBusyIds((prev) => prev.filter((id) => id !== accessToken.id));
+    }
+  }
+
+  return (
+    <div className="access-tokens">
+      <p className="muted">
+        Tokens let scripts call the API as you. Send one as{" "}
+        <code>Authorization: Bearer &lt;token&gt;</code>.
+      </p>
+
+      {created && (
+        <div className="alert alert--info access-tokens__created">
+          <p>
+            Copy <strong>{created.name}</strong> now. You won't be able to see it again.
+          </p>
+          <code className="access-tokens__secret">{created.token}</code>
+          <button type="button" className="button-ghost" onClick={() => setCreated(null)}>
+            Done
+          </button>
+        </div>
+      )}
+
+      <form className="form access-tokens__form" onSubmit={handleCreate}>
+        <div className="form__group">
+          <label htmlFor="access-token-name">Name</label>
+          <input
+            id="access-token-name"
+            className="input"
+            type="text"
+            placeholder="e.g. Weekly report script"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            required
+            disabled={saving}
+          />
+        </div>
+        <fieldset className="access-tokens__scopes" disabled={saving}>
+          <legend>Scopes</legend>
+          {SCOPE_OPTIONS.map((option) => (
+            <label key={option.scope}>
+              <input
+                type="checkbox"
+                checked={scopes.includes(option.scope)}
+                onChange={() => toggleScope(option.scope)}
+              />
+              <code>{option.scope}</code> {option.label}
+            </label>
+          ))}
+        </fieldset>
+        <div className="form__group">
+          <label htmlFor="access-token-expiry">Expires after</label>
+          <select
+            id="access-token-expiry"
+            className="select"
+            value={expiresInDays ?? ""}
+            onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+            disabled={saving}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.days ?? ""}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          className="button-secondary"
+          disabled={saving || scopes.length === 0}
+        >
+          Create token
+        </button>
+      </form>
+
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {loading ? (
+        <div className="list-loading" role="status">
+          Loading tokens...
+        </div>
+      ) : (
+        accessTokens.length > 0 && (
+          <ul className="account__sessions">
+            {accessTokens.map((accessToken) => (
+              <li key={accessToken.id} className="account__session">
+                <div>
+                  <strong>{accessToken.name}</strong>
+                  {isExpired(accessToken) && <span className="badge">Expired</span>}
+                  <p className="muted">
+                    {accessToken.scopes.join(", ")} · Last used{" "}
+                    {accessToken.lastUsedAt ? formatDate(accessToken.lastUsedAt) : "never"} ·{" "}
+                    {accessToken.expiresAt
+                      ? `${isExpired(accessToken) ? "Expired" : "Expires"} ${formatDate(accessToken.expiresAt)}`
+                      : "No expiry"}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  className="icon-button"
+                  onClick={() => void handleRevoke(accessToken)}
+                  disabled={busyIds.includes(accessToken.id)}
+                >
+                  Revoke
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import type { User, UserSession } from "@martian-todos/shared";
+import { fetchSessions, revokeOtherSessions, revokeSession } from "../api/account";
+import { AccessTokenSettings } from "./AccessTokenSettings";
+import { DataExportSettings } from "./DataExportSettings";
+import { ProfileSettings } from "./ProfileSettings";
+import { TwoFactorSettings } from "./TwoFactorSettings";
+
+interface AccountPageProps {
+  token: string;
+  user: User | null;
+  onSignedOut: () => void;
+}
+
+/**
+ * Turns a user agent string into a short "Browser on OS" label.
+ */
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([marker]) => userAgent.includes(marker))?.[1] ?? "Unknown browser";
+
+  const os =
+    [
+      ["Windows", "Windows"],
+      ["iPhone", "iOS"],
+      ["iPad", "iPadOS"],
+      ["Mac OS X", "macOS"],
+      ["Android", "Android"],
+      ["Linux", "Linux"],
+    ].find(([marker]) => userAgent.includes(marker))?.[1] ?? null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Formats a session time with minutes.
+ */
+function formatTimestamp(value: Date | string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Account details, sign-in security, the devices and tokens that can
+ * access the account, and data export.
+ */
+export function AccountPage({ token, user, onSignedOut }: AccountPageProps) {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSessions(token)
+      .then((items) => {
+        if (!cancelled) setSessions(items);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load sessions");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  async function handleRevoke(session: UserSession) {
+    setBusyIds((prev) => [...prev, session.id]);
+    setError(null);
+
+    try {
+      await revokeSession(token, session.id);
+      // Ending this device's session is a sign-out.
+      if (session.current) {
+        onSignedOut();
+        return;
+      }
+      setSessions((prev) => prev.filter((item) => item.id !== session.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign out device");
+    } finally {
+      setBusyIds((prev) => prev.filter((id) => id !== session.id));
+    }
+  }
+
+  async function handleRevokeOthers() {
+    setError(null);
+
+    try {
+      await revokeOtherSessions(token);
+      setSessions((prev) => prev.filter((item) => item.current));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign out other devices");
+    }
+  }
+
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <section className="card card--soft account">
+      <div className="card__header">
+        <div>
+          <p className="eyebrow">Account</p>
+          <h2>{user?.name}</h2>
+          <p className="muted">{user?.email}</p>
+        </div>
+      </div>
+
+      {user && (
+        <>
+          <div className="account__section-header">
+            <h3>Profile</h3>
+          </div>
+          <ProfileSettings
+            token={token}
+            user={user}
+            onPasswordChanged={() => setSessions((prev) => prev.filter((item) => item.current))}
+            onDeleted={onSignedOut}
+          />
+
+          <div className="account__section-header">
+            <h3>Two-factor authentication</h3>
+          </div>
+          <TwoFactorSettings token={token} user={user} />
+        </>
+      )}
+
+      <div className="account__section-header">
+        <h3>Where you're signed in</h3>
+        {hasOthers && (
+          <button
+            type="button"
+            className="button-secondary"
+            onClick={() => void handleRevokeOthers()}
+          >
+            Sign out other devices
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {loading ? (
+        <div className="list-loading" role="status">
+          Loading sessions...
+        </div>
+      ) : (
+        <ul className="account__sessions">
+          {sessions.map((session) => (
+            <li key={session.id} className="account__session">
+              <div>
+                <strong>{describeUserAgent(session.userAgent)}</strong>
+                {session.current && <span className="badge">This device</span>}
+                <p className="muted">
+                  {session.ipAddress ?? "Unknown IP"} · Signed in{" "}
+                  {formatTimestamp(session.createdAt)} · Last active{" "}
+                  {formatTimestamp(session.lastUsedAt)}
+                </p>
+              </div>
+              <button
+                type="button"
+                className="icon-button"
+                onClick={() => void handleRevoke(session)}
+                disabled={busyIds.includes(session.id)}
+              >
+                Sign out
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="account__section-header">
+        <h3>Personal access tokens</h3>
+      </div>
+      <AccessTokenSettings token={token} />
+
+      <div className="account__section-header">
+        <h3>Your data</h3>
+      </div>
+      <DataExportSettings token={token} />
+    </section>
+  );
+}
@@ -1,11 +1,28 @@
 import { useState, type FormEvent, type RefObject } from "react";
 import type { CreateTodoInput } from "@martian-todos/shared";
+import {
+  DEFAULT_REPEAT,
+  RepeatPicker,
+  buildRecurrenceRule,
+  type RepeatState,
+} from "./RepeatPicker";
 
 interface AddTodoFormProps {
   onCreate: (input: CreateTodoInput) => Promise<void>;
   titleInputRef?: RefObject<HTMLInputElement>;
 }
 
+/**
+ * Splits a comma-separated tag list into normalized tag names.
+ */
+function parseTags(value: string): string[] {
+  const names = value
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name.length > 0);
+  return Array.from(new Set(names));
+}
+
 /**
  * Form for adding new todos.
  */
@@ -13,6 +30,9 @@ export function AddTodoForm({ onCreate, titleInputRef }: AddTodoFormProps) {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [priority, setPriority] = useState<"low" | "medium" | "high">("medium");
+  const [tags, setTags] = useState("");
+  const [dueDate, setDueDate] = useState("");
+  const [repeat, setRepeat] = useState<RepeatState>(DEFAULT_REPEAT);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -20,6 +40,12 @@ export function AddTodoForm({ onCreate, titleInputRef }: AddTodoFormProps) {
     e.preventDefault();
     if (!title.trim()) return;
 
+    const recurrenceRule = buildRecurrenceRule(repeat);
+    if (recurrenceRule && !dueDate) {
+      setError("Pick a due date so the repeat schedule has a starting point.");
+      return;
+    }
+
     // Keep the form state responsive while waiting for the API.
     setLoading(true);
     setError(null);
@@ -30,11 +56,18 @@ export function AddTodoForm({ onCreate, titleInputRef }: AddTodoFormProps) {
         title: title.trim(),
         description: description.trim() || undefined,
         priority,
+        tags: parseTags(tags),
+        // Date inputs yield YYYY-MM-DD, which parses as UTC midnight.
+        dueDate: dueDate ? new Date(dueDate).toISOString() : undefined,
+        recurrenceRule,
       });
       // Clear the form so the user can add the next todo quickly.
       setTitle("");
       setDescription("");
       setPriority("medium");
+      setTags("");
+      setDueDate("");
+      setRepeat(DEFAULT_REPEAT);
     } catch (err) {
       // Surface the error locally so the form can explain what failed.
       setError(err instanceof Error ? err.message : "Failed to create todo");
@@ -84,6 +117,33 @@ export function AddTodoForm({ onCreate, titleInputRef }: AddTodoFormProps) {
           />
         </div>
 
+        <div className="form__group">
+          <label htmlFor="todo-tags">Tags</label>
+          <input
+            id="todo-tags"
+            className="input"
+            type="text"
+            value={tags}
+            onChange={(event) => setTags(event.target.value)}
+            placeholder="launch, ops, blocked"
+            disabled={loading}
+          />
+        </div>
+
+        <div className="form__group">
+          <label htmlFor="todo-due-date">Due date</label>
+          <input
+            id="todo-due-date"
+            className="input"
+            type="date"
+            value={dueDate}
+            onChange={(event) => setDueDate(event.target.value)}
+            disabled={loading}
+          />
+        </div>
+
+        <RepeatPicker value={repeat} onChange={setRepeat} disabled={loading} />
+
         <div className="form__row">
           <label className="form__control">
             <span>Priority</span>
@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import type { Todo, Workspace } from "@martian-todos/shared";
+import { formatDate } from "@martian-todos/shared";
+import { fetchAssignedTodos, updateTodo } from "../api/todos";
+
+interface AssignedViewProps {
+  token: string;
+  workspaces: Workspace[];
+  onOpen: (todo: Todo) => void;
+}
+
+/**
+ * Lists open todos assigned to the user across every workspace they belong
+ * to, soonest due first.
+ */
+export function AssignedView({ token, workspaces, onOpen }: AssignedViewProps) {
+  const [items, setItems] = useState<Todo[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the requested page, appending to what is already shown.
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchAssignedTodos(token, { page })
+      .then((data) => {
+        if (cancelled) return;
+        setItems((prev) => (page === 1 ? data.items : [...prev, ...data.items]));
+        setTotalPages(data.totalPages);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load assigned todos");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, page]);
+
+  // Todos here can live in any workspace, so send each one's own id along.
+  async function handleComplete(todo: Todo) {
+    setBusyIds((prev) => [...prev, todo.id]);
+    setError(null);
+
+    try {
+      await updateTodo(
+        token,
+        todo.id,
+        { status: "completed" },
+        { workspaceId: todo.workspaceId }
+      );
+      setItems((prev) => prev.filter((item) => item.id !== todo.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to complete todo");
+    } finally {
+      setBusyIds((prev) => prev.filter((id) => id !== todo.id));
+    }
+  }
+
+  function workspaceName(todo: Todo): string {
+    return workspaces.find((workspace) => workspace.id === todo.workspaceId)?.name ?? "Workspace";
+  }
+
+  return (
+    <section className="card card--soft trash">
+      <div className="card__header">
+        <div>
+          <p className="eyebrow">Assigned to me</p>
+          <h2>Your open todos</h2>
+        </div>
+        <p className="muted">Everything assigned to you, from every workspace.</p>
+      </div>
+
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {!loading && items.length === 0 ? (
+        <div className="empty-state">
+          <p>Nothing is assigned to you right now.</p>
+        </div>
+      ) : (
+        <ul className="trash__list">
+          {items.map((todo) => {
+            const busy = busyIds.includes(todo.id);
+            return (
+              <li key={todo.id} className="trash__item">
+                <div>
+                  <strong>{todo.title}</strong>
+                  <p className="muted">
+                    {workspaceName(todo)} · {todo.priority} priority
+                    {todo.dueDate && ` · Due ${formatDate(todo.dueDate)}`}
+                  </p>
+                </div>
+                <div className="trash__actions">
+                  <button
+                    type="button"
+                    className="button-secondary"
+                    onClick={() => handleComplete(todo)}
+                    disabled={busy}
+                  >
+                    Mark complete
+                  </button>
+                  <button
+                    type="button"
+                    className="button-ghost"
+                    onClick={() => onOpen(todo)}
+                    disabled={busy}
+                  >
+                    Open
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {loading && (
+        <div className="list-loading" role="status">
+          Loading assigned todos...
+        </div>
+      )}
+
+      {!loading && page < totalPages && (
+        <button
+          type="button"
+          className="button-ghost"
+          onClick={() => setPage((prev) => prev + 1)}
+        >
+          Load more
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,24 @@
+interface AvatarProps {
+  name: string | null;
+}
+
+/**
+ * Up to two initials from a display name ("Ada Lovelace" → "AL").
+ */
+function initialsOf(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const letters = words.length > 1 ? [words[0][0], words[words.length - 1][0]] : [name.trim()[0]];
+  return letters.join("").toUpperCase() || "?";
+}
+
+/**
+ * Round initials badge standing in for a person. Null renders an empty
+ * placeholder, e.g. for an unassigned todo.
+ */
+export function Avatar({ name }: AvatarProps) {
+  return (
+    <span className={`avatar${name ? "" : " avatar--empty"}`} title={name ?? undefined} aria-hidden>
+      {name ? initialsOf(name) : ""}
+    </span>
+  );
+}
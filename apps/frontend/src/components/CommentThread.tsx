@@ -0,0 +1,224 @@
+import { useEffect, useState, type FormEvent } from "react";
+import type { Todo, TodoComment } from "@martian-todos/shared";
+import { createComment, deleteComment, fetchComments, updateComment } from "../api/todos";
+import { Avatar } from "./Avatar";
+import { Markdown } from "./Markdown";
+
+interface CommentThreadProps {
+  token: string;
+  todo: Todo;
+  currentUserId: string | null;
+  onChange: (todoId: string) => void;
+}
+
+/**
+ * Formats a comment time with minutes, like the history timeline.
+ */
+function formatTimestamp(value: Date | string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Discussion thread under a todo. Authors can edit or delete their own
+ * comments.
+ */
+export function CommentThread({ token, todo, currentUserId, onChange }: CommentThreadProps) {
+  const [comments, setComments] = useState<TodoComment[]>([]);
+  const [body, setBody] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the thread when the panel first opens.
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchComments(token, todo.id)
+      .then((items) => {
+        if (!cancelled) setComments(items);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load comments");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, todo.id]);
+
+  // Run one thread action with shared saving/error handling.
+  async function run(task: () => Promise<void>, failure: string) {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handlePost(e: FormEvent) {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    void run(async () => {
+      const created = await createComment(token, todo.id, { body });
+      setComments((prev) => [...prev, created]);
+      setBody("");
+      // Refresh the parent so its comment count stays in sync.
+      onChange(todo.id);
+    }, "Failed to post comment");
+  }
+
+  function startEditing(comment: TodoComment) {
+    setEditingId(comment.id);
+    setEditBody(comment.body);
+  }
+
+  function handleSaveEdit(e: FormEvent, comment: TodoComment) {
+    e.preventDefault();
+    if (!editBody.trim()) return;
+
+    void run(async () => {
+      const updated = await updateComment(token, todo.id, comment.id, { body: editBody });
+      setComments((prev) => prev.map((item) => (item.id === comment.id ? updated : item)));
+      setEditingId(null);
+    }, "Failed to edit comment");
+  }
+
+  function handleDelete(comment: TodoComment) {
+    void run(async () => {
+      await deleteComment(token, todo.id, comment.id);
+      setComments((prev) => prev.filter((item) => item.id !== comment.id));
+      onChange(todo.id);
+    }, "Failed to delete comment");
+  }
+
+  return (
+    <div className="comments">
+      {loading ? (
+        <p className="muted">Loading comments...</p>
+      ) : (
+        <ul className="comments__list">
+          {comments.map((comment) => {
+            const isAuthor = comment.author !== null && comment.author.id === currentUserId;
+            const edited =
+              new Date(comment.updatedAt).getTime() !== new Date(comment.createdAt).getTime();
+
+            return (
+              <li key={comment.id} className="comments__item">
+                <Avatar name={comment.author?.name ?? null} />
+                <div className="comments__content">
+                  <p>
+                    <strong>{comment.author?.name ?? "Deleted user"}</strong>
+                    <span className="muted">
+                      {" "}
+                      · {formatTimestamp(comment.createdAt)}
+                      {edited && " (edited)"}
+                    </span>
+                  </p>
+
+                  {editingId === comment.id ? (
+                    <form
+                      className="comments__form"
+                      onSubmit={(e) => handleSaveEdit(e, comment)}
+                    >
+                      <textarea
+                        className="input"
+                        value={editBody}
+                        onChange={(event) => setEditBody(event.target.value)}
+                        maxLength={5000}
+                        rows={3}
+                        disabled={saving}
+                        aria-label="Edit comment"
+                      />
+                      <div className="comments__actions">
+                        <button
+                          className="button-secondary"
+                          type="submit"
+                          disabled={saving || !editBody.trim()}
+                        >
+                          Save
+                        </button>
+                        <button
+                          className="button-ghost"
+                          type="button"
+                          onClick={() => setEditingId(null)}
+                          disabled={saving}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    <Markdown source={comment.body} />
+                  )}
+
+                  {isAuthor && editingId !== comment.id && (
+                    <div className="comments__actions">
+                      <button
+                        className="button-ghost"
+                        type="button"
+                        onClick={() => startEditing(comment)}
+                        disabled={saving}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="icon-button"
+                        type="button"
+                        onClick={() => handleDelete(comment)}
+                        disabled={saving}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form className="comments__form" onSubmit={handlePost}>
+        <textarea
+          className="input"
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          placeholder="Add a comment. Markdown works; @email mentions notify teammates."
+          maxLength={5000}
+          rows={3}
+          disabled={saving}
+          aria-label={`Comment on ${todo.title}`}
+        />
+        <div className="comments__actions">
+          <button className="button-secondary" type="submit" disabled={saving || !body.trim()}>
+            Comment
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
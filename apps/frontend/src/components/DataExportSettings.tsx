@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import type { DataExport } from "@martian-todos/shared";
+import { fetchDataExport, fetchLatestDataExport, requestDataExport } from "../api/account";
+
+interface DataExportSettingsProps {
+  token: string;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Formats an export time with minutes.
+ */
+function formatTimestamp(value: Date | string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function isInProgress(dataExport: DataExport | null): boolean {
+  return dataExport?.status === "pending" || dataExport?.status === "processing";
+}
+
+/**
+ * Requests an archive of all account data and offers it for download
+ * once the server has built it.
+ */
+export function DataExportSettings({ token }: DataExportSettingsProps) {
+  const [dataExport, setDataExport] = useState<DataExport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchLatestDataExport(token)
+      .then((latest) => {
+        if (!cancelled) setDataExport(latest);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load export");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // Poll while the archive is being built.
+  const pollId = dataExport && isInProgress(dataExport) ? dataExport.id : null;
+  useEffect(() => {
+    if (!pollId) return;
+
+    const timer = window.setInterval(() => {
+      fetchDataExport(token, pollId)
+        .then(setDataExport)
+        .catch(() => undefined);
+    }, POLL_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [token, pollId]);
+
+  async function handleRequest() {
+    setError(null);
+    setRequesting(true);
+
+    try {
+      setDataExport(await requestDataExport(token));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start export");
+    } finally {
+      setRequesting(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="list-loading" role="status">
+        Loading export...
+      </div>
+    );
+  }
+
+  return (
+    <div className="data-export">
+      <p className="muted">
+        Download your profile and the todos, subtasks, projects, tags, history and comments
+        of your personal workspace, plus what you created, were assigned or wrote in shared
+        workspaces, as JSON and CSV files in a ZIP archive.
+      </p>
+
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isInProgress(dataExport) ? (
+        <p role="status">Preparing your archive. This can take a few minutes for large accounts.</p>
+      ) : (
+        <>
+          {dataExport?.status === "ready" && dataExport.downloadUrl && (
+            <p>
+              <a className="button-secondary" href={dataExport.downloadUrl} download>
+                Download archive
+              </a>{" "}
+              <span className="muted">
+                {dataExport.sizeBytes !== null && `${formatSize(dataExport.sizeBytes)} · `}
+                Link expires {dataExport.expiresAt && formatTimestamp(dataExport.expiresAt)}
+              </span>
+            </p>
+          )}
+          {dataExport?.status === "failed" && (
+            <p className="form__error">The last export failed. Please try again.</p>
+          )}
+          <button
+            type="button"
+            className="button-secondary"
+            onClick={() => void handleRequest()}
+            disabled={requesting}
+          >
+            {dataExport ? "Create a new export" : "Export my data"}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
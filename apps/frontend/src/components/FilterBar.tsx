@@ -1,5 +1,12 @@
 import type { RefObject } from "react";
-import type { TodoPriority, TodoStatus } from "@martian-todos/shared";
+import type {
+  Tag,
+  Todo,
+  TodoPriority,
+  TodoStatus,
+  WorkspaceMember,
+} from "@martian-todos/shared";
+import { HighlightedText } from "./HighlightedText";
 
 export type StatusFilter = "all" | TodoStatus;
 export type PriorityFilter = "all" | TodoPriority;
@@ -9,12 +16,19 @@ export type SortOption =
   | "priority_desc"
   | "priority_asc"
   | "due_asc"
-  | "due_desc";
+  | "due_desc"
+  | "relevance";
+export type TagMatch = "any" | "all";
+// "me", "unassigned", or a member's user id.
+export type AssigneeFilter = "all" | "me" | "unassigned" | string;
 
 export interface FilterState {
   search: string;
   status: StatusFilter;
   priority: PriorityFilter;
+  assignee: AssigneeFilter;
+  tags: string[];
+  tagMatch: TagMatch;
   sort: SortOption;
 }
 
@@ -25,6 +39,9 @@ export const DEFAULT_FILTERS: FilterState = {
   search: "",
   status: "all",
   priority: "all",
+  assignee: "all",
+  tags: [],
+  tagMatch: "any",
   sort: "created_desc",
 };
 
@@ -49,15 +66,22 @@ const SORT_OPTIONS: Array<{ value: SortOption; label: string }> = [
   { value: "priority_asc", label: "Priority low to high" },
   { value: "due_asc", label: "Due date soonest" },
   { value: "due_desc", label: "Due date latest" },
+  { value: "relevance", label: "Best match" },
 ];
 
+const MAX_SEARCH_PREVIEWS = 5;
+
 interface FilterBarProps {
   filters: FilterState;
   onChange: (next: FilterState) => void;
   onReset: () => void;
   resultsCount: number;
   totalCount: number;
+  availableTags: Tag[];
+  searchMatches: Todo[] | null;
   searchInputRef: RefObject<HTMLInputElement>;
+  members: WorkspaceMember[];
+  currentUserId: string | null;
 }
 
 /**
@@ -69,15 +93,29 @@ export function FilterBar({
   onReset,
   resultsCount,
   totalCount,
+  availableTags,
+  searchMatches,
   searchInputRef,
+  members,
+  currentUserId,
 }: FilterBarProps) {
   // Track whether any filter is currently active for showing reset.
   const hasActiveFilters =
     filters.search.trim().length > 0 ||
     filters.status !== "all" ||
     filters.priority !== "all" ||
+    filters.assignee !== "all" ||
+    filters.tags.length > 0 ||
     filters.sort !== DEFAULT_FILTERS.sort;
 
+  // Toggle a tag in or out of the active tag filter.
+  function toggleTag(name: string) {
+    const tags = filters.tags.includes(name)
+      ? filters.tags.filter((tag) => tag !== name)
+      : [...filters.tags, name];
+    onChange({ ...filters, tags });
+  }
+
   return (
     <section className="filter-bar">
       {/* Search row with counts and reset action. */}
@@ -89,12 +127,34 @@ export function FilterBar({
             ref={searchInputRef}
             className="input"
             type="search"
-            placeholder="Search titles or descriptions"
+            placeholder='Search titles or descriptions ("exact phrase", -exclude)'
             value={filters.search}
             onChange={(event) =>
               onChange({ ...filters, search: event.target.value })
             }
+            aria-describedby="todo-search-matches"
           />
+
+          {/* Top matches with the matched words highlighted. */}
+          {searchMatches && filters.search.trim().length > 0 && (
+            <ul id="todo-search-matches" className="search-matches" aria-live="polite">
+              {searchMatches.length === 0 && (
+                <li className="muted">No matches.</li>
+              )}
+              {searchMatches.slice(0, MAX_SEARCH_PREVIEWS).map((todo) => (
+                <li key={todo.id} className="search-matches__item">
+                  <strong>
+                    <HighlightedText text={todo.highlight?.title ?? todo.title} />
+                  </strong>
+                  {todo.highlight?.description && (
+                    <p className="muted">
+                      <HighlightedText text={todo.highlight.description} />
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
         <div className="filter-bar__meta">
@@ -112,7 +172,7 @@ export function FilterBar({
         </div>
       </div>
 
-      {/* Filter controls for status, priority, and sorting. */}
+      {/* Filter controls for status, priority, assignee, and sorting. */}
       <div className="filter-bar__row filter-bar__controls">
         <label className="filter-bar__control">
           <span>Status</span>
@@ -154,6 +214,33 @@ export function FilterBar({
           </select>
         </label>
 
+        {members.length > 1 && (
+          <label className="filter-bar__control">
+            <span>Assignee</span>
+            <select
+              className="select"
+              value={filters.assignee}
+              onChange={(event) =>
+                onChange({
+                  ...filters,
+                  assignee: event.target.value as AssigneeFilter,
+                })
+              }
+            >
+              <option value="all">Anyone</option>
+              <option value="me">Me</option>
+              <option value="unassigned">Unassigned</option>
+              {members
+                .filter((member) => member.userId !== currentUserId)
+                .map((member) => (
+                  <option key={member.userId} value={member.userId}>
+                    {member.name}
+                  </option>
+                ))}
+            </select>
+          </label>
+        )}
+
         <label className="filter-bar__control">
           <span>Sort</span>
           <select
@@ -174,6 +261,48 @@ export function FilterBar({
           </select>
         </label>
       </div>
+
+      {/* Tag picker with any/all matching. */}
+      {availableTags.length > 0 && (
+        <div className="filter-bar__row filter-bar__tags">
+          <div className="tag-picker" role="group" aria-label="Filter by tag">
+            {availableTags.map((tag) => {
+              const selected = filters.tags.includes(tag.name);
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  className={`tag-chip tag-chip--button${selected ? " is-selected" : ""}`}
+                  aria-pressed={selected}
+                  onClick={() => toggleTag(tag.name)}
+                >
+                  #{tag.name}
+                  <span className="tag-chip__count">{tag.todoCount}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          {filters.tags.length > 1 && (
+            <label className="filter-bar__control">
+              <span>Match</span>
+              <select
+                className="select"
+                value={filters.tagMatch}
+                onChange={(event) =>
+                  onChange({
+                    ...filters,
+                    tagMatch: event.target.value as TagMatch,
+                  })
+                }
+              >
+                <option value="any">Any tag</option>
+                <option value="all">All tags</option>
+              </select>
+            </label>
+          )}
+        </div>
+      )}
     </section>
   );
 }
@@ -0,0 +1,33 @@
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START } from "@martian-todos/shared";
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+/**
+ * Renders a search snippet, wrapping matched terms in <mark>.
+ * The snippet is split on the highlight markers rather than injected as
+ * HTML, so todo text is always escaped.
+ */
+export function HighlightedText({ text }: HighlightedTextProps) {
+  const parts = text.split(SEARCH_HIGHLIGHT_START);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        // The first part precedes any match; later parts start with one.
+        if (index === 0) return <span key={index}>{part}</span>;
+
+        const end = part.indexOf(SEARCH_HIGHLIGHT_END);
+        if (end < 0) return <span key={index}>{part}</span>;
+
+        return (
+          <span key={index}>
+            <mark>{part.slice(0, end)}</mark>
+            {part.slice(end + SEARCH_HIGHLIGHT_END.length)}
+          </span>
+        );
+      })}
+    </>
+  );
+}
@@ -1,35 +1,95 @@
-import { useState, type FormEvent } from "react";
-import type { AuthResponse } from "@martian-todos/shared";
-import { login, register } from "../api/auth";
+import { useEffect, useState, type FormEvent } from "react";
+import type { AuthOptions, AuthResponse } from "@martian-todos/shared";
+import {
+  SSO_LOGIN_URL,
+  fetchAuthOptions,
+  forgotPassword,
+  login,
+  loginWithTwoFactor,
+  register,
+} from "../api/auth";
+
+type AuthMode = "login" | "register" | "forgot";
 
 interface LoginFormProps {
   onLogin: (response: AuthResponse) => void;
+  notice?: string | null;
 }
 
 /**
  * Login/Register form component.
- * Toggles between login and registration modes.
+ * Toggles between login and registration modes, and offers a password
+ * reset request for users who can't sign in. Accounts with two-factor
+ * authentication get a second step asking for a code. Offers single
+ * sign-on when the server has it, and only that when password sign-in is
+ * turned off.
  */
-export function LoginForm({ onLogin }: LoginFormProps) {
-  const [isRegister, setIsRegister] = useState(false);
+export function LoginForm({ onLogin, notice: initialNotice = null }: LoginFormProps) {
+  const [mode, setMode] = useState<AuthMode>("login");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [name, setName] = useState("");
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(initialNotice);
   const [loading, setLoading] = useState(false);
+  const [options, setOptions] = useState<AuthOptions>({ passwordLogin: true, sso: null });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchAuthOptions()
+      .then((result) => {
+        if (!cancelled) setOptions(result);
+      })
+      // Fall back to password sign-in; the server still enforces its settings.
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isRegister = mode === "register";
+  const isForgot = mode === "forgot";
+
+  function switchMode(next: AuthMode) {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+  }
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
     // Clear the previous error before attempting authentication.
     setError(null);
+    setNotice(null);
     setLoading(true);
 
     try {
+      if (challengeToken) {
+        onLogin(await loginWithTwoFactor({ challengeToken, code }));
+        return;
+      }
+
+      if (isForgot) {
+        await forgotPassword({ email });
+        setNotice("If an account exists for that email, a reset link is on its way.");
+        return;
+      }
+
       // Choose the correct auth flow based on the current mode.
       const response = isRegister
         ? await register({ email, password, name })
         : await login({ email, password });
 
+      // The password was right, but the account also needs a code.
+      if ("twoFactorRequired" in response) {
+        setChallengeToken(response.challengeToken);
+        return;
+      }
+
       // Hand off the token and user to the auth hook.
       onLogin(response);
     } catch (err) {
@@ -40,14 +100,97 @@ export function LoginForm({ onLogin }: LoginFormProps) {
     }
   }
 
+  if (challengeToken) {
+    return (
+      <div className="auth-card">
+        <div className="auth-card__header">
+          <h2>Two-Factor Check</h2>
+          <p className="muted">
+            Enter the 6-digit code from your authenticator app, or one of your recovery
+            codes.
+          </p>
+        </div>
+
+        <form className="form" onSubmit={handleSubmit}>
+          <div className="form__group">
+            <label htmlFor="two-factor-code">Authentication code</label>
+            <input
+              id="two-factor-code"
+              className="input"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              autoFocus
+              disabled={loading}
+            />
+          </div>
+
+          {error && (
+            <p className="form__error" role="alert">
+              {error}
+            </p>
+          )}
+
+          <button className="button-primary" type="submit" disabled={loading}>
+            {loading ? "Loading..." : "Verify"}
+          </button>
+        </form>
+
+        <p className="auth-card__toggle">
+          <button
+            className="button-link"
+            type="button"
+            onClick={() => {
+              setChallengeToken(null);
+              setCode("");
+              setError(null);
+            }}
+          >
+            Back to sign in
+          </button>
+        </p>
+      </div>
+    );
+  }
+
+  const ssoButton = options.sso && (
+    <a className="button-secondary auth-card__sso" href={SSO_LOGIN_URL}>
+      Sign in with {options.sso.providerName}
+    </a>
+  );
+
+  if (!options.passwordLogin) {
+    return (
+      <div className="auth-card">
+        <div className="auth-card__header">
+          <h2>Sign In</h2>
+          <p className="muted">Welcome back to Mission Control.</p>
+        </div>
+
+        {notice && (
+          <p className="form__notice" role="status">
+            {notice}
+          </p>
+        )}
+
+        {ssoButton}
+      </div>
+    );
+  }
+
   return (
     <div className="auth-card">
       <div className="auth-card__header">
-        <h2>{isRegister ? "Create Account" : "Sign In"}</h2>
+        <h2>{isRegister ? "Create Account" : isForgot ? "Reset Password" : "Sign In"}</h2>
         <p className="muted">
           {isRegister
             ? "Start organizing mission-critical tasks."
-            : "Welcome back to Mission Control."}
+            : isForgot
+              ? "We'll email you a link to choose a new password."
+              : "Welcome back to Mission Control."}
         </p>
       </div>
 
@@ -80,19 +223,30 @@ export function LoginForm({ onLogin }: LoginFormProps) {
           />
         </div>
 
-        <div className="form__group">
-          <label htmlFor="password">Password</label>
-          <input
-            id="password"
-            className="input"
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
-            minLength={8}
-            disabled={loading}
-          />
-        </div>
+        {!isForgot && (
+          <div className="form__group">
+            <label htmlFor="password">Password</label>
+            <input
+              id="password"
+              className="input"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={8}
+              disabled={loading}
+            />
+            {mode === "login" && (
+              <button
+                className="button-link form__aside"
+                type="button"
+                onClick={() => switchMode("forgot")}
+              >
+                Forgot password?
+              </button>
+            )}
+          </div>
+        )}
 
         {error && (
           <p className="form__error" role="alert">
@@ -100,23 +254,42 @@ export function LoginForm({ onLogin }: LoginFormProps) {
           </p>
         )}
 
+        {notice && (
+          <p className="form__notice" role="status">
+            {notice}
+          </p>
+        )}
+
         <button
           className="button-primary"
           type="submit"
           disabled={loading}
         >
-          {loading ? "Loading..." : isRegister ? "Create Account" : "Sign In"}
+          {loading
+            ? "Loading..."
+            : isRegister
+              ? "Create Account"
+              : isForgot
+                ? "Send Reset Link"
+                : "Sign In"}
         </button>
       </form>
 
+      {ssoButton && mode === "login" && (
+        <>
+          <p className="auth-card__divider">or</p>
+          {ssoButton}
+        </>
+      )}
+
       <p className="auth-card__toggle">
-        {isRegister ? "Already have an account? " : "Don't have an account? "}
+        {mode === "login" ? "Don't have an account? " : "Already have an account? "}
         <button
           className="button-link"
           type="button"
-          onClick={() => setIsRegister(!isRegister)}
+          onClick={() => switchMode(mode === "login" ? "register" : "login")}
         >
-          {isRegister ? "Sign In" : "Register"}
+          {mode === "login" ? "Register" : "Sign In"}
         </button>
       </p>
     </div>
@@ -0,0 +1,175 @@
+import type { ReactNode } from "react";
+import { MENTION_PATTERN } from "@martian-todos/shared";
+
+interface MarkdownProps {
+  source: string;
+}
+
+type Block =
+  | { type: "paragraph"; lines: string[] }
+  | { type: "quote"; lines: string[] }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "code"; text: string };
+
+const FENCE = /^```/;
+const BULLET = /^\s*[-*]\s+/;
+const NUMBERED = /^\s*\d+[.)]\s+/;
+const QUOTE = /^>\s?/;
+
+// Code spans, **bold**, *italic* and [links](https://...). Only http(s)
+// links are recognised, so comments can't smuggle in javascript: URLs.
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s](?:[^*]*[^*\s])?)\*|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+/**
+ * Splits markdown source into the block types comments support.
+ */
+function parseBlocks(source: string): Block[] {
+  const lines = source.replace(/\r\n/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let index = 0;
+
+  // Collects consecutive lines matching a pattern, stripping it.
+  function collect(pattern: RegExp): string[] {
+    const collected: string[] = [];
+    while (index < lines.length && pattern.test(lines[index])) {
+      collected.push(lines[index].replace(pattern, ""));
+      index += 1;
+    }
+    return collected;
+  }
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index += 1;
+    } else if (FENCE.test(line)) {
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !FENCE.test(lines[index])) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      index += 1; // Skip the closing fence.
+      blocks.push({ type: "code", text: code.join("\n") });
+    } else if (BULLET.test(line)) {
+      blocks.push({ type: "list", ordered: false, items: collect(BULLET) });
+    } else if (NUMBERED.test(line)) {
+      blocks.push({ type: "list", ordered: true, items: collect(NUMBERED) });
+    } else if (QUOTE.test(line)) {
+      blocks.push({ type: "quote", lines: collect(QUOTE) });
+    } else {
+      const paragraph: string[] = [];
+      while (
+        index < lines.length &&
+        lines[index].trim() &&
+        ![FENCE, BULLET, NUMBERED, QUOTE].some((pattern) => pattern.test(lines[index]))
+      ) {
+        paragraph.push(lines[index]);
+        index += 1;
+      }
+      blocks.push({ type: "paragraph", lines: paragraph });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Wraps @email mentions in plain text.
+ */
+function renderMentions(text: string, key: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) nodes.push(text.slice(last, start));
+    nodes.push(
+      <span key={`${key}-${start}`} className="mention">
+        {match[0]}
+      </span>
+    );
+    last = start + match[0].length;
+  }
+
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+/**
+ * Renders inline formatting within one line of text.
+ */
+function renderInline(text: string, key: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const start = match.index ?? 0;
+    const childKey = `${key}-${start}`;
+    if (start > last) nodes.push(...renderMentions(text.slice(last, start), `${childKey}p`));
+
+    const [, code, bold, italic, label, href] = match;
+    if (code !== undefined) {
+      nodes.push(<code key={childKey}>{code}</code>);
+    } else if (bold !== undefined) {
+      nodes.push(<strong key={childKey}>{renderInline(bold, childKey)}</strong>);
+    } else if (italic !== undefined) {
+      nodes.push(<em key={childKey}>{renderInline(italic, childKey)}</em>);
+    } else {
+      nodes.push(
+        <a key={childKey} href={href} target="_blank" rel="noopener noreferrer">
+          {label}
+        </a>
+      );
+    }
+    last = start + match[0].length;
+  }
+
+  if (last < text.length) nodes.push(...renderMentions(text.slice(last), `${key}-end`));
+  return nodes;
+}
+
+/**
+ * Renders lines as one block, keeping single line breaks.
+ */
+function renderLines(lines: string[], key: string): ReactNode[] {
+  return lines.flatMap((line, index) => [
+    ...(index > 0 ? [<br key={`${key}-br${index}`} />] : []),
+    ...renderInline(line, `${key}-${index}`),
+  ]);
+}
+
+/**
+ * Renders the small markdown subset comments use: paragraphs, lists,
+ * quotes, code, bold, italic, links and @mentions. Builds React elements
+ * rather than HTML, so comment text is always escaped.
+ */
+export function Markdown({ source }: MarkdownProps) {
+  return (
+    <div className="markdown">
+      {parseBlocks(source).map((block, index) => {
+        const key = String(index);
+        switch (block.type) {
+          case "code":
+            return (
+              <pre key={key}>
+                <code>{block.text}</code>
+              </pre>
+            );
+          case "list": {
+            const items = block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderInline(item, `${key}-${itemIndex}`)}</li>
+            ));
+            return block.ordered ? <ol key={key}>{items}</ol> : <ul key={key}>{items}</ul>;
+          }
+          case "quote":
+            return <blockquote key={key}>{renderLines(block.lines, key)}</blockquote>;
+          default:
+            return <p key={key}>{renderLines(block.lines, key)}</p>;
+        }
+      })}
+    </div>
+  );
+}
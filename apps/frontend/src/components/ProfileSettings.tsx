@@ -0,0 +1,288 @@
+import { useEffect, useState, type FormEvent } from "react";
+import type { User } from "@martian-todos/shared";
+import { changePassword, deleteAccount, fetchMe, updateProfile } from "../api/account";
+import { updateSessionUser } from "../api/session";
+
+interface ProfileSettingsProps {
+  token: string;
+  user: User;
+  onPasswordChanged: () => void;
+  onDeleted: () => void;
+}
+
+/**
+ * Edits the name and email, changes the password, and deletes the account.
+ */
+export function ProfileSettings({
+  token,
+  user,
+  onPasswordChanged,
+  onDeleted,
+}: ProfileSettingsProps) {
+  const [name, setName] = useState(user.name);
+  const [email, setEmail] = useState(user.email);
+  const [profilePassword, setProfilePassword] = useState("");
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [deletePassword, setDeletePassword] = useState("");
+  const [deleteCode, setDeleteCode] = useState("");
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [busy, setBusy] = useState<"profile" | "password" | "delete" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Pick up changes made elsewhere, e.g. verifying the email in another tab.
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchMe(token)
+      .then((fresh) => {
+        if (!cancelled) updateSessionUser(fresh);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const emailChanged = email.trim().toLowerCase() !== user.email;
+  const profileChanged = name.trim() !== user.name || emailChanged;
+
+  // Run one settings action with shared busy/error handling.
+  async function run(
+    action: "profile" | "password" | "delete",
+    task: () => Promise<void>,
+    failure: string
+  ) {
+    setError(null);
+    setNotice(null);
+    setBusy(action);
+
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function handleProfile(e: FormEvent) {
+    e.preventDefault();
+    void run(
+      "profile",
+      async () => {
+        const updated = await updateProfile(token, {
+          name: name.trim(),
+          ...(emailChanged && { email: email.trim(), currentPassword: profilePassword }),
+        });
+        updateSessionUser(updated);
+        setProfilePassword("");
+        setNotice(
+          emailChanged
+            ? `Saved. We sent a confirmation link to ${updated.email}.`
+            : "Profile saved."
+        );
+      },
+      "Failed to save profile"
+    );
+  }
+
+  function handlePassword(e: FormEvent) {
+    e.preventDefault();
+    void run(
+      "password",
+      async () => {
+        await changePassword(token, { currentPassword, newPassword });
+        setCurrentPassword("");
+        setNewPassword("");
+        onPasswordChanged();
+        setNotice("Password changed. Other devices have been signed out.");
+      },
+      "Failed to change password"
+    );
+  }
+
+  function handleDelete(e: FormEvent) {
+    e.preventDefault();
+    void run(
+      "delete",
+      async () => {
+        await deleteAccount(token, {
+          password: deletePassword || undefined,
+          code: deleteCode.trim() || undefined,
+        });
+        onDeleted();
+      },
+      "Failed to delete account"
+    );
+  }
+
+  return (
+    <div className="profile">
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+      {notice && (
+        <p className="form__notice" role="status">
+          {notice}
+        </p>
+      )}
+
+      <form className="form profile__form" onSubmit={handleProfile}>
+        <div className="form__group">
+          <label htmlFor="profile-name">Name</label>
+          <input
+            id="profile-name"
+            className="input"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            required
+            disabled={busy !== null}
+          />
+        </div>
+        <div className="form__group">
+          <label htmlFor="profile-email">Email</label>
+          <input
+            id="profile-email"
+            className="input"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            disabled={busy !== null}
+          />
+        </div>
+        {emailChanged && (
+          <div className="form__group">
+            <label htmlFor="profile-password">Current password</label>
+            <input
+              id="profile-password"
+              className="input"
+              type="password"
+              autoComplete="current-password"
+              value={profilePassword}
+              onChange={(e) => setProfilePassword(e.target.value)}
+              required
+              disabled={busy !== null}
+            />
+          </div>
+        )}
+        <button
+          type="submit"
+          className="button-secondary"
+          disabled={busy !== null || !profileChanged}
+        >
+          {busy === "profile" ? "Saving..." : "Save profile"}
+        </button>
+      </form>
+
+      <h4>Change password</h4>
+      <form className="form profile__form" onSubmit={handlePassword}>
+        <div className="form__group">
+          <label htmlFor="current-password">Current password</label>
+          <input
+            id="current-password"
+            className="input"
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            required
+            disabled={busy !== null}
+          />
+        </div>
+        <div className="form__group">
+          <label htmlFor="new-password">New password</label>
+          <input
+            id="new-password"
+            className="input"
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            required
+            minLength={8}
+            disabled={busy !== null}
+          />
+        </div>
+        <button type="submit" className="button-secondary" disabled={busy !== null}>
+          {busy === "password" ? "Changing..." : "Change password"}
+        </button>
+      </form>
+
+      <h4>Delete account</h4>
+      {confirmingDelete ? (
+        <form className="form profile__form profile__danger" onSubmit={handleDelete}>
+          <p>
+            This permanently deletes your account, your personal workspace and any workspace
+            only you belong to. It can't be undone.
+          </p>
+          <p className="muted">
+            If you sign in with single sign-on, leave the password blank
+            {user.twoFactorEnabled
+              ? " and enter a code from your authenticator app."
+              : ". You may need to sign in again first."}
+          </p>
+          <div className="form__group">
+            <label htmlFor="delete-password">Password</label>
+            <input
+              id="delete-password"
+              className="input"
+              type="password"
+              autoComplete="current-password"
+              value={deletePassword}
+              onChange={(e) => setDeletePassword(e.target.value)}
+              autoFocus
+              disabled={busy !== null}
+            />
+          </div>
+          {user.twoFactorEnabled && (
+            <div className="form__group">
+              <label htmlFor="delete-code">Authentication code (single sign-on only)</label>
+              <input
+                id="delete-code"
+                className="input"
+                type="text"
+                autoComplete="one-time-code"
+                value={deleteCode}
+                onChange={(e) => setDeleteCode(e.target.value)}
+                disabled={busy !== null}
+              />
+            </div>
+          )}
+          <div className="two-factor__actions">
+            <button type="submit" className="icon-button" disabled={busy !== null}>
+              {busy === "delete" ? "Deleting..." : "Delete my account"}
+            </button>
+            <button
+              type="button"
+              className="button-ghost"
+              onClick={() => {
+                setConfirmingDelete(false);
+                setDeletePassword("");
+                setDeleteCode("");
+              }}
+              disabled={busy !== null}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          className="icon-button"
+          onClick={() => setConfirmingDelete(true)}
+        >
+          Delete account...
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState, type FormEvent } from "react";
+import type {
+  CreateProjectInput,
+  Project,
+  ProjectDeleteMode,
+} from "@martian-todos/shared";
+
+/**
+ * Sidebar selection: every todo, todos without a project, todos assigned to
+ * the user across workspaces, the trash, or a single project.
+ */
+export type ProjectFilter = "all" | "inbox" | "assigned" | "trash" | string;
+
+interface ProjectSidebarProps {
+  projects: Project[];
+  selected: ProjectFilter;
+  onSelect: (next: ProjectFilter) => void;
+  onCreate: (input: CreateProjectInput) => Promise<void>;
+  onArchive: (project: Project) => void;
+  onDelete: (project: Project, mode: ProjectDeleteMode) => void;
+}
+
+const DEFAULT_COLOR = "#f26d3d";
+
+/**
+ * Sidebar for switching between projects and the Inbox.
+ */
+export function ProjectSidebar({
+  projects,
+  selected,
+  onSelect,
+  onCreate,
+  onArchive,
+  onDelete,
+}: ProjectSidebarProps) {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await onCreate({ name: name.trim(), color });
+      setName("");
+      setColor(DEFAULT_COLOR);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create project");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // Render a sidebar entry with an active state.
+  function renderEntry(value: ProjectFilter, label: string, swatch?: string) {
+    return (
+      <button
+        type="button"
+        className={`project-sidebar__entry${selected === value ? " is-active" : ""}`}
+        onClick={() => onSelect(value)}
+        aria-current={selected === value ? "page" : undefined}
+      >
+        {swatch && (
+          <span className="project-sidebar__swatch" style={{ background: swatch }} />
+        )}
+        <span>{label}</span>
+      </button>
+    );
+  }
+
+  return (
+    <aside className="project-sidebar card card--soft" aria-label="Projects">
+      <nav className="project-sidebar__nav">
+        {renderEntry("all", "All todos")}
+        {renderEntry("inbox", "Inbox")}
+        {renderEntry("assigned", "Assigned to me")}
+        {renderEntry("trash", "Trash")}
+      </nav>
+
+      <p className="eyebrow">Projects</p>
+      <ul className="project-sidebar__list">
+        {projects.map((project) => (
+          <li key={project.id} className="project-sidebar__item">
+            <div className="project-sidebar__row">
+              {renderEntry(project.id, project.name, project.color)}
+              <span className="project-sidebar__count">{project.todoCount}</span>
+            </div>
+
+            {selected === project.id && (
+              <div className="project-sidebar__actions">
+                <button
+                  type="button"
+                  className="button-link"
+                  onClick={() => onArchive(project)}
+                >
+                  Archive
+                </button>
+                <button
+                  type="button"
+                  className="button-link"
+                  onClick={() => setConfirmDeleteId(project.id)}
+                >
+                  Delete
+                </button>
+              </div>
+            )}
+
+            {/* Deleting asks what to do with the project's todos. */}
+            {confirmDeleteId === project.id && (
+              <div className="project-sidebar__confirm" role="alertdialog">
+                <p className="muted">Delete “{project.name}”. What about its todos?</p>
+                <button
+                  type="button"
+                  className="button-secondary"
+                  onClick={() => {
+                    setConfirmDeleteId(null);
+                    onDelete(project, "inbox");
+                  }}
+                >
+                  Move to Inbox
+                </button>
+                <button
+                  type="button"
+                  className="button-ghost"
+                  onClick={() => {
+                    setConfirmDeleteId(null);
+                    onDelete(project, "cascade");
+                  }}
+                >
+                  Delete them too
+                </button>
+                <button
+                  type="button"
+                  className="button-link"
+                  onClick={() => setConfirmDeleteId(null)}
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <form className="project-sidebar__form" onSubmit={handleSubmit}>
+        <input
+          className="input"
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="New project"
+          maxLength={100}
+          disabled={saving}
+          aria-label="Project name"
+        />
+        <input
+          className="project-sidebar__color"
+          type="color"
+          value={color}
+          onChange={(event) => setColor(event.target.value)}
+          disabled={saving}
+          aria-label="Project color"
+        />
+        <button
+          className="button-secondary"
+          type="submit"
+          disabled={saving || !name.trim()}
+        >
+          Add
+        </button>
+      </form>
+
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,156 @@
+import {
+  WEEKDAYS,
+  describeRecurrence,
+  formatRecurrenceRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from "@martian-todos/shared";
+
+export interface RepeatState {
+  freq: "NONE" | RecurrenceFrequency;
+  interval: number;
+  byDay: Weekday[];
+}
+
+/**
+ * Default repeat configuration (does not repeat).
+ */
+export const DEFAULT_REPEAT: RepeatState = {
+  freq: "NONE",
+  interval: 1,
+  byDay: [],
+};
+
+const FREQUENCY_OPTIONS: Array<{ value: RepeatState["freq"]; label: string }> = [
+  { value: "NONE", label: "Does not repeat" },
+  { value: "DAILY", label: "Daily" },
+  { value: "WEEKLY", label: "Weekly" },
+  { value: "MONTHLY", label: "Monthly" },
+  { value: "YEARLY", label: "Yearly" },
+];
+
+const WEEKDAY_SHORT_LABELS: Record<Weekday, string> = {
+  MO: "M",
+  TU: "T",
+  WE: "W",
+  TH: "T",
+  FR: "F",
+  SA: "S",
+  SU: "S",
+};
+
+/**
+ * Converts picker state into a recurrence rule, or null when not repeating.
+ */
+function toRecurrenceRule(state: RepeatState): RecurrenceRule | null {
+  if (state.freq === "NONE") return null;
+
+  return {
+    freq: state.freq,
+    interval: state.interval,
+    // Weekday toggles only apply to weekly repeats.
+    byDay:
+      state.freq === "WEEKLY"
+        ? WEEKDAYS.filter((day) => state.byDay.includes(day)).map((weekday) => ({
+            weekday,
+          }))
+        : [],
+  };
+}
+
+/**
+ * Builds an RRULE string from picker state, or undefined when not repeating.
+ */
+export function buildRecurrenceRule(state: RepeatState): string | undefined {
+  const rule = toRecurrenceRule(state);
+  return rule ? formatRecurrenceRule(rule) : undefined;
+}
+
+interface RepeatPickerProps {
+  value: RepeatState;
+  onChange: (next: RepeatState) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Picker for a todo's repeat schedule (frequency, interval, weekdays).
+ */
+export function RepeatPicker({ value, onChange, disabled }: RepeatPickerProps) {
+  const rule = toRecurrenceRule(value);
+
+  // Toggle a weekday for weekly repeats.
+  function toggleDay(day: Weekday) {
+    const byDay = value.byDay.includes(day)
+      ? value.byDay.filter((item) => item !== day)
+      : [...value.byDay, day];
+    onChange({ ...value, byDay });
+  }
+
+  return (
+    <div className="repeat-picker">
+      <div className="form__row">
+        <label className="form__control">
+          <span>Repeat</span>
+          <select
+            className="select"
+            value={value.freq}
+            onChange={(event) =>
+              onChange({ ...value, freq: event.target.value as RepeatState["freq"] })
+            }
+            disabled={disabled}
+          >
+            {FREQUENCY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {value.freq !== "NONE" && (
+          <label className="form__control repeat-picker__interval">
+            <span>Every</span>
+            <input
+              className="input"
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(event) =>
+                onChange({
+                  ...value,
+                  interval: Math.max(1, Number(event.target.value) || 1),
+                })
+              }
+              disabled={disabled}
+            />
+          </label>
+        )}
+      </div>
+
+      {value.freq === "WEEKLY" && (
+        <div className="repeat-picker__days" role="group" aria-label="Repeat on">
+          {WEEKDAYS.map((day) => {
+            const selected = value.byDay.includes(day);
+            return (
+              <button
+                key={day}
+                type="button"
+                className={`repeat-picker__day${selected ? " is-selected" : ""}`}
+                aria-pressed={selected}
+                aria-label={day}
+                onClick={() => toggleDay(day)}
+                disabled={disabled}
+              >
+                {WEEKDAY_SHORT_LABELS[day]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {rule && <p className="muted">Repeats {describeRecurrence(rule)}.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState, type FormEvent } from "react";
+import { resetPassword } from "../api/auth";
+
+interface ResetPasswordFormProps {
+  resetToken: string;
+  onReset: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lets a user choose a new password from an emailed reset link.
+ */
+export function ResetPasswordForm({ resetToken, onReset, onCancel }: ResetPasswordFormProps) {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmation) {
+      setError("Passwords don't match");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await resetPassword({ token: resetToken, password });
+      onReset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Password reset failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="auth-card">
+      <div className="auth-card__header">
+        <h2>Choose a New Password</h2>
+        <p className="muted">You'll be signed out everywhere once it's changed.</p>
+      </div>
+
+      <form className="form" onSubmit={handleSubmit}>
+        <div className="form__group">
+          <label htmlFor="new-password">New password</label>
+          <input
+            id="new-password"
+            className="input"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={8}
+            disabled={loading}
+          />
+        </div>
+
+        <div className="form__group">
+          <label htmlFor="confirm-password">Confirm password</label>
+          <input
+            id="confirm-password"
+            className="input"
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            required
+            minLength={8}
+            disabled={loading}
+          />
+        </div>
+
+        {error && (
+          <p className="form__error" role="alert">
+            {error}
+          </p>
+        )}
+
+        <button className="button-primary" type="submit" disabled={loading}>
+          {loading ? "Loading..." : "Set Password"}
+        </button>
+      </form>
+
+      <p className="auth-card__toggle">
+        <button className="button-link" type="button" onClick={onCancel}>
+          Back to sign in
+        </button>
+      </p>
+    </div>
+  );
+}
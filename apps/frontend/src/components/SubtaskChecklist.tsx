@@ -0,0 +1,173 @@
+import { useEffect, useState, type FormEvent } from "react";
+import type { Subtask, Todo } from "@martian-todos/shared";
+import {
+  createSubtask,
+  deleteSubtask,
+  fetchSubtasks,
+  updateSubtask,
+} from "../api/todos";
+
+interface SubtaskChecklistProps {
+  token: string;
+  todo: Todo;
+  onChange: (todoId: string) => void;
+}
+
+/**
+ * Expandable checklist of subtasks nested under a todo.
+ */
+export function SubtaskChecklist({ token, todo, onChange }: SubtaskChecklistProps) {
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [title, setTitle] = useState("");
+  const [autoComplete, setAutoComplete] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the checklist when the panel first opens.
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSubtasks(token, todo.id)
+      .then((items) => {
+        if (!cancelled) setSubtasks(items);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load checklist");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, todo.id]);
+
+  async function handleAdd(e: FormEvent) {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const created = await createSubtask(token, todo.id, { title: title.trim() });
+      setSubtasks((prev) => [...prev, created]);
+      setTitle("");
+      onChange(todo.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add step");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(subtask: Subtask) {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const updated = await updateSubtask(token, todo.id, subtask.id, {
+        completed: !subtask.completed,
+        completeParent: autoComplete,
+      });
+      setSubtasks((prev) =>
+        prev.map((item) => (item.id === subtask.id ? updated : item))
+      );
+      // Refresh the parent so progress counts (and status) stay in sync.
+      onChange(todo.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update step");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(subtask: Subtask) {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await deleteSubtask(token, todo.id, subtask.id);
+      setSubtasks((prev) => prev.filter((item) => item.id !== subtask.id));
+      onChange(todo.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete step");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="checklist">
+      {loading ? (
+        <p className="muted">Loading checklist...</p>
+      ) : (
+        <ul className="checklist__items">
+          {subtasks.map((subtask) => (
+            <li
+              key={subtask.id}
+              className={`checklist__item${subtask.completed ? " is-complete" : ""}`}
+            >
+              <label>
+                <input
+                  type="checkbox"
+                  checked={subtask.completed}
+                  onChange={() => void handleToggle(subtask)}
+                  disabled={saving}
+                />
+                <span>{subtask.title}</span>
+              </label>
+              <button
+                className="icon-button"
+                type="button"
+                onClick={() => void handleDelete(subtask)}
+                disabled={saving}
+                aria-label={`Delete step ${subtask.title}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="checklist__form" onSubmit={handleAdd}>
+        <input
+          className="input"
+          type="text"
+          value={title}
+          onChange={(event) => setTitle(event.target.value)}
+          placeholder="Add a step"
+          maxLength={200}
+          disabled={saving}
+        />
+        <button
+          className="button-secondary"
+          type="submit"
+          disabled={saving || !title.trim()}
+        >
+          Add
+        </button>
+      </form>
+
+      <label className="checklist__option">
+        <input
+          type="checkbox"
+          checked={autoComplete}
+          onChange={(event) => setAutoComplete(event.target.checked)}
+        />
+        <span>Complete the todo when every step is done</span>
+      </label>
+
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import type {
+  Todo,
+  TodoEvent,
+  TodoEventType,
+  TodoFieldChange,
+  WorkspaceMember,
+} from "@martian-todos/shared";
+import { formatDate } from "@martian-todos/shared";
+import { fetchTodoHistory } from "../api/todos";
+
+interface TodoHistoryProps {
+  token: string;
+  todo: Todo;
+  members: WorkspaceMember[];
+}
+
+const EVENT_LABELS: Record<TodoEventType, string> = {
+  created: "created this todo",
+  updated: "updated",
+  status_changed: "changed the status",
+  deleted: "moved this todo to the trash",
+  restored: "restored this todo",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  priority: "priority",
+  status: "status",
+  dueDate: "due date",
+  projectId: "project",
+  assigneeId: "assignee",
+  recurrenceRule: "repeat",
+  tags: "tags",
+};
+
+/**
+ * Formats an event time with minutes, since several edits can land in a day.
+ */
+function formatTimestamp(value: Date | string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Formats a recorded field value for display. Assignees are recorded by
+ * id and shown by name while they're still members.
+ */
+function formatValue(field: string, value: unknown, members: WorkspaceMember[]): string {
+  if (value === null || value === undefined || value === "") return "none";
+  if (field === "dueDate") return formatDate(value as string);
+  if (field === "assigneeId") {
+    return members.find((member) => member.userId === value)?.name ?? "a former member";
+  }
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "none";
+  return String(value).replace("_", " ");
+}
+
+/**
+ * Describes one field change as a short sentence fragment.
+ */
+function describeChange(
+  field: string,
+  change: TodoFieldChange,
+  members: WorkspaceMember[]
+): string {
+  // Checklist edits record the item before and after the change.
+  if (field === "subtask") {
+    const before = change.before as { title: string; completed: boolean } | null;
+    const after = change.after as { title: string; completed: boolean } | null;
+
+    if (!before && after) return `added step “${after.title}”`;
+    if (before && !after) return `removed step “${before.title}”`;
+    if (before && after && before.title !== after.title) {
+      return `renamed step “${before.title}” to “${after.title}”`;
+    }
+    if (after) return `${after.completed ? "checked" : "unchecked"} “${after.title}”`;
+  }
+
+  // Trash moves are already described by the event type.
+  if (field === "deletedAt") return "";
+
+  const label = FIELD_LABELS[field] ?? field;
+  const before = formatValue(field, change.before, members);
+  return `${label}: ${before} → ${formatValue(field, change.after, members)}`;
+}
+
+/**
+ * Collapsible activity timeline for a todo.
+ */
+export function TodoHistory({ token, todo, members }: TodoHistoryProps) {
+  const [events, setEvents] = useState<TodoEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the todo changes underneath the open panel.
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchTodoHistory(token, todo.id)
+      .then((items) => {
+        if (!cancelled) setEvents(items);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load history");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, todo.id, todo.updatedAt, todo.subtaskProgress.done, todo.subtaskProgress.total]);
+
+  if (loading) {
+    return <p className="muted">Loading history...</p>;
+  }
+
+  if (error) {
+    return (
+      <p className="form__error" role="alert">
+        {error}
+      </p>
+    );
+  }
+
+  return (
+    <ol className="history">
+      {events.map((event) => {
+        const details =
+          event.type === "created"
+            ? []
+            : Object.entries(event.changes)
+                .map(([field, change]) => describeChange(field, change, members))
+                .filter(Boolean);
+
+        return (
+          <li key={event.id} className="history__item">
+            <p>
+              <strong>{event.actor?.name ?? "Someone"}</strong> {EVENT_LABELS[event.type]}
+              <span className="muted"> · {formatTimestamp(event.createdAt)}</span>
+            </p>
+            {details.length > 0 && (
+              <ul className="history__changes">
+                {details.map((detail) => (
+                  <li key={detail}>{detail}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
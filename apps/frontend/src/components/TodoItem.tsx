@@ -1,11 +1,39 @@
-import type { Todo, TodoStatus } from "@martian-todos/shared";
-import { formatDate, isOverdue } from "@martian-todos/shared";
+import { useState } from "react";
+import type { Todo, TodoStatus, WorkspaceMember } from "@martian-todos/shared";
+import {
+  describeRecurrence,
+  formatDate,
+  isOverdue,
+  parseRecurrenceRule,
+} from "@martian-todos/shared";
+import { Avatar } from "./Avatar";
+import { CommentThread } from "./CommentThread";
+import { SubtaskChecklist } from "./SubtaskChecklist";
+import { TodoHistory } from "./TodoHistory";
 
 interface TodoItemProps {
+  token: string;
   todo: Todo;
   isBusy: boolean;
+  members: WorkspaceMember[];
+  currentUserId: string | null;
   onStatusChange: (todo: Todo, status: TodoStatus) => void;
+  onAssign: (todo: Todo, assigneeId: string | null) => void;
   onDelete: (todo: Todo) => void;
+  onRefresh: (todoId: string) => void;
+}
+
+/**
+ * Summarizes a stored RRULE for display, tolerating unparseable rules.
+ */
+function summarizeRecurrence(rule: string | null): string | null {
+  if (!rule) return null;
+
+  try {
+    return describeRecurrence(parseRecurrenceRule(rule));
+  } catch {
+    return "repeats";
+  }
 }
 
 const STATUS_LABELS: Record<TodoStatus, string> = {
@@ -17,9 +45,29 @@ const STATUS_LABELS: Record<TodoStatus, string> = {
 /**
  * Individual todo item with status toggle and delete.
  */
-export function TodoItem({ todo, isBusy, onStatusChange, onDelete }: TodoItemProps) {
+export function TodoItem({
+  token,
+  todo,
+  isBusy,
+  members,
+  currentUserId,
+  onStatusChange,
+  onAssign,
+  onDelete,
+  onRefresh,
+}: TodoItemProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showComments, setShowComments] = useState(false);
   const isComplete = todo.status === "completed";
   const overdue = !isComplete && isOverdue(todo.dueDate);
+  const { done, total } = todo.subtaskProgress;
+  const recurrence = summarizeRecurrence(todo.recurrenceRule);
+  // Keep the current assignee selectable even if they've left the workspace.
+  const assigneeOptions =
+    todo.assignee && !members.some((member) => member.userId === todo.assignee?.id)
+      ? [...members, { userId: todo.assignee.id, name: todo.assignee.name }]
+      : members;
 
   return (
     <article
@@ -66,7 +114,78 @@ export function TodoItem({ todo, isBusy, onStatusChange, onDelete }: TodoItemPro
               {overdue && " (overdue)"}
             </span>
           )}
+          {recurrence && (
+            <span className="chip chip--recurrence" title={todo.recurrenceRule ?? undefined}>
+              ↻ {recurrence}
+            </span>
+          )}
+          {todo.tags.map((tag) => (
+            <span key={tag} className="tag-chip">
+              #{tag}
+            </span>
+          ))}
+          <label className="chip chip--assignee">
+            <Avatar name={todo.assignee?.name ?? null} />
+            <select
+              value={todo.assigneeId ?? ""}
+              onChange={(e) => onAssign(todo, e.target.value || null)}
+              disabled={isBusy}
+              aria-label={`Assignee for ${todo.title}`}
+            >
+              <option value="">Unassigned</option>
+              {assigneeOptions.map((member) => (
+                <option key={member.userId} value={member.userId}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            className={`chip chip--button${total > 0 && done === total ? " chip--completed" : ""}`}
+            type="button"
+            onClick={() => setExpanded((prev) => !prev)}
+            aria-expanded={expanded}
+            disabled={isBusy}
+          >
+            {total > 0 ? `Checklist ${done}/${total}` : "Add checklist"}
+          </button>
+          <button
+            className="chip chip--button"
+            type="button"
+            onClick={() => setShowHistory((prev) => !prev)}
+            aria-expanded={showHistory}
+            disabled={isBusy}
+          >
+            History
+          </button>
+          <button
+            className="chip chip--button"
+            type="button"
+            onClick={() => setShowComments((prev) => !prev)}
+            aria-expanded={showComments}
+            disabled={isBusy}
+          >
+            {todo.commentCount > 0 ? `Comments ${todo.commentCount}` : "Comment"}
+          </button>
         </div>
+
+        {/* Checklist panel */}
+        {expanded && (
+          <SubtaskChecklist token={token} todo={todo} onChange={onRefresh} />
+        )}
+
+        {/* Activity timeline */}
+        {showHistory && <TodoHistory token={token} todo={todo} members={members} />}
+
+        {/* Discussion thread */}
+        {showComments && (
+          <CommentThread
+            token={token}
+            todo={todo}
+            currentUserId={currentUserId}
+            onChange={onRefresh}
+          />
+        )}
       </div>
 
       {/* Delete action */}
@@ -1,27 +1,61 @@
-import type { Todo, TodoStatus } from "@martian-todos/shared";
+import { useEffect, useRef } from "react";
+import type { Todo, TodoStatus, WorkspaceMember } from "@martian-todos/shared";
 import { TodoItem } from "./TodoItem";
 
 interface TodoListProps {
+  token: string;
   todos: Todo[];
   isLoading: boolean;
+  isLoadingMore: boolean;
+  hasMore: boolean;
   pendingIds: string[];
   emptyMessage: string;
+  members: WorkspaceMember[];
+  currentUserId: string | null;
   onStatusChange: (todo: Todo, status: TodoStatus) => void;
+  onAssign: (todo: Todo, assigneeId: string | null) => void;
   onDelete: (todo: Todo) => void;
+  onRefresh: (todoId: string) => void;
+  onLoadMore: () => void;
 }
 
 /**
  * Renders a list of todos with loading and empty states.
  */
 export function TodoList({
+  token,
   todos,
   isLoading,
+  isLoadingMore,
+  hasMore,
   pendingIds,
   emptyMessage,
+  members,
+  currentUserId,
   onStatusChange,
+  onAssign,
   onDelete,
+  onRefresh,
+  onLoadMore,
 }: TodoListProps) {
   const pendingSet = new Set(pendingIds);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Fetch the next page once the end of the list scrolls into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore, todos.length]);
 
   // Render a skeleton grid for the initial load.
   if (isLoading && todos.length === 0) {
@@ -50,19 +84,6 @@ export function TodoList({
     );
   }
 
-  const priorityWeights: Record<string, number> = {
-    high: 0,
-    medium: 1,
-    low: 2,
-  };
-
-  // TODO: This mutates props and creates unstable ordering; copy before sorting.
-  const sortedTodos = todos.sort(
-    (left, right) =>
-      (priorityWeights[left.priority] ?? 99) -
-      (priorityWeights[right.priority] ?? 99)
-  );
-
   return (
     <div className="todo-list">
       {/* Light-weight refresh indicator when we already have data. */}
@@ -71,17 +92,28 @@ export function TodoList({
           Refreshing tasks...
         </div>
       )}
-      {/* Render each todo, with optimistic syncing indicators. */}
-      {/* TODO: This mutates props and creates unstable ordering; copy before sorting. */}
-      {sortedTodos.map((todo) => (
+      {/* Render each todo in the order the API sorted them, with optimistic
+          syncing indicators. */}
+      {todos.map((todo) => (
         <TodoItem
           key={todo.id}
+          token={token}
           todo={todo}
           isBusy={pendingSet.has(todo.id)}
+          members={members}
+          currentUserId={currentUserId}
           onStatusChange={onStatusChange}
+          onAssign={onAssign}
           onDelete={onDelete}
+          onRefresh={onRefresh}
         />
       ))}
+      {hasMore && <div ref={sentinelRef} className="todo-list__sentinel" aria-hidden="true" />}
+      {isLoadingMore && (
+        <div className="list-loading" role="status">
+          Loading more tasks...
+        </div>
+      )}
     </div>
   );
 }
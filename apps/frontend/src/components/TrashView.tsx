@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import type { Todo } from "@martian-todos/shared";
+import { formatDate } from "@martian-todos/shared";
+import { deleteTodo, fetchTrash, restoreTodo } from "../api/todos";
+
+interface TrashViewProps {
+  token: string;
+  onRestore: (todo: Todo) => void;
+}
+
+/**
+ * Lists trashed todos with restore and permanent delete actions.
+ */
+export function TrashView({ token, onRestore }: TrashViewProps) {
+  const [items, setItems] = useState<Todo[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the requested page, appending to what is already shown.
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchTrash(token, { page })
+      .then((data) => {
+        if (cancelled) return;
+        setItems((prev) => (page === 1 ? data.items : [...prev, ...data.items]));
+        setTotalPages(data.totalPages);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load trash");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, page]);
+
+  // Run an action against one trashed todo, removing it on success.
+  async function runAction(todo: Todo, action: () => Promise<void>, failure: string) {
+    setBusyIds((prev) => [...prev, todo.id]);
+    setError(null);
+
+    try {
+      await action();
+      setItems((prev) => prev.filter((item) => item.id !== todo.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusyIds((prev) => prev.filter((id) => id !== todo.id));
+    }
+  }
+
+  function handleRestore(todo: Todo) {
+    void runAction(
+      todo,
+      async () => onRestore(await restoreTodo(token, todo.id)),
+      "Failed to restore todo"
+    );
+  }
+
+  function handleDeleteForever(todo: Todo) {
+    void runAction(
+      todo,
+      () => deleteTodo(token, todo.id, { permanent: true }),
+      "Failed to delete todo"
+    );
+  }
+
+  return (
+    <section className="card card--soft trash">
+      <div className="card__header">
+        <div>
+          <p className="eyebrow">Trash</p>
+          <h2>Deleted todos</h2>
+        </div>
+        <p className="muted">Trashed todos are purged automatically after a while.</p>
+      </div>
+
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+
+      {!loading && items.length === 0 ? (
+        <div className="empty-state">
+          <p>The trash is empty.</p>
+        </div>
+      ) : (
+        <ul className="trash__list">
+          {items.map((todo) => {
+            const busy = busyIds.includes(todo.id);
+            return (
+              <li key={todo.id} className="trash__item">
+                <div>
+                  <strong>{todo.title}</strong>
+                  <p className="muted">Deleted {formatDate(todo.deletedAt)}</p>
+                </div>
+                <div className="trash__actions">
+                  <button
+                    type="button"
+                    className="button-secondary"
+                    onClick={() => handleRestore(todo)}
+                    disabled={busy}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    className="icon-button"
+                    onClick={() => handleDeleteForever(todo)}
+                    disabled={busy}
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {loading && (
+        <div className="list-loading" role="status">
+          Loading trash...
+        </div>
+      )}
+
+      {!loading && page < totalPages && (
+        <button
+          type="button"
+          className="button-ghost"
+          onClick={() => setPage((prev) => prev + 1)}
+        >
+          Load more
+        </button>
+      )}
+    </section>
+  );
+}
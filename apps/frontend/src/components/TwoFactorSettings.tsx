@@ -0,0 +1,186 @@
+import { useState, type FormEvent } from "react";
+import type { TwoFactorSetup, User } from "@martian-todos/shared";
+import { disableTwoFactor, enableTwoFactor, setupTwoFactor } from "../api/account";
+import { updateSessionUser } from "../api/session";
+
+interface TwoFactorSettingsProps {
+  token: string;
+  user: User;
+}
+
+/**
+ * Enrolls an authenticator app, shows recovery codes once, and turns
+ * two-factor authentication off again.
+ */
+export function TwoFactorSettings({ token, user }: TwoFactorSettingsProps) {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Run one settings action with shared loading/error handling.
+  async function run(action: () => Promise<void>, failure: string) {
+    setError(null);
+    setLoading(true);
+
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handleStart() {
+    void run(async () => setSetup(await setupTwoFactor(token)), "Could not start setup");
+  }
+
+  function handleEnable(e: FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      const result = await enableTwoFactor(token, code);
+      setRecoveryCodes(result.recoveryCodes);
+      setSetup(null);
+      setCode("");
+      updateSessionUser({ ...user, twoFactorEnabled: true });
+    }, "Could not turn on two-factor authentication");
+  }
+
+  function handleDisable(e: FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      await disableTwoFactor(token, { password: password || undefined, code });
+      setPassword("");
+      setCode("");
+      setRecoveryCodes(null);
+      updateSessionUser({ ...user, twoFactorEnabled: false });
+    }, "Could not turn off two-factor authentication");
+  }
+
+  const errorMessage = error && (
+    <p className="form__error" role="alert">
+      {error}
+    </p>
+  );
+
+  if (recoveryCodes) {
+    return (
+      <div className="two-factor">
+        <p>
+          Two-factor authentication is on. Save these recovery codes somewhere safe. Each
+          one signs you in once if you lose your authenticator, and they won't be shown
+          again.
+        </p>
+        <ul className="two-factor__codes">
+          {recoveryCodes.map((recoveryCode) => (
+            <li key={recoveryCode}>
+              <code>{recoveryCode}</code>
+            </li>
+          ))}
+        </ul>
+        <button type="button" className="button-secondary" onClick={() => setRecoveryCodes(null)}>
+          I've saved them
+        </button>
+      </div>
+    );
+  }
+
+  if (user.twoFactorEnabled) {
+    return (
+      <form className="form two-factor" onSubmit={handleDisable}>
+        <p className="muted">
+          Two-factor authentication is on. To turn it off, confirm your password and a
+          current code. If you sign in with single sign-on, leave the password blank and use
+          a code from your authenticator app.
+        </p>
+        <div className="form__group">
+          <label htmlFor="two-factor-password">Password</label>
+          <input
+            id="two-factor-password"
+            className="input"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={loading}
+          />
+        </div>
+        <div className="form__group">
+          <label htmlFor="two-factor-disable-code">Authentication or recovery code</label>
+          <input
+            id="two-factor-disable-code"
+            className="input"
+            type="text"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            disabled={loading}
+          />
+        </div>
+        {errorMessage}
+        <button type="submit" className="icon-button" disabled={loading}>
+          Turn off two-factor authentication
+        </button>
+      </form>
+    );
+  }
+
+  if (setup) {
+    return (
+      <form className="form two-factor" onSubmit={handleEnable}>
+        <p>
+          Add Martian Todos to your authenticator app by opening{" "}
+          <a href={setup.otpauthUri}>this setup link</a> on your phone, or enter the key
+          manually:
+        </p>
+        <p>
+          <code className="two-factor__secret">{setup.secret}</code>
+        </p>
+        <div className="form__group">
+          <label htmlFor="two-factor-enable-code">Code from the app</label>
+          <input
+            id="two-factor-enable-code"
+            className="input"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            disabled={loading}
+          />
+        </div>
+        {errorMessage}
+        <div className="two-factor__actions">
+          <button type="submit" className="button-primary" disabled={loading}>
+            Turn on
+          </button>
+          <button
+            type="button"
+            className="button-ghost"
+            onClick={() => setSetup(null)}
+            disabled={loading}
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="two-factor">
+      <p className="muted">
+        Require a code from an authenticator app in addition to your password when you sign
+        in.
+      </p>
+      {errorMessage}
+      <button type="button" className="button-secondary" onClick={handleStart} disabled={loading}>
+        Set up two-factor authentication
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect } from "react";
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+const DEFAULT_DURATION_MS = 6000;
+
+/**
+ * Transient notice with an Undo action that dismisses itself after a delay.
+ */
+export function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+  durationMs = DEFAULT_DURATION_MS,
+}: UndoToastProps) {
+  // Restart the timer whenever a new message replaces the current one.
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, durationMs);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss, durationMs]);
+
+  return (
+    <div className="toast" role="status" aria-live="polite">
+      <span>{message}</span>
+      <div className="toast__actions">
+        <button type="button" className="button-secondary" onClick={onUndo}>
+          Undo
+        </button>
+        <button
+          type="button"
+          className="button-link"
+          onClick={onDismiss}
+          aria-label="Dismiss"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
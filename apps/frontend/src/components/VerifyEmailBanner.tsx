@@ -0,0 +1,56 @@
+import { useState } from "react";
+import type { User } from "@martian-todos/shared";
+import { resendVerification } from "../api/account";
+
+interface VerifyEmailBannerProps {
+  token: string;
+  user: User;
+}
+
+/**
+ * Reminds users with an unconfirmed address to verify it, with a resend
+ * action.
+ */
+export function VerifyEmailBanner({ token, user }: VerifyEmailBannerProps) {
+  const [status, setStatus] = useState<"idle" | "sending" | "sent">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleResend() {
+    setStatus("sending");
+    setError(null);
+
+    try {
+      await resendVerification(token);
+      setStatus("sent");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send email");
+      setStatus("idle");
+    }
+  }
+
+  return (
+    <div className="alert alert--info" role="status">
+      <div>
+        <strong>Confirm your email.</strong>
+        <p>
+          We sent a link to {user.email}. Until you open it you may not be able to make
+          changes.
+        </p>
+        {error && <p className="form__error">{error}</p>}
+      </div>
+      <div className="alert__actions">
+        {status === "sent" ? (
+          <span className="muted">Sent! Check your inbox.</span>
+        ) : (
+          <button
+            className="button-secondary"
+            onClick={() => void handleResend()}
+            disabled={status === "sending"}
+          >
+            {status === "sending" ? "Sending..." : "Resend email"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useEffect, useState, type FormEvent } from "react";
+import type { TodoStreamEventType, Webhook, WebhookDelivery } from "@martian-todos/shared";
+import {
+  createWebhook,
+  deleteWebhook,
+  fetchWebhookDeliveries,
+  fetchWebhooks,
+  sendTestWebhook,
+  updateWebhook,
+} from "../api/webhooks";
+
+interface WebhookSettingsProps {
+  token: string;
+  workspaceId: string;
+}
+
+const EVENT_OPTIONS: { event: TodoStreamEventType; label: string }[] = [
+  { event: "todo.created", label: "A todo is created or restored" },
+  { event: "todo.updated", label: "A todo, its checklist or comments change" },
+  { event: "todo.deleted", label: "A todo is deleted" },
+];
+
+/**
+ * Formats a delivery time with minutes, like the history timeline.
+ */
+function formatTimestamp(value: Date | string): string {
+  return new Date(value).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Summarizes how a delivery went for the log.
+ */
+function describeDelivery(delivery: WebhookDelivery): string {
+  const attempts = `${delivery.attempts} attempt${delivery.attempts === 1 ? "" : "s"}`;
+  const outcome =
+    delivery.error ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : null);
+  const retry =
+    delivery.status === "pending" && delivery.nextAttemptAt
+      ? `Next try ${formatTimestamp(delivery.nextAttemptAt)}`
+      : null;
+
+  return [formatTimestamp(delivery.createdAt), attempts, outcome, retry]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * Registers webhooks that receive the workspace's todo changes, with a
+ * delivery log for each.
+ */
+export function WebhookSettings({ token, workspaceId }: WebhookSettingsProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState("");
+  const [secret, setSecret] = useState("");
+  const [events, setEvents] = useState<TodoStreamEventType[]>(
+    EVENT_OPTIONS.map((option) => option.event)
+  );
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setOpenLogId(null);
+
+    fetchWebhooks(token, workspaceId)
+      .then((items) => {
+        if (!cancelled) setWebhooks(items);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load webhooks");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, workspaceId]);
+
+  // Run one webhook action with shared busy/error handling.
+  async function run(task: () => Promise<void>, failure: string) {
+    setError(null);
+    setNotice(null);
+    setBusy(true);
+
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function replaceWebhook(updated: Webhook) {
+    setWebhooks((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+  }
+
+  function toggleEvent(event: TodoStreamEventType) {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((item) => item !== event) : [...prev, event]
+    );
+  }
+
+  function handleCreate(e: FormEvent) {
+    e.preventDefault();
+
+    void run(async () => {
+      const created = await createWebhook(token, workspaceId, {
+        url: url.trim(),
+        secret,
+        events,
+      });
+      setWebhooks((prev) => [...prev, created]);
+      setUrl("");
+      setSecret("");
+    }, "Failed to add webhook");
+  }
+
+  function handleToggleEnabled(webhook: Webhook) {
+    void run(async () => {
+      const updated = await updateWebhook(token, workspaceId, webhook.id, {
+        enabled: !webhook.enabled,
+      });
+      replaceWebhook(updated);
+    }, "Failed to update webhook");
+  }
+
+  function handleDelete(webhook: Webhook) {
+    void run(async () => {
+      await deleteWebhook(token, workspaceId, webhook.id);
+      setWebhooks((prev) => prev.filter((item) => item.id !== webhook.id));
+      if (openLogId === webhook.id) setOpenLogId(null);
+    }, "Failed to delete webhook");
+  }
+
+  function showDeliveries(webhook: Webhook) {
+    void run(async () => {
+      setDeliveries(await fetchWebhookDeliveries(token, workspaceId, webhook.id));
+      setOpenLogId(webhook.id);
+    }, "Failed to load deliveries");
+  }
+
+  function handleSendTest(webhook: Webhook) {
+    void run(async () => {
+      const delivery = await sendTestWebhook(token, workspaceId, webhook.id);
+      setNotice(
+        delivery.status === "succeeded"
+          ? `Test event delivered (HTTP ${delivery.responseStatus}).`
+          : `Test event failed: ${delivery.error ?? "no response"}.`
+      );
+      if (openLogId === webhook.id) setDeliveries((prev) => [delivery, ...prev]);
+    }, "Failed to send test event");
+  }
+
+  return (
+    <div className="access-tokens">
+      <p className="muted">
+        Webhooks POST todo changes in this workspace to your URL as JSON. Each request is signed
+        with your secret: check the <code>X-Signature</code> header, an HMAC-SHA256 of the body.
+      </p>
+
+      <form className="form access-tokens__form" onSubmit={handleCreate}>
+        <div className="form__group">
+          <label htmlFor="webhook-url">URL</label>
+          <input
+            id="webhook-url"
+            className="input"
+            type="url"
+            placeholder="https://example.com/hooks/todos"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            maxLength={2000}
+            required
+            disabled={busy}
+          />
+        </div>
+        <div className="form__group">
+          <label htmlFor="webhook-secret">Secret</label>
+          <input
+            id="webhook-secret"
+            className="input"
+            type="password"
+            placeholder="At least 16 characters"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            minLength={16}
+            maxLength={200}
+            autoComplete="off"
+            required
+            disabled={busy}
+          />
+        </div>
+        <fieldset className="access-tokens__scopes" disabled={busy}>
+          <legend>Events</legend>
+          {EVENT_OPTIONS.map((option) => (
+            <label key={option.event}>
+              <input
+                type="checkbox"
+                checked={events.includes(option.event)}
+                onChange={() => toggleEvent(option.event)}
+              />
+              <code>{option.event}</code> {option.label}
+            </label>
+          ))}
+        </fieldset>
+        <button type="submit" className="button-secondary" disabled={busy || events.length === 0}>
+          Add webhook
+        </button>
+      </form>
+
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+      {notice && (
+        <p className="form__notice" role="status">
+          {notice}
+        </p>
+      )}
+
+      {loading ? (
+        <div className="list-loading" role="status">
+          Loading webhooks...
+        </div>
+      ) : (
+        webhooks.length > 0 && (
+          <ul className="account__sessions">
+            {webhooks.map((webhook) => (
+              <li key={webhook.id} className="account__session webhooks__item">
+                <div className="webhooks__summary">
+                  <div>
+                    <strong className="webhooks__url">{webhook.url}</strong>
+                    {!webhook.enabled && <span className="badge">Disabled</span>}
+                    <p className="muted">
+                      {webhook.events.join(", ")}
+                      {webhook.consecutiveFailures > 0 &&
+                        ` · ${webhook.consecutiveFailures} failed attempt` +
+                          `${webhook.consecutiveFailures === 1 ? "" : "s"} in a row`}
+                      {webhook.disabledAt && ` · Disabled ${formatTimestamp(webhook.disabledAt)}`}
+                    </p>
+                  </div>
+                  <div className="workspace__member-actions">
+                    <button
+                      type="button"
+                      className="button-ghost"
+                      onClick={() => handleSendTest(webhook)}
+                      disabled={busy}
+                    >
+                      Send test
+                    </button>
+                    <button
+                      type="button"
+                      className="button-ghost"
+                      onClick={() =>
+                        openLogId === webhook.id ? setOpenLogId(null) : showDeliveries(webhook)
+                      }
+                      disabled={busy}
+                    >
+                      {openLogId === webhook.id ? "Hide deliveries" : "Deliveries"}
+                    </button>
+                    <button
+                      type="button"
+                      className="button-ghost"
+                      onClick={() => handleToggleEnabled(webhook)}
+                      disabled={busy}
+                    >
+                      {webhook.enabled ? "Disable" : "Enable"}
+                    </button>
+                    <button
+                      type="button"
+                      className="icon-button"
+                      onClick={() => handleDelete(webhook)}
+                      disabled={busy}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {openLogId === webhook.id &&
+                  (deliveries.length === 0 ? (
+                    <p className="muted">Nothing delivered yet.</p>
+                  ) : (
+                    <ul className="webhooks__deliveries">
+                      {deliveries.map((delivery) => (
+                        <li key={delivery.id}>
+                          <code>{delivery.eventType}</code>
+                          <span className={`badge webhooks__status--${delivery.status}`}>
+                            {delivery.status}
+                          </span>
+                          <span className="muted">{describeDelivery(delivery)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ))}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,435 @@
+import { useEffect, useState, type FormEvent } from "react";
+import type {
+  User,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceRole,
+} from "@martian-todos/shared";
+import {
+  createWorkspace,
+  deleteWorkspace,
+  fetchInvitations,
+  fetchMembers,
+  inviteMember,
+  removeMember,
+  renameWorkspace,
+  revokeInvitation,
+  updateMemberRole,
+} from "../api/workspaces";
+import { WebhookSettings } from "./WebhookSettings";
+
+interface WorkspacePageProps {
+  token: string;
+  user: User | null;
+  workspace: Workspace;
+  onUpdated: (workspace: Workspace) => void;
+  onCreated: (workspace: Workspace) => void;
+  onLeft: () => void;
+}
+
+const ROLE_OPTIONS: { role: WorkspaceRole; label: string }[] = [
+  { role: "owner", label: "Owner" },
+  { role: "editor", label: "Editor" },
+  { role: "viewer", label: "Viewer" },
+];
+
+/**
+ * Formats an invitation date without the time.
+ */
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Settings for the selected workspace: its name, members, invitations
+ * and webhooks, plus creating a new shared workspace.
+ */
+export function WorkspacePage({
+  token,
+  user,
+  workspace,
+  onUpdated,
+  onCreated,
+  onLeft,
+}: WorkspacePageProps) {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [name, setName] = useState(workspace.name);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("editor");
+  const [newName, setNewName] = useState("");
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const isOwner = workspace.role === "owner";
+  const canManage = isOwner && !workspace.personal;
+
+  useEffect(() => {
+    setName(workspace.name);
+  }, [workspace.name]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setConfirmingDelete(false);
+    setLoading(true);
+
+    Promise.all([
+      fetchMembers(token, workspace.id),
+      canManage ? fetchInvitations(token, workspace.id) : Promise.resolve([]),
+    ])
+      .then(([memberList, invitationList]) => {
+        if (cancelled) return;
+        setMembers(memberList);
+        setInvitations(invitationList);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load members");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, workspace.id, canManage]);
+
+  // Run one settings action with shared busy/error handling.
+  async function run(task: () => Promise<void>, failure: string) {
+    setError(null);
+    setNotice(null);
+    setBusy(true);
+
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleRename(e: FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      onUpdated(await renameWorkspace(token, workspace.id, { name: name.trim() }));
+    }, "Failed to rename workspace");
+  }
+
+  function handleRoleChange(member: WorkspaceMember, role: WorkspaceRole) {
+    void run(async () => {
+      const updated = await updateMemberRole(token, workspace.id, member.userId, role);
+      setMembers((prev) => prev.map((item) => (item.userId === updated.userId ? updated : item)));
+    }, "Failed to change role");
+  }
+
+  function handleRemove(member: WorkspaceMember) {
+    void run(async () => {
+      await removeMember(token, workspace.id, member.userId);
+      if (member.userId === user?.id) {
+        onLeft();
+        return;
+      }
+      setMembers((prev) => prev.filter((item) => item.userId !== member.userId));
+      onUpdated({ ...workspace, memberCount: workspace.memberCount - 1 });
+    }, "Failed to remove member");
+  }
+
+  function handleInvite(e: FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      const invitation = await inviteMember(token, workspace.id, {
+        email: inviteEmail.trim(),
+        role: inviteRole,
+      });
+      setInvitations((prev) => [
+        invitation,
+        ...prev.filter((item) => item.id !== invitation.id),
+      ]);
+      setInviteEmail("");
+      setNotice(`Invitation sent to ${invitation.email}.`);
+    }, "Failed to send invitation");
+  }
+
+  function handleRevokeInvitation(invitation: WorkspaceInvitation) {
+    void run(async () => {
+      await revokeInvitation(token, workspace.id, invitation.id);
+      setInvitations((prev) => prev.filter((item) => item.id !== invitation.id));
+    }, "Failed to withdraw invitation");
+  }
+
+  function handleDelete() {
+    void run(async () => {
+      await deleteWorkspace(token, workspace.id);
+      onLeft();
+    }, "Failed to delete workspace");
+  }
+
+  function handleCreate(e: FormEvent) {
+    e.preventDefault();
+    void run(async () => {
+      const created = await createWorkspace(token, { name: newName.trim() });
+      setNewName("");
+      onCreated(created);
+    }, "Failed to create workspace");
+  }
+
+  return (
+    <section className="card card--soft account workspace">
+      <div className="card__header">
+        <div>
+          <p className="eyebrow">Workspace</p>
+          <h2>{workspace.name}</h2>
+          <p className="muted">
+            {workspace.personal
+              ? "Your personal workspace. Only you can see it."
+              : `${workspace.memberCount} member${workspace.memberCount === 1 ? "" : "s"} · ` +
+                `You're ${workspace.role === "viewer" ? "a" : "an"} ${workspace.role}`}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <p className="form__error" role="alert">
+          {error}
+        </p>
+      )}
+      {notice && (
+        <p className="form__notice" role="status">
+          {notice}
+        </p>
+      )}
+
+      {isOwner && (
+        <form className="form profile__form" onSubmit={handleRename}>
+          <div className="form__group">
+            <label htmlFor="workspace-name">Name</label>
+            <input
+              id="workspace-name"
+              className="input"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              required
+              disabled={busy}
+            />
+          </div>
+          <button
+            type="submit"
+            className="button-secondary"
+            disabled={busy || name.trim() === workspace.name}
+          >
+            Rename
+          </button>
+        </form>
+      )}
+
+      {!workspace.personal && (
+        <>
+          <div className="account__section-header">
+            <h3>Members</h3>
+          </div>
+          {loading ? (
+            <div className="list-loading" role="status">
+              Loading members...
+            </div>
+          ) : (
+            <ul className="account__sessions">
+              {members.map((member) => (
+                <li key={member.userId} className="account__session">
+                  <div>
+                    <strong>{member.name}</strong>
+                    {member.userId === user?.id && <span className="badge">You</span>}
+                    <p className="muted">
+                      {member.email} · Joined {formatDate(member.joinedAt)}
+                    </p>
+                  </div>
+                  <div className="workspace__member-actions">
+                    {canManage ? (
+                      <select
+                        className="select"
+                        aria-label={`Role for ${member.name}`}
+                        value={member.role}
+                        onChange={(e) =>
+                          handleRoleChange(member, e.target.value as WorkspaceRole)
+                        }
+                        disabled={busy}
+                      >
+                        {ROLE_OPTIONS.map((option) => (
+                          <option key={option.role} value={option.role}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="muted">{member.role}</span>
+                    )}
+                    {(canManage || member.userId === user?.id) && (
+                      <button
+                        type="button"
+                        className="icon-button"
+                        onClick={() => handleRemove(member)}
+                        disabled={busy}
+                      >
+                        {member.userId === user?.id ? "Leave" : "Remove"}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {canManage && (
+        <>
+          <div className="account__section-header">
+            <h3>Invitations</h3>
+          </div>
+          <form className="form profile__form" onSubmit={handleInvite}>
+            <div className="form__group">
+              <label htmlFor="invite-email">Email</label>
+              <input
+                id="invite-email"
+                className="input"
+                type="email"
+                placeholder="teammate@example.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                required
+                disabled={busy}
+              />
+            </div>
+            <div className="form__group">
+              <label htmlFor="invite-role">Role</label>
+              <select
+                id="invite-role"
+                className="select"
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                disabled={busy}
+              >
+                {ROLE_OPTIONS.map((option) => (
+                  <option key={option.role} value={option.role}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button type="submit" className="button-secondary" disabled={busy}>
+              Send invitation
+            </button>
+          </form>
+
+          {invitations.length > 0 && (
+            <ul className="account__sessions">
+              {invitations.map((invitation) => (
+                <li key={invitation.id} className="account__session">
+                  <div>
+                    <strong>{invitation.email}</strong>
+                    <span className="badge">{invitation.role}</span>
+                    <p className="muted">
+                      {invitation.invitedBy && `Invited by ${invitation.invitedBy.name} · `}
+                      Expires {formatDate(invitation.expiresAt)}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    className="icon-button"
+                    onClick={() => handleRevokeInvitation(invitation)}
+                    disabled={busy}
+                  >
+                    Withdraw
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="account__section-header">
+            <h3>Delete workspace</h3>
+          </div>
+          {confirmingDelete ? (
+            <div className="profile__danger">
+              <p>
+                This deletes {workspace.name} with all of its todos, projects and tags for every
+                member. It can't be undone.
+              </p>
+              <div className="two-factor__actions">
+                <button
+                  type="button"
+                  className="icon-button"
+                  onClick={handleDelete}
+                  disabled={busy}
+                >
+                  Delete workspace
+                </button>
+                <button
+                  type="button"
+                  className="button-ghost"
+                  onClick={() => setConfirmingDelete(false)}
+                  disabled={busy}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              className="icon-button"
+              onClick={() => setConfirmingDelete(true)}
+            >
+              Delete workspace...
+            </button>
+          )}
+        </>
+      )}
+
+      {isOwner && (
+        <>
+          <div className="account__section-header">
+            <h3>Webhooks</h3>
+          </div>
+          <WebhookSettings token={token} workspaceId={workspace.id} />
+        </>
+      )}
+
+      <div className="account__section-header">
+        <h3>New workspace</h3>
+      </div>
+      <p className="muted">Share todos, projects and tags with your team.</p>
+      <form className="form profile__form" onSubmit={handleCreate}>
+        <div className="form__group">
+          <label htmlFor="new-workspace-name">Name</label>
+          <input
+            id="new-workspace-name"
+            className="input"
+            type="text"
+            placeholder="e.g. Launch team"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            maxLength={100}
+            required
+            disabled={busy}
+          />
+        </div>
+        <button type="submit" className="button-secondary" disabled={busy}>
+          Create workspace
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -1,56 +1,49 @@
 import { useState, useEffect, useCallback } from "react";
-import type { User, AuthResponse } from "@martian-todos/shared";
-
-const TOKEN_KEY = "martian_todos_token";
-const USER_KEY = "martian_todos_user";
+import type { AuthResponse } from "@martian-todos/shared";
+import { logout as revokeSession } from "../api/auth";
+import {
+  clearSession,
+  readSession,
+  saveSession,
+  subscribeToSession,
+} from "../api/session";
 
 /**
  * Authentication hook.
- * Manages JWT token and user state in localStorage.
+ * Exposes the persisted session and keeps it in sync with token refreshes
+ * and with logins/logouts in other tabs.
  */
 export function useAuth() {
-  const [token, setToken] = useState<string | null>(() => {
-    return localStorage.getItem(TOKEN_KEY);
-  });
-
-  const [user, setUser] = useState<User | null>(() => {
-    const stored = localStorage.getItem(USER_KEY);
-    return stored ? JSON.parse(stored) : null;
-  });
-
-  // Sync token changes to localStorage
-  useEffect(() => {
-    if (token) {
-      localStorage.setItem(TOKEN_KEY, token);
-    } else {
-      localStorage.removeItem(TOKEN_KEY);
-    }
-  }, [token]);
+  const [session, setSession] = useState(readSession);
 
-  // Sync user changes to localStorage
-  useEffect(() => {
-    if (user) {
-      localStorage.setItem(USER_KEY, JSON.stringify(user));
-    } else {
-      localStorage.removeItem(USER_KEY);
-    }
-  }, [user]);
+  // Follow changes made by apiFetch refreshes and other tabs.
+  useEffect(() => subscribeToSession(setSession), []);
 
   /**
    * Logs in with the API response.
    */
   const login = useCallback((authResponse: AuthResponse) => {
-    setToken(authResponse.token);
-    setUser(authResponse.user);
+    saveSession(authResponse);
   }, []);
 
   /**
-   * Clears auth state.
+   * Clears auth state and revokes the session on the server.
    */
-  const logout = useCallback(() => {
-    setToken(null);
-    setUser(null);
+  const logout = useCallback(async () => {
+    const refreshToken = readSession()?.refreshToken;
+    clearSession();
+
+    if (refreshToken) {
+      // Local sign-out already happened; a failed revoke only leaves the
+      // refresh token to expire on its own.
+      await revokeSession(refreshToken).catch(() => undefined);
+    }
   }, []);
 
-  return { token, user, login, logout };
+  return {
+    token: session?.token ?? null,
+    user: session?.user ?? null,
+    login,
+    logout,
+  };
 }
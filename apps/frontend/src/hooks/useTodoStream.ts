@@ -0,0 +1,59 @@
+import { useEffect, useRef } from "react";
+import type { TodoStreamEvent } from "@martian-todos/shared";
+import { streamTodoEvents } from "../api/events";
+
+const RECONNECT_DELAY_MS = 3000;
+
+interface TodoStreamHandlers {
+  onEvent: (event: TodoStreamEvent) => void;
+  // Changes made while disconnected were missed, so callers should refetch.
+  onReconnect: () => void;
+}
+
+/**
+ * Keeps a live stream of todo changes open for the selected workspace,
+ * reconnecting after drops (including the server closing it when the
+ * access token expires).
+ */
+export function useTodoStream(
+  token: string | null,
+  workspaceId: string | null,
+  handlers: TodoStreamHandlers
+): void {
+  // Read the latest handlers without reconnecting when they change.
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!token) return;
+
+    const controller = new AbortController();
+    let connectedBefore = false;
+
+    async function run() {
+      while (!controller.signal.aborted) {
+        try {
+          await streamTodoEvents(
+            token!,
+            {
+              onOpen: () => {
+                if (connectedBefore) handlersRef.current.onReconnect();
+                connectedBefore = true;
+              },
+              onEvent: (event) => handlersRef.current.onEvent(event),
+            },
+            controller.signal
+          );
+        } catch {
+          // Dropped or refused; retry below unless we were torn down.
+        }
+
+        if (controller.signal.aborted) return;
+        await new Promise((resolve) => window.setTimeout(resolve, RECONNECT_DELAY_MS));
+      }
+    }
+
+    void run();
+    return () => controller.abort();
+  }, [token, workspaceId]);
+}
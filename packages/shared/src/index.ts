@@ -7,6 +7,12 @@
 // Re-export all types
 export * from "./types.js";
 
+// Recurrence rule engine
+export * from "./recurrence.js";
+
+// Comment @mentions
+export * from "./mentions.js";
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -0,0 +1,22 @@
+// ============================================================================
+// Comment @mentions
+// ============================================================================
+
+/**
+ * Matches an `@` followed by an email address, e.g. "@ada@example.com".
+ * The `@` must start a word, so plain addresses aren't mentions. Group 1
+ * is the email. Trailing punctuation isn't part of the match.
+ */
+export const MENTION_PATTERN =
+  /(?<![\w.@])@([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+/**
+ * Returns the distinct emails mentioned in a comment body, lowercased.
+ */
+export function extractMentions(body: string): string[] {
+  const emails = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    emails.add(match[1].toLowerCase());
+  }
+  return Array.from(emails);
+}
@@ -0,0 +1,449 @@
+import { z } from "zod";
+
+// ============================================================================
+// Recurrence Rules (RFC 5545 RRULE subset)
+// ============================================================================
+
+/**
+ * Supported recurrence frequencies.
+ */
+export const RecurrenceFrequency = {
+  DAILY: "DAILY",
+  WEEKLY: "WEEKLY",
+  MONTHLY: "MONTHLY",
+  YEARLY: "YEARLY",
+} as const;
+export type RecurrenceFrequency =
+  (typeof RecurrenceFrequency)[keyof typeof RecurrenceFrequency];
+
+/**
+ * Weekday codes in RRULE order, starting on Monday (WKST=MO).
+ */
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * A BYDAY entry. `ordinal` is only used with MONTHLY rules,
+ * e.g. 1MO (first Monday) or -1FR (last Friday).
+ */
+export interface RecurrenceDay {
+  weekday: Weekday;
+  ordinal?: number;
+}
+
+/**
+ * Parsed recurrence rule.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceDay[];
+  count?: number;
+  until?: Date;
+}
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on generated periods so malformed rules can't loop forever.
+const MAX_ITERATIONS = 10000;
+
+/**
+ * Parses an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO".
+ * A leading "RRULE:" prefix is accepted.
+ * @throws Error when the rule is malformed or uses unsupported parts
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const body = value.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+
+  for (const part of body.split(";")) {
+    if (!part) continue;
+    const [key, raw] = part.split("=");
+    if (!key || raw === undefined) {
+      throw new Error(`Malformed rule part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), raw.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (!freq || !(freq in RecurrenceFrequency)) {
+    throw new Error("FREQ must be one of DAILY, WEEKLY, MONTHLY, YEARLY");
+  }
+
+  const rule: RecurrenceRule = {
+    freq: freq as RecurrenceFrequency,
+    interval: 1,
+    byDay: [],
+  };
+
+  for (const [key, raw] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parsePositiveInteger(raw, "INTERVAL");
+        break;
+      case "COUNT":
+        rule.count = parsePositiveInteger(raw, "COUNT");
+        break;
+      case "UNTIL":
+        rule.until = parseUntil(raw);
+        break;
+      case "BYDAY":
+        rule.byDay = raw.split(",").map(parseRecurrenceDay);
+        break;
+      default:
+        throw new Error(`Unsupported rule part ${key}`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error("COUNT and UNTIL cannot be combined");
+  }
+
+  if (rule.freq === RecurrenceFrequency.YEARLY && rule.byDay.length > 0) {
+    throw new Error("BYDAY is not supported with FREQ=YEARLY");
+  }
+
+  if (
+    rule.freq !== RecurrenceFrequency.MONTHLY &&
+    rule.byDay.some((day) => day.ordinal !== undefined)
+  ) {
+    throw new Error("Ordinal BYDAY values are only supported with FREQ=MONTHLY");
+  }
+
+  return rule;
+}
+
+/**
+ * Serializes a rule back into canonical RRULE form.
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((day) => `${day.ordinal ?? ""}${day.weekday}`)
+        .join(",")}`
+    );
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) {
+    // Basic ISO format without separators or milliseconds: 20270105T235959Z.
+    const until = rule.until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    parts.push(`UNTIL=${until}`);
+  }
+
+  return parts.join(";");
+}
+
+/**
+ * Validates an RRULE string and normalizes it to canonical form.
+ */
+export const RecurrenceRuleSchema = z
+  .string()
+  .max(255)
+  .transform((value, ctx) => {
+    try {
+      return formatRecurrenceRule(parseRecurrenceRule(value));
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : "Invalid recurrence rule",
+      });
+      return z.NEVER;
+    }
+  });
+
+/**
+ * Yields occurrences of a rule in order, starting with `start` itself.
+ * Times of day are taken from `start`; dates are computed in UTC.
+ * Days past the end of a month (e.g. the 31st) clamp to its last day.
+ */
+export function* iterateOccurrences(
+  rule: RecurrenceRule,
+  start: Date
+): Generator<Date> {
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    const candidates = expandPeriod(rule, start, period);
+
+    for (const candidate of candidates) {
+      // The series always begins at its start date.
+      if (candidate < start) continue;
+      if (rule.until && candidate > rule.until) return;
+
+      yield candidate;
+      emitted++;
+
+      if (rule.count !== undefined && emitted >= rule.count) return;
+    }
+  }
+}
+
+/**
+ * Finds the first occurrence strictly after `after`, or null when the
+ * series has ended (COUNT reached or past UNTIL).
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  start: Date,
+  after: Date
+): Date | null {
+  for (const occurrence of iterateOccurrences(rule, start)) {
+    if (occurrence > after) {
+      return occurrence;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds a human-readable summary such as "every 2 weeks on Mon".
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = FREQUENCY_UNITS[rule.freq];
+  let summary = rule.interval === 1 ? `every ${unit}` : `every ${rule.interval} ${unit}s`;
+
+  // List BYDAY weekdays, with ordinals for monthly rules.
+  if (rule.byDay.length > 0) {
+    const days = rule.byDay.map((day) =>
+      day.ordinal === undefined
+        ? WEEKDAY_LABELS[day.weekday]
+        : `${ordinalLabel(day.ordinal)} ${WEEKDAY_LABELS[day.weekday]}`
+    );
+    summary += ` on ${days.join(", ")}`;
+  }
+
+  if (rule.count !== undefined) {
+    summary += `, ${rule.count} time${rule.count === 1 ? "" : "s"}`;
+  }
+
+  if (rule.until !== undefined) {
+    summary += `, until ${rule.until.toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    })}`;
+  }
+
+  return summary;
+}
+
+/**
+ * Parses a positive integer rule value.
+ */
+function parsePositiveInteger(raw: string, key: string): number {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${key} must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Parses an UNTIL value (YYYYMMDD or YYYYMMDDTHHMMSSZ) as UTC.
+ */
+function parseUntil(raw: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(raw);
+  if (!match) {
+    throw new Error("UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSSZ");
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+
+  // Date-only values include the whole final day.
+  return new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      hours === undefined ? 23 : Number(hours),
+      minutes === undefined ? 59 : Number(minutes),
+      seconds === undefined ? 59 : Number(seconds)
+    )
+  );
+}
+
+/**
+ * Parses a BYDAY entry such as "MO", "1MO" or "-1FR".
+ */
+function parseRecurrenceDay(raw: string): RecurrenceDay {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(raw);
+  if (!match) {
+    throw new Error(`Invalid BYDAY value "${raw}"`);
+  }
+
+  const weekday = match[2] as Weekday;
+  if (match[1] === undefined) {
+    return { weekday };
+  }
+
+  const ordinal = Number(match[1]);
+  if (ordinal === 0 || Math.abs(ordinal) > 5) {
+    throw new Error(`Invalid BYDAY ordinal in "${raw}"`);
+  }
+
+  return { weekday, ordinal };
+}
+
+/**
+ * Expands one period (day, week, month, or year) of a rule into its
+ * candidate dates, sorted ascending.
+ */
+function expandPeriod(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case RecurrenceFrequency.DAILY: {
+      const day = addUtcDays(start, step);
+      if (rule.byDay.length > 0 && !hasWeekday(rule, day)) {
+        return [];
+      }
+      return [day];
+    }
+
+    case RecurrenceFrequency.WEEKLY: {
+      if (rule.byDay.length === 0) {
+        return [addUtcDays(start, step * 7)];
+      }
+
+      // Walk the Monday-based week containing the period's anchor day.
+      const weekStart = addUtcDays(start, step * 7 - weekdayIndex(start));
+      return Array.from({ length: 7 }, (_, offset) => addUtcDays(weekStart, offset)).filter(
+        (day) => hasWeekday(rule, day)
+      );
+    }
+
+    case RecurrenceFrequency.MONTHLY: {
+      const year = start.getUTCFullYear();
+      const month = start.getUTCMonth() + step;
+
+      if (rule.byDay.length === 0) {
+        return [atUtcDate(start, year, month, start.getUTCDate())];
+      }
+
+      const days = rule.byDay.flatMap((day) => monthlyWeekdays(start, year, month, day));
+      return days.sort((left, right) => left.getTime() - right.getTime());
+    }
+
+    case RecurrenceFrequency.YEARLY:
+      return [
+        atUtcDate(start, start.getUTCFullYear() + step, start.getUTCMonth(), start.getUTCDate()),
+      ];
+  }
+}
+
+/**
+ * Lists the dates in a month matching a BYDAY entry.
+ */
+function monthlyWeekdays(
+  start: Date,
+  year: number,
+  month: number,
+  day: RecurrenceDay
+): Date[] {
+  const first = atUtcDate(start, year, month, 1);
+  const daysInMonth = daysInUtcMonth(first.getUTCFullYear(), first.getUTCMonth());
+  const target = WEEKDAYS.indexOf(day.weekday);
+
+  const matches: Date[] = [];
+  for (let offset = 0; offset < daysInMonth; offset++) {
+    const candidate = addUtcDays(first, offset);
+    if (weekdayIndex(candidate) === target) {
+      matches.push(candidate);
+    }
+  }
+
+  if (day.ordinal === undefined) {
+    return matches;
+  }
+
+  const index = day.ordinal > 0 ? day.ordinal - 1 : matches.length + day.ordinal;
+  const match = matches[index];
+  return match ? [match] : [];
+}
+
+/**
+ * Builds a date in the given (possibly overflowing) month, keeping the time
+ * of day from `start` and clamping the day to the month's length.
+ */
+function atUtcDate(start: Date, year: number, month: number, day: number): Date {
+  const normalized = new Date(Date.UTC(year, month, 1));
+  const lastDay = daysInUtcMonth(normalized.getUTCFullYear(), normalized.getUTCMonth());
+
+  return new Date(
+    Date.UTC(
+      normalized.getUTCFullYear(),
+      normalized.getUTCMonth(),
+      Math.min(day, lastDay),
+      start.getUTCHours(),
+      start.getUTCMinutes(),
+      start.getUTCSeconds(),
+      start.getUTCMilliseconds()
+    )
+  );
+}
+
+/**
+ * Returns the number of days in a UTC month.
+ */
+function daysInUtcMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Adds whole days to a date.
+ */
+function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Returns the weekday index with Monday = 0.
+ */
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+/**
+ * Checks whether a date falls on one of the rule's BYDAY weekdays.
+ */
+function hasWeekday(rule: RecurrenceRule, date: Date): boolean {
+  const weekday = WEEKDAYS[weekdayIndex(date)];
+  return rule.byDay.some((day) => day.weekday === weekday);
+}
+
+/**
+ * Formats a BYDAY ordinal for display ("1st", "2nd", "last").
+ */
+function ordinalLabel(ordinal: number): string {
+  if (ordinal === -1) return "last";
+  if (ordinal < 0) return `${ordinalLabel(-ordinal)} to last`;
+  if (ordinal === 1) return "1st";
+  if (ordinal === 2) return "2nd";
+  if (ordinal === 3) return "3rd";
+  return `${ordinal}th`;
+}
@@ -1,22 +1,28 @@
 import { z } from "zod";
+import { RecurrenceRuleSchema } from "./recurrence.js";
 
 // ============================================================================
 // User Types
 // ============================================================================
 
+/**
+ * Password strength rules, shared by registration and password changes.
+ */
+export const PasswordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be at most 128 characters")
+  .regex(/[a-z]/, "Password must include a lowercase letter")
+  .regex(/[A-Z]/, "Password must include an uppercase letter")
+  .regex(/[0-9]/, "Password must include a number")
+  .regex(/[^A-Za-z0-9]/, "Password must include a symbol");
+
 /**
  * Schema for creating a new user (registration).
  */
 export const CreateUserSchema = z.object({
   email: z.string().email(),
-  password: z
-    .string()
-    .min(8, "Password must be at least 8 characters")
-    .max(128, "Password must be at most 128 characters")
-    .regex(/[a-z]/, "Password must include a lowercase letter")
-    .regex(/[A-Z]/, "Password must include an uppercase letter")
-    .regex(/[0-9]/, "Password must include a number")
-    .regex(/[^A-Za-z0-9]/, "Password must include a symbol"),
+  password: PasswordSchema,
   name: z.string().min(1, "Name is required"),
 });
 export type CreateUserInput = z.infer<typeof CreateUserSchema>;
@@ -38,6 +44,59 @@ export const RefreshTokenSchema = z.object({
 });
 export type RefreshTokenInput = z.infer<typeof RefreshTokenSchema>;
 
+/**
+ * Schema for requesting a password reset email.
+ */
+export const ForgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+export type ForgotPasswordInput = z.infer<typeof ForgotPasswordSchema>;
+
+/**
+ * Schema for setting a new password with an emailed reset token.
+ */
+export const ResetPasswordSchema = z.object({
+  token: z.string().min(32, "Reset token is required"),
+  password: PasswordSchema,
+});
+export type ResetPasswordInput = z.infer<typeof ResetPasswordSchema>;
+
+/**
+ * Schema for editing the profile. Changing the email needs the current
+ * password, and the new address must be verified again.
+ */
+export const UpdateProfileSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100).optional(),
+    email: z.string().email().optional(),
+    currentPassword: z.string().optional(),
+  })
+  .refine((input) => input.name !== undefined || input.email !== undefined, {
+    message: "Nothing to update",
+  });
+export type UpdateProfileInput = z.infer<typeof UpdateProfileSchema>;
+
+/**
+ * Schema for changing the password while signed in.
+ */
+export const ChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: PasswordSchema,
+});
+export type ChangePasswordInput = z.infer<typeof ChangePasswordSchema>;
+
+/**
+ * Schema for deleting the account, which needs the password again.
+ * Accounts without a password (created through single sign-on) send a
+ * current authenticator code if two-factor is on, and otherwise must
+ * have signed in recently.
+ */
+export const DeleteAccountSchema = z.object({
+  password: z.string().min(1, "Password is required").optional(),
+  code: z.string().trim().min(6, "Enter your authentication code").optional(),
+});
+export type DeleteAccountInput = z.infer<typeof DeleteAccountSchema>;
+
 /**
  * Public user representation (no password).
  */
@@ -45,6 +104,8 @@ export interface User {
   id: string;
   email: string;
   name: string;
+  emailVerifiedAt: Date | null;
+  twoFactorEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -55,10 +116,240 @@ export interface User {
 export interface JWTPayload {
   sub: string; // user id
   email: string;
+  sid?: string; // session (refresh token family) id; absent on older tokens
   iat: number;
   exp: number;
 }
 
+/**
+ * Schema for the second login step: an authenticator code (or a recovery
+ * code) plus the challenge token returned by the first step.
+ */
+export const TwoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  code: z.string().trim().min(6, "Enter your authentication code"),
+});
+export type TwoFactorLoginInput = z.infer<typeof TwoFactorLoginSchema>;
+
+/**
+ * Schema for confirming two-factor enrollment with a first code.
+ */
+export const EnableTwoFactorSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app"),
+});
+export type EnableTwoFactorInput = z.infer<typeof EnableTwoFactorSchema>;
+
+/**
+ * Schema for turning two-factor authentication off. Accounts without a
+ * password (created through single sign-on) omit it and must use a
+ * current authenticator code.
+ */
+export const DisableTwoFactorSchema = z.object({
+  password: z.string().min(1, "Password is required").optional(),
+  code: z.string().trim().min(6, "Enter your authentication code"),
+});
+export type DisableTwoFactorInput = z.infer<typeof DisableTwoFactorSchema>;
+
+/**
+ * Returned by `/auth/login` instead of an AuthResponse when the account
+ * has two-factor authentication on.
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+/**
+ * A pending authenticator enrollment.
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * A signed-in device, i.e. one chain of rotated refresh tokens.
+ */
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  current: boolean;
+}
+
+/**
+ * Sign-in methods offered by the server, for building the login screen.
+ */
+export interface AuthOptions {
+  passwordLogin: boolean;
+  sso: { providerName: string } | null;
+}
+
+/**
+ * Schema for trading the one-time code from a single sign-on redirect for
+ * a session.
+ */
+export const SsoExchangeSchema = z.object({
+  code: z.string().min(32, "Sign-in code is required"),
+});
+export type SsoExchangeInput = z.infer<typeof SsoExchangeSchema>;
+
+/**
+ * Permissions a personal access token can carry. Session tokens from
+ * `/auth/login` have all of them.
+ */
+export const TokenScope = {
+  TODOS_READ: "todos:read",
+  TODOS_WRITE: "todos:write",
+  ACCOUNT_READ: "account:read",
+} as const;
+export type TokenScope = (typeof TokenScope)[keyof typeof TokenScope];
+
+/**
+ * Schema for creating a personal access token. Omit `expiresInDays` for a
+ * token that never expires.
+ */
+export const CreateAccessTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scopes: z
+    .array(z.enum(["todos:read", "todos:write", "account:read"]))
+    .min(1, "Choose at least one scope"),
+  expiresInDays: z.number().int().positive().max(365).nullable().optional(),
+});
+export type CreateAccessTokenInput = z.infer<typeof CreateAccessTokenSchema>;
+
+/**
+ * A personal access token for scripts and integrations.
+ */
+export interface AccessToken {
+  id: string;
+  name: string;
+  scopes: TokenScope[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Returned once, on creation; only a hash of `token` is stored.
+ */
+export interface CreatedAccessToken extends AccessToken {
+  token: string;
+}
+
+/**
+ * Data export lifecycle: queued, being built, downloadable, or failed.
+ */
+export const DataExportStatus = {
+  PENDING: "pending",
+  PROCESSING: "processing",
+  READY: "ready",
+  FAILED: "failed",
+} as const;
+export type DataExportStatus = (typeof DataExportStatus)[keyof typeof DataExportStatus];
+
+/**
+ * An archive of everything stored for the user. `downloadUrl` is set
+ * once the archive is ready and stops working at `expiresAt`.
+ */
+export interface DataExport {
+  id: string;
+  status: DataExportStatus;
+  sizeBytes: number | null;
+  downloadUrl: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+}
+
+// ============================================================================
+// Workspace Types
+// ============================================================================
+
+/**
+ * What a member may do in a workspace: owners manage members and the
+ * workspace itself, editors change todos, viewers only read.
+ */
+export const WorkspaceRole = {
+  OWNER: "owner",
+  EDITOR: "editor",
+  VIEWER: "viewer",
+} as const;
+export type WorkspaceRole = (typeof WorkspaceRole)[keyof typeof WorkspaceRole];
+
+const WorkspaceRoleSchema = z.enum(["owner", "editor", "viewer"]);
+
+/**
+ * Schema for creating or renaming a workspace.
+ */
+export const WorkspaceInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+export type WorkspaceInput = z.infer<typeof WorkspaceInputSchema>;
+
+/**
+ * Schema for inviting someone to a workspace by email.
+ */
+export const InviteMemberSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: WorkspaceRoleSchema,
+});
+export type InviteMemberInput = z.infer<typeof InviteMemberSchema>;
+
+/**
+ * Schema for changing a member's role.
+ */
+export const UpdateMemberSchema = z.object({
+  role: WorkspaceRoleSchema,
+});
+export type UpdateMemberInput = z.infer<typeof UpdateMemberSchema>;
+
+/**
+ * Schema for accepting an emailed invitation.
+ */
+export const AcceptInvitationSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+export type AcceptInvitationInput = z.infer<typeof AcceptInvitationSchema>;
+
+/**
+ * A workspace the user belongs to, with their role in it. Every user has
+ * one personal workspace, which can't be shared or deleted.
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  personal: boolean;
+  role: WorkspaceRole;
+  memberCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+/**
+ * An invitation waiting to be accepted.
+ */
+export interface WorkspaceInvitation {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: { id: string; name: string } | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
 // ============================================================================
 // Todo Types
 // ============================================================================
@@ -83,6 +374,16 @@ export const TodoStatus = {
 } as const;
 export type TodoStatus = (typeof TodoStatus)[keyof typeof TodoStatus];
 
+/**
+ * Tag names are trimmed and lowercased so "Ops" and "ops" are one tag.
+ */
+export const TagNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Tag name is required")
+  .max(50)
+  .transform((name) => name.toLowerCase());
+
 /**
  * Schema for creating a new todo.
  */
@@ -91,6 +392,10 @@ export const CreateTodoSchema = z.object({
   description: z.string().optional(),
   priority: z.enum(["low", "medium", "high"]).default("medium"),
   dueDate: z.string().datetime().optional(),
+  tags: z.array(TagNameSchema).max(20).optional(),
+  projectId: z.string().uuid().optional(),
+  assigneeId: z.string().uuid().optional(),
+  recurrenceRule: RecurrenceRuleSchema.optional(),
 });
 export type CreateTodoInput = z.infer<typeof CreateTodoSchema>;
 
@@ -103,24 +408,422 @@ export const UpdateTodoSchema = z.object({
   priority: z.enum(["low", "medium", "high"]).optional(),
   status: z.enum(["pending", "in_progress", "completed"]).optional(),
   dueDate: z.string().datetime().optional().nullable(),
+  tags: z.array(TagNameSchema).max(20).optional(),
+  projectId: z.string().uuid().optional().nullable(),
+  assigneeId: z.string().uuid().optional().nullable(),
+  recurrenceRule: RecurrenceRuleSchema.optional().nullable(),
 });
 export type UpdateTodoInput = z.infer<typeof UpdateTodoSchema>;
 
+/**
+ * Completed vs. total checklist items for a todo.
+ */
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Markers wrapped around matched terms in search highlights.
+ */
+export const SEARCH_HIGHLIGHT_START = "<mark>";
+export const SEARCH_HIGHLIGHT_END = "</mark>";
+
+/**
+ * Highlighted snippets for a todo returned by a search. Matched terms are
+ * wrapped in SEARCH_HIGHLIGHT_START/END; everything else is plain text
+ * and must still be escaped when rendered.
+ */
+export interface TodoSearchHighlight {
+  title: string;
+  description: string | null;
+}
+
+/**
+ * The workspace member a todo is assigned to.
+ */
+export interface TodoAssignee {
+  id: string;
+  name: string;
+}
+
 /**
  * Full todo representation.
  */
 export interface Todo {
   id: string;
-  userId: string;
+  workspaceId: string;
+  /** The creator; null once their account is deleted. */
+  userId: string | null;
   title: string;
   description: string | null;
   priority: TodoPriority;
   status: TodoStatus;
   dueDate: Date | null;
+  projectId: string | null;
+  assigneeId: string | null;
+  assignee: TodoAssignee | null;
+  recurrenceRule: string | null;
+  subtaskProgress: SubtaskProgress;
+  commentCount: number;
+  tags: string[];
+  /** Set while the todo is in the trash. */
+  deletedAt: Date | null;
+  /** Present only on results of a search query. */
+  highlight?: TodoSearchHighlight;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Dashboard counts across all of a user's (non-trashed) todos.
+ */
+export interface TodoStats {
+  total: number;
+  completed: number;
+  overdue: number;
+}
+
+// ============================================================================
+// Subtask Types
+// ============================================================================
+
+/**
+ * Schema for adding a checklist item to a todo.
+ */
+export const CreateSubtaskSchema = z.object({
+  title: z.string().min(1, "Title is required").max(200),
+});
+export type CreateSubtaskInput = z.infer<typeof CreateSubtaskSchema>;
+
+/**
+ * Schema for updating a checklist item.
+ * `completeParent` marks the parent todo completed when this update
+ * finishes its last open subtask.
+ */
+export const UpdateSubtaskSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  completed: z.boolean().optional(),
+  position: z.number().int().min(0).optional(),
+  completeParent: z.boolean().optional(),
+});
+export type UpdateSubtaskInput = z.infer<typeof UpdateSubtaskSchema>;
+
+/**
+ * Checklist item nested under a todo.
+ */
+export interface Subtask {
+  id: string;
+  todoId: string;
+  title: string;
+  completed: boolean;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Project Types
+// ============================================================================
+
+/**
+ * Schema for creating a new project.
+ */
+export const CreateProjectSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #f26d3d")
+    .optional(),
+});
+export type CreateProjectInput = z.infer<typeof CreateProjectSchema>;
+
+/**
+ * Schema for updating an existing project.
+ */
+export const UpdateProjectSchema = CreateProjectSchema.partial().extend({
+  archived: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+});
+export type UpdateProjectInput = z.infer<typeof UpdateProjectSchema>;
+
+/**
+ * What happens to a project's todos when the project is deleted:
+ * move them back to the Inbox, or delete them along with the project.
+ */
+export const ProjectDeleteMode = {
+  MOVE_TO_INBOX: "inbox",
+  CASCADE: "cascade",
+} as const;
+export type ProjectDeleteMode =
+  (typeof ProjectDeleteMode)[keyof typeof ProjectDeleteMode];
+
+/**
+ * Project grouping todos into a list.
+ */
+export interface Project {
+  id: string;
+  name: string;
+  color: string;
+  archived: boolean;
+  sortOrder: number;
+  todoCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Tag Types
+// ============================================================================
+
+/**
+ * Schema for creating or renaming a tag.
+ */
+export const TagInputSchema = z.object({
+  name: TagNameSchema,
+});
+export type TagInput = z.infer<typeof TagInputSchema>;
+
+/**
+ * Tag with the number of todos it is attached to.
+ */
+export interface Tag {
+  id: string;
+  name: string;
+  todoCount: number;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Todo History Types
+// ============================================================================
+
+/**
+ * Kinds of entries in a todo's activity history.
+ */
+export const TodoEventType = {
+  CREATED: "created",
+  UPDATED: "updated",
+  STATUS_CHANGED: "status_changed",
+  DELETED: "deleted",
+  RESTORED: "restored",
+} as const;
+export type TodoEventType = (typeof TodoEventType)[keyof typeof TodoEventType];
+
+/**
+ * A single field's value before and after a change.
+ */
+export interface TodoFieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Field-level changes keyed by API field name (e.g. "priority", "dueDate").
+ * Checklist edits are recorded under "subtask".
+ */
+export type TodoChanges = Record<string, TodoFieldChange>;
+
+/**
+ * One entry in a todo's activity history.
+ */
+export interface TodoEvent {
+  id: string;
+  todoId: string;
+  type: TodoEventType;
+  actor: { id: string; name: string } | null;
+  changes: TodoChanges;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Real-time Event Types
+// ============================================================================
+
+/**
+ * Changes pushed over the /events stream.
+ */
+export const TodoStreamEventType = {
+  CREATED: "todo.created",
+  UPDATED: "todo.updated",
+  DELETED: "todo.deleted",
+} as const;
+export type TodoStreamEventType = (typeof TodoStreamEventType)[keyof typeof TodoStreamEventType];
+
+/**
+ * One change to a todo in the streamed workspace. `todo` is the current
+ * record for created/updated events and null for deleted ones. Trashing
+ * a todo is a delete; restoring it is a create.
+ */
+export interface TodoStreamEvent {
+  type: TodoStreamEventType;
+  todoId: string;
+  workspaceId: string;
+  actorId: string | null;
+  todo: Todo | null;
+}
+
+// ============================================================================
+// Comment Types
+// ============================================================================
+
+/**
+ * Schema for posting or editing a comment. Bodies are markdown; `@email`
+ * mentions notify workspace members.
+ */
+export const CommentInputSchema = z.object({
+  body: z.string().trim().min(1, "Comment can't be empty").max(5000),
+});
+export type CommentInput = z.infer<typeof CommentInputSchema>;
+
+/**
+ * A comment on a todo. `author` is null once their account is deleted.
+ */
+export interface TodoComment {
+  id: string;
+  todoId: string;
+  author: { id: string; name: string } | null;
+  body: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Kinds of notifications a user can receive.
+ */
+export const NotificationType = {
+  MENTION: "mention",
+} as const;
+export type NotificationType = (typeof NotificationType)[keyof typeof NotificationType];
+
+/**
+ * Tells a user that someone mentioned them in a comment.
+ */
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  actor: { id: string; name: string } | null;
+  todo: { id: string; title: string; workspaceId: string };
+  commentId: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+// ============================================================================
+// Webhook Types
+// ============================================================================
+
+/**
+ * Events a webhook can deliver: the todo changes from the /events stream,
+ * plus the test event sent on request.
+ */
+export const WebhookEventType = {
+  ...TodoStreamEventType,
+  TEST: "webhook.test",
+} as const;
+export type WebhookEventType = (typeof WebhookEventType)[keyof typeof WebhookEventType];
+
+// The backend also resolves the host and rejects private addresses.
+const WebhookUrlSchema = z
+  .string()
+  .trim()
+  .url("Enter a valid URL")
+  .max(2000)
+  .refine((url) => /^https?:\/\//i.test(url), "Webhook URLs must use http or https");
+
+// Signs each delivery; receivers check the X-Signature header with it.
+const WebhookSecretSchema = z
+  .string()
+  .min(16, "Secret must be at least 16 characters")
+  .max(200);
+
+const WebhookEventsSchema = z
+  .array(z.enum(["todo.created", "todo.updated", "todo.deleted"]))
+  .min(1, "Choose at least one event");
+
+/**
+ * Schema for registering a webhook.
+ */
+export const CreateWebhookSchema = z.object({
+  url: WebhookUrlSchema,
+  secret: WebhookSecretSchema,
+  events: WebhookEventsSchema,
+});
+export type CreateWebhookInput = z.infer<typeof CreateWebhookSchema>;
+
+/**
+ * Schema for changing a webhook. Setting `enabled: true` turns a webhook
+ * back on after it was disabled for failing.
+ */
+export const UpdateWebhookSchema = z.object({
+  url: WebhookUrlSchema.optional(),
+  secret: WebhookSecretSchema.optional(),
+  events: WebhookEventsSchema.optional(),
+  enabled: z.boolean().optional(),
+});
+export type UpdateWebhookInput = z.infer<typeof UpdateWebhookSchema>;
+
+/**
+ * An endpoint that receives a workspace's todo changes. The secret is
+ * write-only. `consecutiveFailures` counts failed attempts since the last
+ * success; enough of them disable the webhook.
+ */
+export interface Webhook {
+  id: string;
+  workspaceId: string;
+  url: string;
+  events: TodoStreamEventType[];
+  enabled: boolean;
+  consecutiveFailures: number;
+  disabledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Delivery lifecycle: waiting (or waiting to retry), being sent,
+ * delivered, or given up on.
+ */
+export const WebhookDeliveryStatus = {
+  PENDING: "pending",
+  PROCESSING: "processing",
+  SUCCEEDED: "succeeded",
+  FAILED: "failed",
+} as const;
+export type WebhookDeliveryStatus =
+  (typeof WebhookDeliveryStatus)[keyof typeof WebhookDeliveryStatus];
+
+/**
+ * One event sent (or to be sent) to a webhook, for the delivery log.
+ * `responseStatus` and `error` describe the latest attempt.
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventType: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * The JSON body POSTed to a webhook. `id` is the delivery id, the same on
+ * every retry, so receivers can skip duplicates. `todo` is the todo after
+ * the change (as it was when deleted); null for test events.
+ */
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  workspaceId: string;
+  actorId: string | null;
+  createdAt: string;
+  todo: Todo | null;
+}
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -156,6 +859,19 @@ export interface PaginatedResponse<T> {
   totalPages: number;
 }
 
+/**
+ * Cursor-paginated list response. Cursors are opaque; pass one back as
+ * `cursor` to fetch the page after (nextCursor) or before (prevCursor).
+ * A cursor only works with the sortBy/sortOrder it was issued for.
+ */
+export interface CursorPaginatedResponse<T> {
+  items: T[];
+  total: number;
+  pageSize: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
 /**
  * Auth response with token and user.
  */